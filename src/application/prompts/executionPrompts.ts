@@ -0,0 +1,139 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { EpicService, EpicServiceResolver } from "../../domain/task/services/EpicService.js";
+import type { Epic, Task } from "../../domain/task/entities/Task.js";
+import { flattenSubtasks } from "../../domain/task/services/SubtaskTree.js";
+import { buildExpansionPrompt } from "../tools/expandTaskTool.js";
+
+const EXECUTION_MODES = ['auto', 'manual', 'subtasks'];
+
+const basePathSchema = z.string().describe("FULL directory path for storage (required, e.g., '/path/to/storage')");
+
+// Loads the Epics under basePath; prompts only read them
+async function loadService(resolveEpicService: EpicServiceResolver, basePath: string): Promise<EpicService> {
+    const service = await resolveEpicService(basePath);
+    await service.load();
+    return service;
+}
+
+// The Epic and, when taskId is given, the Task to work on
+async function findTarget(service: EpicService, epicId?: string, taskId?: string): Promise<{ epic: Epic; task?: Task }> {
+    if (taskId) {
+        const result = await service.getTaskById(taskId);
+        if (!result || (epicId && result.epic.id !== epicId)) {
+            throw new Error(`Task with ID ${taskId} not found${epicId ? ` in Epic ${epicId}` : ''}`);
+        }
+        return result;
+    }
+    const epic = epicId ? await service.getEpicById(epicId) : undefined;
+    if (!epic) {
+        throw new Error(`Epic with ID ${epicId} not found`);
+    }
+    return { epic };
+}
+
+/**
+ * Registers prompts walking an agent through executing and breaking down Epics and Tasks
+ * with the executeItem, expandItem and manageItems tools
+ */
+export function registerExecutionPrompts(server: McpServer, resolveEpicService: EpicServiceResolver): void {
+    server.prompt(
+        "executeItem",
+        "Works on a Task from claiming it to marking it done: the next ready one, the next one of an Epic, or a given one.",
+        {
+            basePath: basePathSchema,
+            epicId: z.string().uuid().optional().describe("ID of the Epic to work on; without taskId, its next ready Task (optional)"),
+            taskId: z.string().uuid().optional().describe("ID of the Task to work on (optional, default: the next ready Task)"),
+            agentId: z.string().min(1).optional().describe("ID of the agent doing the work, to lease the Task to (optional)"),
+            executionMode: z.string().optional().describe("auto, manual or subtasks (default: auto)")
+        },
+        async ({ basePath, epicId, taskId, agentId, executionMode = 'auto' }) => {
+            if (!EXECUTION_MODES.includes(executionMode)) {
+                throw new Error(`Unknown executionMode "${executionMode}". Use ${EXECUTION_MODES.join(', ')}.`);
+            }
+            const service = await loadService(resolveEpicService, basePath);
+
+            let executeCall = `executeItem basePath="${basePath}"`;
+            let text: string;
+            let target = "the next ready Task";
+            if (epicId || taskId) {
+                const { epic, task } = await findTarget(service, epicId, taskId);
+                executeCall += ` epicId=${epic.id}${task ? ` taskId=${task.id}` : ''}`;
+                if (task) {
+                    const pending = flattenSubtasks(task.subtasks ?? []).filter(subtask => subtask.status !== 'done');
+                    target = `Task "${task.description.split('\n')[0]}"`;
+                    text = `# 🚀 Work on ${target}\n\n`;
+                    text += `Part of Epic "${epic.description.split('\n')[0]}". Status: ${task.status}`;
+                    text += task.complexity ? `, complexity ${task.complexity}/10` : '';
+                    text += task.subtasks?.length ? `, ${pending.length} of ${flattenSubtasks(task.subtasks).length} Subtask(s) pending.\n\n` : `, no Subtasks.\n\n`;
+                } else {
+                    target = `the next ready Task of Epic "${epic.description.split('\n')[0]}"`;
+                    text = `# 🚀 Work on ${target}\n\n`;
+                    text += `${epic.tasks.filter(candidate => candidate.status === 'done').length}/${epic.tasks.length} Tasks done.\n\n`;
+                }
+            } else {
+                text = `# 🚀 Work on ${target}\n\n`;
+            }
+            if (agentId) executeCall += ` agentId="${agentId}"`;
+            if (executionMode !== 'auto') executeCall += ` executionMode=${executionMode}`;
+
+            text += `## Workflow\n\n`;
+            text += `1. Claim ${target}, mark it in progress and get its details, implementation plan, Subtasks and relevant files:\n`;
+            text += `\`\`\`\n${executeCall}\n\`\`\`\n`;
+            text += `2. If it is too large to finish in one session, break it down first with the expandItem prompt or tool.\n`;
+            text += executionMode === 'subtasks'
+                ? `3. Complete its Subtasks one by one, marking each done with manageItems action=updateSubtask subtaskStatus="done".\n`
+                : `3. Implement it following its implementation plan and test strategy, marking Subtasks done with manageItems action=updateSubtask as you finish them.\n`;
+            text += `4. Record findings and decisions as you go with manageItems action=addWorkLog.\n`;
+            text += `5. Associate the files you created or changed with manageItems action=addFileToTask.\n`;
+            text += `6. Mark the Task done with manageItems action=updateTask status="done", then end your session with action=endSession.\n`;
+            text += `7. Call \`executeItem basePath="${basePath}"${agentId ? ` agentId="${agentId}"` : ''}\` for the next Task.\n`;
+
+            return {
+                description: `Work on ${target}`,
+                messages: [{ role: "user", content: { type: "text", text } }]
+            };
+        }
+    );
+
+    server.prompt(
+        "expandItem",
+        "Breaks an Epic into Tasks, or a Task or Subtask into Subtasks. Without IDs, picks the first item that needs it.",
+        {
+            basePath: basePathSchema,
+            epicId: z.string().uuid().optional().describe("ID of the Epic to break into Tasks, or containing the Task (optional)"),
+            taskId: z.string().uuid().optional().describe("ID of the Task to break into Subtasks (optional)"),
+            subtaskId: z.string().uuid().optional().describe("ID of the Subtask to break into nested Subtasks, within taskId (optional)"),
+            instructions: z.string().optional().describe("Specific instructions for the breakdown (optional)")
+        },
+        async ({ basePath, epicId, taskId, subtaskId, instructions }) => {
+            const service = await loadService(resolveEpicService, basePath);
+            const result = await buildExpansionPrompt(
+                service,
+                { epicId, taskId, subtaskId },
+                instructions ?? "Break down the item into smaller, actionable sub-items (subtasks for a task, tasks for an epic).",
+                basePath
+            );
+            if (result.isError) {
+                throw new Error(result.text);
+            }
+            if (!result.metadata) { // Nothing left to expand
+                return { messages: [{ role: "user", content: { type: "text", text: result.text } }] };
+            }
+
+            // Nested Subtasks already come with the call creating them
+            const { itemType, epicId: targetEpicId, taskId: targetTaskId, subtaskId: targetSubtaskId } = result.metadata;
+            let text = result.text;
+            if (itemType === 'Epic') {
+                text += `\n\nCreate each Task with manageItems action=createTask epicId=${targetEpicId} basePath="${basePath}", or all of them at once with batchEpic.`;
+            } else if (itemType === 'Task') {
+                text += `\n\nCreate each Subtask with manageItems action=createSubtask epicId=${targetEpicId} taskId=${targetTaskId} basePath="${basePath}".`;
+            }
+
+            return {
+                description: `Break down ${itemType} ${targetSubtaskId ?? targetTaskId ?? targetEpicId}`,
+                messages: [{ role: "user", content: { type: "text", text } }]
+            };
+        }
+    );
+}
@@ -0,0 +1,13 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { EpicServiceResolver } from "../../domain/task/services/EpicService.js";
+import { registerPlanningPrompts } from "./planningPrompts.js";
+import { registerExecutionPrompts } from "./executionPrompts.js";
+
+/**
+ * Registers all application prompts with the MCP server
+ * @param resolveEpicService Resolves the EpicService for the basePath a prompt is requested with
+ */
+export function registerAllPrompts(server: McpServer, resolveEpicService: EpicServiceResolver): void {
+  registerPlanningPrompts(server);
+  registerExecutionPrompts(server, resolveEpicService);
+}
@@ -0,0 +1,111 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { z } from "zod";
+import {
+    loadPlanConfiguration,
+    getAvailableConfigurations,
+    BUNDLED_CONFIG_DIR,
+    DEFAULT_PLAN_CONFIGURATION
+} from "../../infrastructure/planConfigLoader.js";
+import type { PlanConfiguration, PlanStep } from "../../types/PlanConfigTypes.js";
+import { generatePromptFromStepConfig } from "../tools/planEpicTool.js";
+
+// A plan configuration and the file it was loaded from; the built-in default has none
+interface AvailableConfiguration {
+    configuration: PlanConfiguration;
+    configPath?: string;
+}
+
+// The built-in default and the configurations in config/planning, read afresh so edited files are picked up
+function getConfigurations(): AvailableConfiguration[] {
+    const bundled: AvailableConfiguration[] = [];
+    for (const configPath of getAvailableConfigurations(BUNDLED_CONFIG_DIR)) {
+        const result = loadPlanConfiguration(configPath);
+        if (result.success && result.configuration) {
+            bundled.push({ configuration: result.configuration, configPath });
+        }
+    }
+    return [{ configuration: DEFAULT_PLAN_CONFIGURATION }, ...bundled];
+}
+
+// Finds a configuration by ID, or loads it from a JSON file such as one saved by createPlanningConfig
+function resolveConfiguration(idOrPath: string): AvailableConfiguration {
+    const configurations = getConfigurations();
+    const found = configurations.find(({ configuration }) => configuration.id === idOrPath);
+    if (found) {
+        return found;
+    }
+    if (idOrPath.endsWith('.json')) {
+        const result = loadPlanConfiguration(idOrPath);
+        if (!result.success || !result.configuration) {
+            throw new Error(`Error loading plan configuration: ${result.error}`);
+        }
+        return { configuration: result.configuration, configPath: idOrPath };
+    }
+    const ids = configurations.map(({ configuration }) => configuration.id).join(', ');
+    throw new Error(`Plan configuration "${idOrPath}" not found. Available configurations: ${ids}`);
+}
+
+// A step by its ID, or by its number as planEpic's currentStep counts them (from 0)
+function resolveStep(configuration: PlanConfiguration, step: string | undefined): PlanStep {
+    if (!step) {
+        return configuration.steps[0];
+    }
+    const byId = configuration.steps.find(candidate => candidate.id === step);
+    if (byId) {
+        return byId;
+    }
+    const index = /^\d+$/.test(step) ? Number(step) : -1;
+    if (index >= 0 && index < configuration.steps.length) {
+        return configuration.steps[index];
+    }
+    const ids = configuration.steps.map((candidate, i) => `${i} ${candidate.id}`).join(', ');
+    throw new Error(`Step "${step}" not found in ${configuration.id}. Its steps are: ${ids}`);
+}
+
+/**
+ * Registers the planFeature prompt, so planEpic's workflows can be started from the client's prompt picker
+ */
+export function registerPlanningPrompts(server: McpServer): void {
+    const configurationIds = getConfigurations().map(({ configuration }) => configuration.id);
+
+    server.prompt(
+        "planFeature",
+        "Plans a feature step by step with a plan configuration, e.g. indepth-implementation-plan, starting at any of its steps. Continues with the planEpic tool and ends with batchEpic.",
+        {
+            description: z.string().min(1).describe("High-level description of what needs to be implemented"),
+            configurationId: completable(
+                z.string().min(1),
+                (value) => getConfigurations().map(({ configuration }) => configuration.id).filter(id => id.startsWith(value))
+            ).describe(`Plan configuration: ${configurationIds.join(', ')}, or the FULL path to a configuration JSON file`),
+            step: z.string().optional().describe("Step to start at: its ID (e.g. requirement_analysis) or its number counted from 0 as in planEpic currentStep (default: the first step)"),
+            basePath: z.string().optional().describe("FULL base path for the implementation (optional)"),
+            additionalContext: z.string().optional().describe("Additional context or requirements for the implementation (optional)"),
+            planSummary: z.string().optional().describe("Summary of the planning done so far, when starting at a later step (optional)")
+        },
+        async ({ description, configurationId, step, basePath, additionalContext, planSummary }) => {
+            const { configuration, configPath } = resolveConfiguration(configurationId);
+            const stepConfig = resolveStep(configuration, step);
+
+            let text = `Plan the following with **${configuration.name}** (\`${configuration.id}\`): ${configuration.description}.\n`;
+            text += `Steps: ${configuration.steps.map((candidate, index) => `${index} ${candidate.name}`).join(' → ')}\n\n`;
+            text += generatePromptFromStepConfig(
+                stepConfig,
+                description,
+                basePath,
+                additionalContext,
+                planSummary,
+                configuration.defaultMaxDepth ?? 3,
+                configuration.includeTestStrategy ?? true
+            );
+            if (configPath) {
+                text += `\n\nPass configPath="${configPath}" to every planEpic call so the remaining steps follow ${configuration.name}.`;
+            }
+
+            return {
+                description: `Step ${stepConfig.order + 1} of ${configuration.steps.length} of ${configuration.name}`,
+                messages: [{ role: "user", content: { type: "text", text } }]
+            };
+        }
+    );
+}
@@ -0,0 +1,140 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { EpicChangeListener, EpicService, EpicServiceResolver } from "../../domain/task/services/EpicService.js";
+import type { Epic } from "../../domain/task/entities/Task.js";
+import { renderEpicOverview } from "../tools/getEpicOverviewTool.js";
+
+export const EPICS_URI = "intelliplan://epics";
+
+// Loads the latest Epics of the workspace the resources are read from
+async function loadService(resolveEpicService: EpicServiceResolver, basePath: string): Promise<EpicService> {
+    const service = await resolveEpicService(basePath);
+    await service.load();
+    return service;
+}
+
+async function requireEpic(service: EpicService, epicId: string): Promise<Epic> {
+    const epic = await service.getEpicById(epicId);
+    if (!epic) {
+        throw new Error(`Epic with ID ${epicId} not found`);
+    }
+    return epic;
+}
+
+// Template variables may be repeated; the first value counts
+function getVariable(value: string | string[]): string {
+    return Array.isArray(value) ? value[0] : value;
+}
+
+function getTitle(item: { description: string }): string {
+    return item.description.split('\n')[0];
+}
+
+function jsonContents(uri: URL, value: unknown) {
+    return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(value, null, 2) }] };
+}
+
+/**
+ * Registers read-only resources exposing the Epics, Tasks and overviews stored under basePath,
+ * and lets clients subscribe to them
+ * @returns Listener sending resource-updated notifications for subscribed resources when Epics change
+ */
+export function registerEpicResources(server: McpServer, resolveEpicService: EpicServiceResolver, basePath: string): EpicChangeListener {
+    server.resource(
+        "epics",
+        EPICS_URI,
+        { description: "Every Epic with its status, priority, tags, dates and Task counts", mimeType: "application/json" },
+        async (uri) => {
+            const service = await loadService(resolveEpicService, basePath);
+            const epics = (await service.getAllEpics()).map(epic => ({
+                id: epic.id,
+                title: getTitle(epic),
+                status: epic.status,
+                priority: epic.priority,
+                tags: epic.tags,
+                startDate: epic.startDate,
+                dueDate: epic.dueDate,
+                tasks: epic.tasks.length,
+                doneTasks: epic.tasks.filter(task => task.status === 'done').length,
+                uri: `${EPICS_URI}/${epic.id}`
+            }));
+            return jsonContents(uri, epics);
+        }
+    );
+
+    server.resource(
+        "epic",
+        new ResourceTemplate(`${EPICS_URI}/{epicId}`, {
+            list: async () => {
+                const service = await loadService(resolveEpicService, basePath);
+                return {
+                    resources: (await service.getAllEpics()).map(epic => ({ uri: `${EPICS_URI}/${epic.id}`, name: `Epic: ${getTitle(epic)}` }))
+                };
+            }
+        }),
+        { description: "An Epic with all its Tasks and Subtasks", mimeType: "application/json" },
+        async (uri, { epicId }) => {
+            const service = await loadService(resolveEpicService, basePath);
+            return jsonContents(uri, await requireEpic(service, getVariable(epicId)));
+        }
+    );
+
+    server.resource(
+        "task",
+        // Listing every Task of every Epic would flood clients; they are found through their Epic
+        new ResourceTemplate(`${EPICS_URI}/{epicId}/tasks/{taskId}`, { list: undefined }),
+        { description: "A Task with its Subtasks, files, dependencies and work log", mimeType: "application/json" },
+        async (uri, { epicId, taskId }) => {
+            const service = await loadService(resolveEpicService, basePath);
+            const epic = await requireEpic(service, getVariable(epicId));
+            const task = epic.tasks.find(candidate => candidate.id === getVariable(taskId));
+            if (!task) {
+                throw new Error(`Task with ID ${getVariable(taskId)} not found in Epic ${epic.id}`);
+            }
+            return jsonContents(uri, task);
+        }
+    );
+
+    server.resource(
+        "epicOverview",
+        new ResourceTemplate(`${EPICS_URI}/{epicId}/overview.md`, {
+            list: async () => {
+                const service = await loadService(resolveEpicService, basePath);
+                return {
+                    resources: (await service.getAllEpics()).map(epic => ({ uri: `${EPICS_URI}/${epic.id}/overview.md`, name: `Overview: ${getTitle(epic)}` }))
+                };
+            }
+        }),
+        { description: "Markdown overview of an Epic, as getEpicOverview mode=fullOverview renders it", mimeType: "text/markdown" },
+        async (uri, { epicId }) => {
+            const service = await loadService(resolveEpicService, basePath);
+            const epic = await requireEpic(service, getVariable(epicId));
+            const overview = renderEpicOverview(epic, await service.getAllEpics(), await service.getTrashedItemIds());
+            return { contents: [{ uri: uri.href, mimeType: "text/markdown", text: overview }] };
+        }
+    );
+
+    // Subscriptions last as long as the connection; a resource of a changed Epic is any URI below it
+    const subscriptions = new Set<string>();
+    server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        subscriptions.add(request.params.uri);
+        return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(request.params.uri);
+        return {};
+    });
+
+    return (changes) => {
+        if (changes.some(change => !change.before || !change.after)) {
+            server.server.sendResourceListChanged().catch(error => console.error("Failed to notify resource list change:", error));
+        }
+        for (const uri of subscriptions) {
+            const affected = uri === EPICS_URI || changes.some(change => uri === `${EPICS_URI}/${change.epicId}` || uri.startsWith(`${EPICS_URI}/${change.epicId}/`));
+            if (affected) {
+                server.server.sendResourceUpdated({ uri }).catch(error => console.error(`Failed to notify ${uri}:`, error));
+            }
+        }
+    };
+}
@@ -0,0 +1,13 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { EpicChangeListener, EpicServiceResolver } from "../../domain/task/services/EpicService.js";
+import { registerEpicResources } from "./epicResources.js";
+
+/**
+ * Registers all application resources with the MCP server
+ * @param resolveEpicService Resolves the EpicService for basePath
+ * @param basePath Storage the resources are read from
+ * @returns Listener to give the EpicServices of that storage, so subscribers hear about changes
+ */
+export function registerAllResources(server: McpServer, resolveEpicService: EpicServiceResolver, basePath: string): EpicChangeListener {
+  return registerEpicResources(server, resolveEpicService, basePath);
+}
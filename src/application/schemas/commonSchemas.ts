@@ -3,7 +3,13 @@ import { z } from "zod";
 export const taskIdSchema = z.string().uuid().describe("The ID of the task.");
 export const subtaskIdSchema = z.string().uuid().describe("The ID of the subtask.");
 export const taskStatusSchema = z.enum(['todo', 'in-progress', 'done']).optional().describe("Task status");
-export const subtaskStatusSchema = z.enum(['todo', 'done']).optional().describe("Subtask status");
+export const subtaskStatusSchema = z.enum(['todo', 'in-progress', 'done']).optional().describe("Subtask status");
 export const descriptionSchema = z.string().describe("Description text");
 export const prioritySchema = z.enum(['low', 'medium', 'high']).optional().describe("Priority level");
-export const complexitySchema = z.number().int().min(1).max(10).optional().describe("Complexity score (1-10)"); 
\ No newline at end of file
+export const complexitySchema = z.number().int().min(1).max(10).optional().describe("Complexity score (1-10)");
+export const tagsSchema = z.array(z.string()).optional().describe("Tags used to group and filter items");
+export const startDateSchema = z.string().refine(value => !isNaN(Date.parse(value)), { message: "Expected an ISO date string" }).optional().describe("Start date (ISO date string, e.g. 2025-06-02)");
+export const dueDateSchema = z.string().refine(value => !isNaN(Date.parse(value)), { message: "Expected an ISO date string" }).optional().describe("Due date (ISO date string, e.g. 2025-06-30)");
+export const assigneeSchema = z.string().optional().describe("Person or agent responsible for the item");
+export const estimatedHoursSchema = z.number().nonnegative().optional().describe("Estimated effort in hours");
+export const storyPointsSchema = z.number().nonnegative().optional().describe("Estimated effort in story points");
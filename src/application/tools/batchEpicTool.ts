@@ -1,26 +1,63 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { v4 as uuidv4 } from 'uuid';
-import { descriptionSchema, prioritySchema } from "../schemas/commonSchemas.js";
-import { configureStorage, saveEpics, loadEpics } from "../../infrastructure/storage/TaskStorageService.js";
+import { 
+    descriptionSchema, 
+    prioritySchema,
+    tagsSchema,
+    startDateSchema,
+    dueDateSchema,
+    assigneeSchema,
+    estimatedHoursSchema,
+    storyPointsSchema
+} from "../schemas/commonSchemas.js";
 import type { Epic, Task, Subtask, Priority, Status } from "../../domain/task/entities/Task.js";
-import { FileEpicRepository } from "../../infrastructure/persistence/FileEpicRepository.js";
-import { EpicService } from "../../domain/task/services/EpicService.js";
+import type { EpicServiceResolver } from "../../domain/task/services/EpicService.js";
+import { assertWithinMaxDepth, countSubtasks, DEFAULT_MAX_DEPTH, SUBTASK_LEVEL } from "../../domain/task/services/SubtaskTree.js";
+import { validateDependencyChanges } from "../../domain/task/services/DependencyGraph.js";
+import { normalizeTags } from "../../domain/task/services/Tags.js";
+import { validateItemDates } from "../../domain/task/services/Schedule.js";
 
-// Schema for a subtask in the request
-const batchSubtaskSchema = z.object({
+// A subtask in the request, possibly with its own nested subtasks
+interface BatchSubtaskInput {
+    description: string;
+    priority?: Priority;
+    complexity?: number;
+    tags?: string[];
+    subtasks?: BatchSubtaskInput[];
+}
+
+// Schema for a subtask in the request (recursive, so its type is spelled out)
+const batchSubtaskSchema: z.ZodType<BatchSubtaskInput> = z.lazy(() => z.object({
     description: descriptionSchema.describe("Description of the subtask"),
-});
+    priority: prioritySchema.describe("Priority of the subtask (optional)"),
+    complexity: z.number().min(1).max(10).optional().describe("Complexity score from 1-10 (optional)"),
+    tags: tagsSchema,
+    subtasks: z.array(batchSubtaskSchema).optional().describe("Nested subtasks (optional, limited by maxDepth)"),
+}));
+
+const maxDepthSchema = z.number().int().min(1).optional().describe(`Levels of tasks and subtasks allowed below the Epic (optional, default: ${DEFAULT_MAX_DEPTH})`);
+
+// A reference to another task: its local key, its index in the tasks array or the ID of an existing task
+const batchDependencySchema = z.union([z.string(), z.number().int().nonnegative()]);
 
 // Schema for a task in the request
 const batchTaskSchema = z.object({
+    key: z.string().min(1).optional().describe("Local key other tasks in this request can list in their dependencies (optional)"),
     description: descriptionSchema.describe("Description of the task"),
     priority: prioritySchema.optional().describe("Priority of the task (optional)"),
     complexity: z.number().min(1).max(10).optional().describe("Complexity score from 1-10 (optional)"),
     testStrategy: z.string().optional().describe("Test strategy for this task (optional)"),
     implementationPlan: z.string().optional().describe("Implementation plan for this task (optional)"),
     subtasks: z.array(batchSubtaskSchema).optional().describe("List of subtasks for this task (optional)"),
-    dependencies: z.array(z.string()).optional().describe("IDs of other tasks this task depends on (optional)"),
+    dependencies: z.array(batchDependencySchema).optional().describe("Tasks this task depends on: keys or array indices of tasks in this request, or IDs of existing tasks (optional)"),
+    details: z.string().optional().describe("Detailed implementation notes (optional)"),
+    tags: tagsSchema,
+    startDate: startDateSchema,
+    dueDate: dueDateSchema,
+    assignee: assigneeSchema,
+    estimatedHours: estimatedHoursSchema,
+    storyPoints: storyPointsSchema,
 });
 
 // Schema for the epic creation request
@@ -31,12 +68,68 @@ const batchEpicSchema = z.object({
     testStrategy: z.string().optional().describe("Overall test strategy for the Epic (optional)"),
     implementationPlan: z.string().optional().describe("Overall implementation plan for the Epic (optional)"),
     tasks: z.array(batchTaskSchema).describe("List of tasks for this Epic"),
+    maxDepth: maxDepthSchema,
+    details: z.string().optional().describe("High-level details for the Epic (optional)"),
+    tags: tagsSchema,
+    startDate: startDateSchema,
+    dueDate: dueDateSchema,
+    assignee: assigneeSchema,
     basePath: z.string().describe("FULL directory path where Epic storage will be created (required, e.g., '/path/to/storage')"),
 });
 
 type BatchEpicParams = z.infer<typeof batchEpicSchema>;
+type BatchTaskInput = z.infer<typeof batchTaskSchema>;
+
+// Maps each task's dependencies to task IDs, given the IDs generated for the tasks in the request
+function resolveDependencies(tasks: BatchTaskInput[], taskIds: string[], existingTaskIds: Set<string>): string[][] {
+    const idsByKey = new Map<string, string>();
+    tasks.forEach((task, index) => {
+        if (task.key === undefined) return;
+        if (idsByKey.has(task.key)) {
+            throw new Error(`Duplicate task key '${task.key}'.`);
+        }
+        idsByKey.set(task.key, taskIds[index]);
+    });
+
+    return tasks.map((task, index) => (task.dependencies || []).map(reference => {
+        let dependencyId: string | undefined;
+        if (typeof reference === 'number') {
+            dependencyId = taskIds[reference];
+        } else {
+            dependencyId = idsByKey.get(reference) ?? (existingTaskIds.has(reference) ? reference : undefined);
+        }
+        if (!dependencyId) {
+            throw new Error(`Task ${index} ('${task.description.split('\n')[0]}') depends on '${reference}', which is not a key or index of a task in this request nor the ID of an existing task.`);
+        }
+        if (dependencyId === taskIds[index]) {
+            throw new Error(`Task ${index} ('${task.description.split('\n')[0]}') cannot depend on itself.`);
+        }
+        return dependencyId;
+    }));
+}
+
+// Creates the subtasks at the given level, refusing to nest deeper than the Epic's maxDepth
+function buildSubtasks(epic: Epic, items: BatchSubtaskInput[] | undefined, level: number, now: string): Subtask[] {
+    if (!items || items.length === 0) {
+        return [];
+    }
+    assertWithinMaxDepth(epic, level);
+
+    return items.map(item => ({
+        id: uuidv4(),
+        description: item.description,
+        status: 'todo' as const,
+        priority: item.priority,
+        complexity: item.complexity,
+        createdAt: now,
+        updatedAt: now,
+        files: [],
+        tags: item.tags ? normalizeTags(item.tags) : undefined,
+        subtasks: buildSubtasks(epic, item.subtasks, level + 1, now)
+    }));
+}
 
-export function registerBatchEpicTool(server: McpServer): void {
+export function registerBatchEpicTool(server: McpServer, resolveEpicService: EpicServiceResolver): void {
     server.tool(
         "batchEpic",
         "Creates a complete Epic with multiple tasks, each potentially having multiple subtasks, in a single operation.",
@@ -47,6 +140,12 @@ export function registerBatchEpicTool(server: McpServer): void {
             testStrategy: z.string().optional().describe("Overall test strategy for the Epic (optional)"),
             implementationPlan: z.string().optional().describe("Overall implementation plan for the Epic (optional)"),
             tasks: z.array(batchTaskSchema).describe("List of tasks for this Epic"),
+            maxDepth: maxDepthSchema,
+            details: z.string().optional().describe("High-level details for the Epic (optional)"),
+            tags: tagsSchema,
+            startDate: startDateSchema,
+            dueDate: dueDateSchema,
+            assignee: assigneeSchema,
             basePath: z.string().describe("FULL directory path where Epic storage will be created (required, e.g., '/path/to/storage')"),
         },
         async (params: BatchEpicParams) => {
@@ -57,6 +156,12 @@ export function registerBatchEpicTool(server: McpServer): void {
                 testStrategy,
                 implementationPlan,
                 tasks,
+                maxDepth,
+                details,
+                tags,
+                startDate,
+                dueDate,
+                assignee,
                 basePath,
             } = params;
 
@@ -68,85 +173,114 @@ export function registerBatchEpicTool(server: McpServer): void {
             }
 
             try {
-                // Configure storage and load existing data
-                const repo = new FileEpicRepository(basePath);
-                await repo.loadEpics();
-                const service = new EpicService(repo);
+                const service = await resolveEpicService(basePath);
+                // Hold the storage lock so Epics saved by other clients in the meantime aren't dropped
+                return await service.withLock(async () => {
+                    // Load existing data
+                    await service.load();
 
-                // Create Epic
-                const now = new Date().toISOString();
+                    // Create Epic
+                    const now = new Date().toISOString();
                 
-                // Create base epic object
-                const newEpic: Epic = {
-                    id: uuidv4(),
-                    description,
-                    status: 'todo',
-                    priority,
-                    complexity,
-                    createdAt: now,
-                    updatedAt: now,
-                    testStrategy,
-                    implementationPlan,
-                    files: [],
-                    tasks: [],
-                    dependencies: []
-                };
-
-                // Create all tasks with their subtasks
-                for (const taskData of tasks) {
-                    const newTask: Task = {
+                    // Create base epic object
+                    const newEpic: Epic = {
                         id: uuidv4(),
-                        description: taskData.description,
+                        description,
                         status: 'todo',
-                        priority: taskData.priority,
-                        complexity: taskData.complexity,
+                        priority,
+                        complexity,
                         createdAt: now,
                         updatedAt: now,
-                        testStrategy: taskData.testStrategy,
-                        implementationPlan: taskData.implementationPlan,
+                        testStrategy,
+                        implementationPlan,
+                        details,
+                        tags: tags ? normalizeTags(tags) : undefined,
+                        startDate,
+                        dueDate,
+                        assignee,
+                        maxDepth,
                         files: [],
-                        subtasks: [],
-                        dependencies: taskData.dependencies || []
+                        tasks: [],
+                        dependencies: []
                     };
 
-                    // Create subtasks if provided
-                    if (taskData.subtasks && taskData.subtasks.length > 0) {
-                        for (const subtaskData of taskData.subtasks) {
-                            const newSubtask: Subtask = {
-                                id: uuidv4(),
-                                description: subtaskData.description,
-                                status: 'todo',
-                                createdAt: now
-                            };
-                            newTask.subtasks.push(newSubtask);
-                        }
+                    // Generate task IDs up front so dependencies can refer to tasks later in the list
+                    const taskIds = tasks.map(() => uuidv4());
+                    const existingEpics = await service.getAllEpics();
+                    const existingTaskIds = new Set(existingEpics.flatMap(epic => epic.tasks.map(task => task.id)));
+                    const taskDependencies = resolveDependencies(tasks, taskIds, existingTaskIds);
+
+                    // Create all tasks with their subtasks
+                    for (const [index, taskData] of tasks.entries()) {
+                        const newTask: Task = {
+                            id: taskIds[index],
+                            description: taskData.description,
+                            status: 'todo',
+                            priority: taskData.priority,
+                            complexity: taskData.complexity,
+                            createdAt: now,
+                            updatedAt: now,
+                            testStrategy: taskData.testStrategy,
+                            implementationPlan: taskData.implementationPlan,
+                            details: taskData.details,
+                            tags: taskData.tags ? normalizeTags(taskData.tags) : undefined,
+                            startDate: taskData.startDate,
+                            dueDate: taskData.dueDate,
+                            assignee: taskData.assignee,
+                            estimatedHours: taskData.estimatedHours,
+                            storyPoints: taskData.storyPoints,
+                            files: [],
+                            subtasks: [],
+                            dependencies: taskDependencies[index]
+                        };
+
+                        // Create subtasks (and their nested subtasks) if provided
+                        newTask.subtasks = buildSubtasks(newEpic, taskData.subtasks, SUBTASK_LEVEL, now);
+
+                        // Add task to epic
+                        newEpic.tasks.push(newTask);
                     }
 
-                    // Add task to epic
-                    newEpic.tasks.push(newTask);
-                }
+                    // Reject dependency cycles between the new tasks
+                    validateDependencyChanges(existingEpics, [...existingEpics, newEpic]);
+                    validateItemDates(newEpic, 'The Epic');
+                    newEpic.tasks.forEach((task, index) => validateItemDates(task, `Task ${index + 1} ("${task.description}")`));
 
-                // Save the epic to repository
-                repo.addEpic(newEpic);
-                await service.saveAll();
+                    // Save the epic to repository
+                    if (!await service.addEpic(newEpic)) {
+                        throw new Error("Failed to add Epic to storage.");
+                    }
+                    await service.saveAll();
 
-                // Prepare summary of what was created
-                const taskCount = newEpic.tasks.length;
-                const subtaskCount = newEpic.tasks.reduce(
-                    (total, task) => total + (task.subtasks ? task.subtasks.length : 0), 0
-                );
+                    // Prepare summary of what was created
+                    const taskCount = newEpic.tasks.length;
+                    const subtaskCount = newEpic.tasks.reduce(
+                        (total, task) => total + countSubtasks(task.subtasks).total, 0
+                    );
 
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: `✅ Epic created with ID: ${newEpic.id}\n${taskCount} tasks and ${subtaskCount} subtasks created.`
-                    }],
-                    metadata: {
-                        epicId: newEpic.id,
-                        taskCount,
-                        subtaskCount
+                    // Report the IDs generated for keyed tasks so follow-up calls can use them
+                    const taskIdsByKey: Record<string, string> = {};
+                    tasks.forEach((taskData, index) => {
+                        if (taskData.key !== undefined) taskIdsByKey[taskData.key] = taskIds[index];
+                    });
+                    let text = `✅ Epic created with ID: ${newEpic.id}\n${taskCount} tasks and ${subtaskCount} subtasks created.`;
+                    if (Object.keys(taskIdsByKey).length > 0) {
+                        text += `\n\nTask IDs by key:\n` + Object.entries(taskIdsByKey).map(([key, id]) => `- ${key}: ${id}`).join('\n');
                     }
-                };
+
+                    return {
+                        content: [{ 
+                            type: "text", 
+                            text
+                        }],
+                        metadata: {
+                            epicId: newEpic.id,
+                            taskCount,
+                            subtaskCount,
+                            taskIdsByKey
+                        }
+                    };
+                });
             } catch (error: any) {
                 return {
                     content: [{ type: "text", text: `Error creating Epic: ${error.message}` }],
@@ -1,9 +1,8 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { descriptionSchema, prioritySchema } from "../schemas/commonSchemas.js";
-import { EpicService } from "../../domain/task/services/EpicService.js";
-import { FileEpicRepository } from "../../infrastructure/persistence/FileEpicRepository.js";
-import { configureStorage, saveEpics, loadEpics } from "../../infrastructure/storage/TaskStorageService.js";
+import { descriptionSchema, prioritySchema, tagsSchema } from "../schemas/commonSchemas.js";
+import { normalizeTags } from "../../domain/task/services/Tags.js";
+import type { EpicServiceResolver } from "../../domain/task/services/EpicService.js";
 import type { Epic, Task, Priority, Status } from "../../domain/task/entities/Task.js";
 
 const createEpicSchema = z.object({
@@ -13,6 +12,7 @@ const createEpicSchema = z.object({
     acceptanceCriteria: z.array(z.string()).optional().describe("Acceptance criteria for the Epic"),
     estimatedEffort: z.string().optional().describe("Estimated effort for the Epic (e.g., S, M, L)"),
     priority: prioritySchema.optional(), // Make priority optional for Epic creation
+    tags: tagsSchema,
     testStrategy: z.string().optional().describe("Overall testing strategy for the Epic"),
     createTasksFromSteps: z.boolean().optional().default(true).describe("Create Tasks from the 'tasks' list (default: true)"),
     basePath: z.string().describe("FULL directory path where Epic storage will be created (required, e.g., '/path/to/storage')"),
@@ -21,7 +21,7 @@ const createEpicSchema = z.object({
 
 type CreateEpicParams = z.infer<typeof createEpicSchema>;
 
-export function registerCreateEpicTool(server: McpServer): void {
+export function registerCreateEpicTool(server: McpServer, resolveEpicService: EpicServiceResolver): void {
     server.tool(
         "createEpic", // Renamed tool
         "Creates a new Epic (top-level task) with planning details and optional initial Task creation.",
@@ -33,6 +33,7 @@ export function registerCreateEpicTool(server: McpServer): void {
             acceptanceCriteria: z.array(z.string()).optional().describe("Acceptance criteria for the Epic"),
             estimatedEffort: z.string().optional().describe("Estimated effort for the Epic (e.g., S, M, L)"),
             priority: prioritySchema.optional(),
+            tags: tagsSchema,
             testStrategy: z.string().optional().describe("Overall testing strategy for the Epic"),
             createTasksFromSteps: z.boolean().optional().default(true).describe("Create Tasks from the 'tasks' list (default: true)"),
             basePath: z.string().describe("FULL directory path where Epic storage will be created (required, e.g., '/path/to/storage')"),
@@ -46,6 +47,7 @@ export function registerCreateEpicTool(server: McpServer): void {
                 acceptanceCriteria, 
                 estimatedEffort, 
                 priority, 
+                tags,
                 testStrategy,
                 createTasksFromSteps = taskDescriptions ? true : false, // Default based on tasks
                 basePath,
@@ -60,30 +62,31 @@ export function registerCreateEpicTool(server: McpServer): void {
             }
 
             try {
-                // Configure storage and load existing data
-                const repo = new FileEpicRepository(basePath);
-                // Load epics directly from the repository first
-                await repo.loadEpics();
-                // Now create the service with the loaded repository
-                const service = new EpicService(repo);
+                const service = await resolveEpicService(basePath);
+                // Hold the storage lock so Epics saved by other clients in the meantime aren't dropped
+                return await service.withLock(async () => {
+                    // Load existing data
+                    await service.load();
                 
-                // Use EpicService to create the Epic
-                const newEpic = service.createEpic({
-                    description,
-                    priority,
-                    // Complexity is not part of the service createEpic method
-                    // complexity,
-                    // Add any other relevant fields from params here
-                });
+                    // Use EpicService to create the Epic
+                    const newEpic = await service.createEpic({
+                        description,
+                        priority,
+                        tags: tags ? normalizeTags(tags) : undefined,
+                        // Complexity is not part of the service createEpic method
+                        // complexity,
+                        // Add any other relevant fields from params here
+                    });
                 
-                if (!newEpic) {
-                    throw new Error("Failed to create epic using service.");
-                }
+                    if (!newEpic) {
+                        throw new Error("Failed to create epic using service.");
+                    }
 
-                // Save changes via the service
-                await service.saveAll();
+                    // Save changes via the service
+                    await service.saveAll();
 
-                return { content: [{ type: "text", text: `✅ Epic created with ID: ${newEpic.id}` }] };
+                    return { content: [{ type: "text", text: `✅ Epic created with ID: ${newEpic.id}` }] };
+                });
             } catch (error: any) {
                 return { content: [{ type: "text", text: `Error creating Epic: ${error.message}` }], isError: true };
             }
@@ -1,16 +1,12 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { taskIdSchema } from "../schemas/commonSchemas.js"; // Keep generic ID schema for now
-import { 
-    getEpics, 
-    getEpicById, 
-    getTaskById, // This now returns { epic, task }
-    updateEpicStore, 
-    saveEpics,
-    configureStorage,
-    loadEpics
-} from "../../infrastructure/storage/TaskStorageService.js";
+import type { EpicService, EpicServiceResolver } from "../../domain/task/services/EpicService.js";
 import type { Epic, Task, Subtask, Status, Priority, AssociatedFile } from "../../domain/task/entities/Task.js";
+import { flattenSubtasks } from "../../domain/task/services/SubtaskTree.js";
+import { claimTask, hasActiveLease, isLeasedToOther, DEFAULT_LEASE_MINUTES } from "../../domain/task/services/TaskLease.js";
+import { TaskLeaseConflictError } from "../../domain/task/errors/TaskLeaseConflictError.js";
+import { startSession, getElapsedTime, formatDuration } from "../../domain/task/services/WorkLog.js";
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -26,6 +22,8 @@ const executeItemSchema = z.object({
     additionalContext: z.string().optional().describe("Additional context for execution"),
     documentFindings: z.boolean().optional().default(true).describe("Whether to document findings during execution (default: true)"),
     requireFileAssociation: z.boolean().optional().default(true).describe("Whether to require file associations after implementation (default: true)"),
+    agentId: z.string().min(1).optional().describe("ID of the agent executing the Task. The Task is leased to this agent so others skip it (optional)"),
+    leaseMinutes: z.number().int().positive().optional().describe(`How long the lease lasts before other agents may reclaim the Task (default: ${DEFAULT_LEASE_MINUTES})`),
     basePath: z.string().describe("FULL directory path for storage (required, e.g., '/path/to/storage')")
 });
 
@@ -46,6 +44,17 @@ function getStatusCheckbox(status: Status): string {
     return status === 'done' ? '[x]' : '[ ]';
 }
 
+// Helper function to list subtasks with nested subtasks indented below their parent
+function formatSubtaskTree(subtasks: Subtask[], indent: string = ''): string {
+    let text = '';
+    subtasks.forEach(subtask => {
+        text += `${indent}- ${getStatusCheckbox(subtask.status)} ${subtask.status === 'done' ? '✅' : '⬜'} ${subtask.description}\n`;
+        text += `${indent}  *ID: ${subtask.id}*\n`;
+        text += formatSubtaskTree(subtask.subtasks ?? [], indent + '  ');
+    });
+    return text;
+}
+
 // Helper function to find most relevant files for a task
 async function findRelevantFiles(basePath: string, item: Epic | Task): Promise<string[]> {
     const relevantFiles: string[] = [];
@@ -121,45 +130,62 @@ async function findRelevantFiles(basePath: string, item: Epic | Task): Promise<s
     return [...new Set(relevantFiles)];
 }
 
+// Helper functions to look up items among the loaded Epics
+function getEpicById(allEpics: Epic[], epicId: string): Epic | undefined {
+    return allEpics.find(e => e.id === epicId);
+}
+
+function getTaskById(allEpics: Epic[], taskId: string): { epic: Epic, task: Task } | undefined {
+    for (const epic of allEpics) {
+        const task = epic.tasks.find(t => t.id === taskId);
+        if (task) return { epic, task };
+    }
+    return undefined;
+}
+
 // Helper function to check if a task is ready (dependencies satisfied)
 function isTaskReady(task: Task, allEpics: Epic[]): boolean {
     if (!task.dependencies || task.dependencies.length === 0) return true;
     
     return task.dependencies.every(depId => {
-        const depTask = getTaskById(depId);
-        const depEpic = getEpicById(depId);
+        const depTask = getTaskById(allEpics, depId);
+        const depEpic = getEpicById(allEpics, depId);
         return (depTask && depTask.task.status === 'done') || (depEpic && depEpic.status === 'done');
     });
 }
 
 // Helper function to check if an epic is ready (dependencies satisfied)
-function isEpicReady(epic: Epic): boolean {
+function isEpicReady(epic: Epic, allEpics: Epic[]): boolean {
     if (!epic.dependencies || epic.dependencies.length === 0) return true;
     
     return epic.dependencies.every(depId => {
-        const depEpic = getEpicById(depId);
+        const depEpic = getEpicById(allEpics, depId);
         return depEpic && depEpic.status === 'done';
     });
 }
 
-// Helper function to find the next best task to work on
-function findNextTask(allEpics: Epic[]): { epic: Epic, task: Task } | null {
+// Helper function to find the next best task to work on, skipping tasks leased to other agents
+function findNextTask(allEpics: Epic[], agentId?: string): { epic: Epic, task: Task } | null {
     // Priority: in-progress tasks -> ready tasks with no blockers
     
-    // 1. Check for in-progress tasks first
+    // 1. Check for in-progress tasks first, preferring the agent's own leases
+    const inProgress: { epic: Epic, task: Task }[] = [];
     for (const epic of allEpics) {
         if (epic.status !== 'done') {
-            const inProgressTasks = epic.tasks.filter(t => t.status === 'in-progress');
-            if (inProgressTasks.length > 0) {
-                return { epic, task: inProgressTasks[0] };
-            }
+            epic.tasks
+                .filter(t => t.status === 'in-progress' && !isLeasedToOther(t, agentId))
+                .forEach(task => inProgress.push({ epic, task }));
         }
     }
+    const ownTask = inProgress.find(({ task }) => agentId !== undefined && hasActiveLease(task) && task.assignee === agentId);
+    if (ownTask || inProgress.length > 0) {
+        return ownTask ?? inProgress[0];
+    }
     
     // 2. Find tasks that are ready to be worked on (unblocked)
     for (const epic of allEpics) {
-        if (epic.status !== 'done' && isEpicReady(epic)) {
-            const readyTasks = epic.tasks.filter(t => t.status === 'todo' && isTaskReady(t, allEpics));
+        if (epic.status !== 'done' && isEpicReady(epic, allEpics)) {
+            const readyTasks = epic.tasks.filter(t => t.status === 'todo' && isTaskReady(t, allEpics) && !isLeasedToOther(t, agentId));
             if (readyTasks.length > 0) {
                 // Sort by priority if available
                 const sortedTasks = [...readyTasks].sort((a, b) => {
@@ -177,7 +203,7 @@ function findNextTask(allEpics: Epic[]): { epic: Epic, task: Task } | null {
 }
 
 // Renamed registration function
-export function registerExecuteItemTool(server: McpServer): void {
+export function registerExecuteItemTool(server: McpServer, resolveEpicService: EpicServiceResolver): void {
     server.tool(
         "executeItem", // Renamed tool
         "Executes or provides guidance for executing an Epic or Task.",
@@ -189,6 +215,8 @@ export function registerExecuteItemTool(server: McpServer): void {
              additionalContext: z.string().optional(),
              documentFindings: z.boolean().optional().default(true),
              requireFileAssociation: z.boolean().optional().default(true),
+             agentId: z.string().min(1).optional().describe("ID of the agent executing the Task. The Task is leased to this agent so others skip it (optional)"),
+             leaseMinutes: z.number().int().positive().optional().describe(`How long the lease lasts before other agents may reclaim the Task (default: ${DEFAULT_LEASE_MINUTES})`),
              basePath: z.string().describe("FULL directory path for storage (required, e.g., '/path/to/storage')")
         },
         async (params: ExecuteItemParams) => {
@@ -200,6 +228,8 @@ export function registerExecuteItemTool(server: McpServer): void {
                 additionalContext, 
                 documentFindings = true,
                 requireFileAssociation = true,
+                agentId,
+                leaseMinutes = DEFAULT_LEASE_MINUTES,
                 basePath 
             } = params;
             
@@ -210,10 +240,15 @@ export function registerExecuteItemTool(server: McpServer): void {
                  return { content: [{ type: "text", text: "Error: 'basePath' parameter is required." }], isError: true };
             }
 
-            // Configure storage and load data
+            // Load data
+            let service: EpicService;
+            let allEpics: Epic[];
+            let trashedIds: Set<string>;
             try {
-                configureStorage(basePath);
-                await loadEpics();
+                service = await resolveEpicService(basePath);
+                await service.load();
+                allEpics = await service.getAllEpics();
+                trashedIds = await service.getTrashedItemIds();
             } catch (error: any) {
                 return { content: [{ type: "text", text: `Error accessing storage: ${error.message}` }], isError: true };
             }
@@ -228,30 +263,34 @@ export function registerExecuteItemTool(server: McpServer): void {
 
             if (resolvedEpicId && resolvedTaskId) {
                 // Specific Task provided
-                const result = getTaskById(resolvedTaskId);
+                const result = getTaskById(allEpics, resolvedTaskId);
                 if (!result || result.epic.id !== resolvedEpicId) {
                      return { content: [{ type: "text", text: `Error: Task ${resolvedTaskId} not found within Epic ${resolvedEpicId}.` }], isError: true };
                 }
                 targetEpic = result.epic;
                 targetTask = result.task;
+                if (isLeasedToOther(targetTask, agentId)) {
+                    return { content: [{ type: "text", text: `Error: ${new TaskLeaseConflictError(targetTask.id, targetTask.assignee!, targetTask.leaseExpiresAt!).message}` }], isError: true };
+                }
                 targetItemDescription = `Task ${resolvedTaskId}`;
             } else if (resolvedEpicId && !resolvedTaskId) {
                 // Epic provided, find next Task
-                targetEpic = getEpicById(resolvedEpicId);
+                targetEpic = getEpicById(allEpics, resolvedEpicId);
                 if (!targetEpic) {
                     return { content: [{ type: "text", text: `Error: Epic ${resolvedEpicId} not found.` }], isError: true };
                 }
                 
                 // Find next Task logic (simplified: first in-progress or first todo)
-                targetTask = targetEpic.tasks.find(t => t.status === 'in-progress');
+                targetTask = targetEpic.tasks.find(t => t.status === 'in-progress' && !isLeasedToOther(t, agentId));
                 
                 if (!targetTask) {
-                    // Find a ready task (no blockers)
+                    // Find a ready task (no blockers) that no other agent has claimed
                     targetTask = targetEpic.tasks.find(t => 
                         t.status === 'todo' && 
+                        !isLeasedToOther(t, agentId) && 
                         (!t.dependencies || t.dependencies.every(depId => {
-                            const depTask = getTaskById(depId);
-                            const depEpic = getEpicById(depId);
+                            const depTask = getTaskById(allEpics, depId);
+                            const depEpic = getEpicById(allEpics, depId);
                             return (depTask?.task.status === 'done') || (depEpic?.status === 'done');
                         }))
                     );
@@ -266,12 +305,11 @@ export function registerExecuteItemTool(server: McpServer): void {
                 targetItemDescription = `Task: ${targetTask.description.split('\n')[0]}`;
             } else {
                 // No IDs provided, find next best task across all epics
-                const allEpics = getEpics();
                 if (allEpics.length === 0) {
                     return { content: [{ type: "text", text: "No Epics found to suggest or execute." }] };
                 }
                 
-                const nextBestTask = findNextTask(allEpics);
+                const nextBestTask = findNextTask(allEpics, agentId);
                 
                 if (nextBestTask) {
                     targetEpic = nextBestTask.epic;
@@ -284,7 +322,7 @@ export function registerExecuteItemTool(server: McpServer): void {
                     targetItemDescription = `${targetTask.description.split('\n')[0]}`;
                 } else {
                     // Find a ready epic if no tasks are ready
-                    targetEpic = allEpics.find(e => e.status !== 'done' && isEpicReady(e));
+                    targetEpic = allEpics.find(e => e.status !== 'done' && isEpicReady(e, allEpics));
                     
                     if (!targetEpic) {
                         return { content: [{ type: "text", text: "No ready Epics or Tasks found. Try resolving dependencies first." }] };
@@ -302,7 +340,7 @@ export function registerExecuteItemTool(server: McpServer): void {
                 return { content: [{ type: "text", text: `Could not determine target Epic.` }], isError: true };
             }
             
-            if (!targetEpic) targetEpic = getEpicById(resolvedEpicId);
+            if (!targetEpic) targetEpic = getEpicById(allEpics, resolvedEpicId);
             if (!targetEpic) return { content: [{ type: "text", text: `Target Epic ${resolvedEpicId} not found.` }], isError: true };
 
             let itemToExecute: Epic | Task = targetTask || targetEpic;
@@ -311,25 +349,47 @@ export function registerExecuteItemTool(server: McpServer): void {
             // Find relevant files for context
             relevantFiles = await findRelevantFiles(basePath, itemToExecute);
 
-            // Mark as in-progress
+            // Lease the Task to the agent, mark it as in-progress and start a work session
             let markedInProgress = false;
-            if (markInProgress && itemToExecute.status === 'todo') {
-                itemToExecute.status = 'in-progress';
-                itemToExecute.updatedAt = new Date().toISOString();
-                if (targetTask && resolvedEpicId) {
-                    // Need to update the Task within the Epic
-                    const taskIndex = targetEpic.tasks.findIndex(t => t.id === resolvedTaskId);
-                    if (taskIndex !== -1) {
-                        targetEpic.tasks[taskIndex] = targetTask; // targetTask already has status updated
-                        updateEpicStore(resolvedEpicId, targetEpic);
-                        markedInProgress = true;
-                    } 
-                } else {
-                     // Update the Epic directly
-                     updateEpicStore(resolvedEpicId, targetEpic);
-                     markedInProgress = true;
+            let leased = false;
+            let sessionStarted = false;
+            if ((markInProgress && itemToExecute.status === 'todo') || (targetTask && targetTask.status !== 'done')) {
+                // Reload under the storage lock so changes saved by other clients in the meantime aren't overwritten
+                try {
+                    await service.withLock(async () => {
+                        await service.load();
+                        const epic = await service.getEpicById(resolvedEpicId!);
+                        const task = targetTask ? epic?.tasks.find(t => t.id === resolvedTaskId) : undefined;
+                        const item = targetTask ? task : epic;
+                        if (!epic || !item) return;
+                        
+                        targetEpic = epic;
+                        targetTask = task;
+                        itemToExecute = item;
+                        
+                        if (task && agentId) {
+                            claimTask(task, agentId, leaseMinutes); // Throws if another agent claimed it in the meantime
+                            leased = true;
+                        }
+                        if (markInProgress && item.status === 'todo') { // Otherwise picked up by someone else
+                            item.status = 'in-progress';
+                            item.updatedAt = new Date().toISOString();
+                            markedInProgress = true;
+                        }
+                        if (task && task.status !== 'done' && startSession(task, agentId)) {
+                            sessionStarted = true;
+                        }
+                        if (!leased && !markedInProgress && !sessionStarted) return;
+                        
+                        await service.updateEpic(epic.id, epic);
+                        await service.saveAll();
+                    });
+                } catch (error: any) {
+                    if (error instanceof TaskLeaseConflictError) {
+                        return { content: [{ type: "text", text: `Error: ${error.message} Call executeItem again to get another task.` }], isError: true };
+                    }
+                    return { content: [{ type: "text", text: `Error marking ${itemType} as in-progress: ${error.message}` }], isError: true };
                 }
-                 if (markedInProgress) await saveEpics();
             }
             
             // --- Generate comprehensive response ---
@@ -352,12 +412,44 @@ export function registerExecuteItemTool(server: McpServer): void {
                 responseText += `**Complexity:** ${itemToExecute.complexity}/10\n`;
             }
             
+            if (itemToExecute.assignee) {
+                responseText += `**Assignee:** ${itemToExecute.assignee}\n`;
+            }
+            
+            if (targetTask && hasActiveLease(targetTask)) {
+                responseText += `**Lease:** held by ${targetTask.assignee} until ${targetTask.leaseExpiresAt}${leased ? ' (just claimed)' : ''}\n`;
+            }
+            
+            if (targetTask && targetTask.workLog && targetTask.workLog.length > 0) {
+                responseText += `**Time Logged:** ${formatDuration(getElapsedTime(targetTask))}${sessionStarted ? ' (session just started)' : ''}\n`;
+            }
+            
+            if (itemToExecute.dueDate) {
+                responseText += `**Due:** ${new Date(itemToExecute.dueDate).toLocaleDateString()}\n`;
+            }
+            
+            if (itemToExecute.estimatedHours !== undefined || itemToExecute.storyPoints !== undefined) {
+                const estimates = [
+                    itemToExecute.estimatedHours !== undefined ? `${itemToExecute.estimatedHours}h` : undefined,
+                    itemToExecute.storyPoints !== undefined ? `${itemToExecute.storyPoints} points` : undefined
+                ].filter(Boolean).join(', ');
+                responseText += `**Estimate:** ${estimates}\n`;
+            }
+            
+            if (itemToExecute.tags && itemToExecute.tags.length > 0) {
+                responseText += `**Tags:** ${itemToExecute.tags.join(', ')}\n`;
+            }
+            
             responseText += `**Created:** ${new Date(itemToExecute.createdAt).toLocaleString()}\n`;
             responseText += `**Last Updated:** ${new Date(itemToExecute.updatedAt).toLocaleString()}\n\n`;
             
             // 3. Full description
             responseText += `## 📝 Description\n\n${itemToExecute.description}\n\n`;
             
+            if (itemToExecute.details) {
+                responseText += `## 🗒️ Details\n\n${itemToExecute.details}\n\n`;
+            }
+            
             // 4. Implementation plan if available
             if (itemToExecute.implementationPlan) {
                 responseText += `## 📋 Implementation Plan\n\n${itemToExecute.implementationPlan}\n\n`;
@@ -368,6 +460,19 @@ export function registerExecuteItemTool(server: McpServer): void {
                 responseText += `## 🧪 Test Strategy\n\n${itemToExecute.testStrategy}\n\n`;
             }
             
+            // Notes left by earlier sessions on this task
+            const notes = targetTask?.workLog?.filter(entry => entry.message && entry.type !== 'sessionStart') ?? [];
+            if (notes.length > 0) {
+                responseText += `## 📓 Work Log\n\n`;
+                if (notes.length > 10) {
+                    responseText += `_${notes.length - 10} earlier entries not shown._\n\n`;
+                }
+                notes.slice(-10).forEach(entry => {
+                    responseText += `- ${new Date(entry.createdAt).toLocaleString()} **${entry.type}**${entry.agentId ? ` (${entry.agentId})` : ''}: ${entry.message}\n`;
+                });
+                responseText += `\n`;
+            }
+            
             // 6. Epic context if executing a task
             if (targetTask && targetEpic) {
                 responseText += `## 🔄 Epic Context\n\n`;
@@ -386,13 +491,15 @@ export function registerExecuteItemTool(server: McpServer): void {
                     responseText += `**Task Dependencies:**\n\n`;
                     
                     targetTask.dependencies.forEach(depId => {
-                        const depTask = getTaskById(depId);
-                        const depEpic = getEpicById(depId);
+                        const depTask = getTaskById(allEpics, depId);
+                        const depEpic = getEpicById(allEpics, depId);
                         
                         if (depTask) {
                             responseText += `- ${getStatusCheckbox(depTask.task.status)} ${getStatusEmoji(depTask.task.status)} Task: ${depTask.task.description.split('\n')[0]}\n`;
                         } else if (depEpic) {
                             responseText += `- ${getStatusCheckbox(depEpic.status)} ${getStatusEmoji(depEpic.status)} Epic: ${depEpic.description.split('\n')[0]}\n`;
+                        } else if (trashedIds.has(depId)) {
+                            responseText += `- 🗑️ Dependency in the trash: ${depId} (restore it with manageItems action=restore or remove the dependency)\n`;
                         } else {
                             responseText += `- ❓ Unknown dependency: ${depId}\n`;
                         }
@@ -406,10 +513,7 @@ export function registerExecuteItemTool(server: McpServer): void {
             if (targetTask && targetTask.subtasks && targetTask.subtasks.length > 0) {
                 responseText += `## ✅ Subtasks\n\n`;
                 
-                targetTask.subtasks.forEach(subtask => {
-                    responseText += `- ${getStatusCheckbox(subtask.status)} ${subtask.status === 'done' ? '✅' : '⬜'} ${subtask.description}\n`;
-                    responseText += `  *ID: ${subtask.id}*\n`;
-                });
+                responseText += formatSubtaskTree(targetTask.subtasks);
                 
                 responseText += `\n`;
             }
@@ -457,7 +561,7 @@ export function registerExecuteItemTool(server: McpServer): void {
                 
                 if (targetTask && targetTask.subtasks && targetTask.subtasks.length > 0) {
                     responseText += `Focus on completing these subtasks in order:\n\n`;
-                    targetTask.subtasks
+                    flattenSubtasks(targetTask.subtasks)
                         .filter(s => s.status !== 'done')
                         .forEach((s, i) => {
                             responseText += `${i+1}. ${s.description}\n`;
@@ -468,8 +572,9 @@ export function registerExecuteItemTool(server: McpServer): void {
                 responseText += `**Mode:** Subtasks - Focus on completing the subtasks one by one.\n\n`;
                 
                 if (targetTask && targetTask.subtasks && targetTask.subtasks.length > 0) {
-                    const pendingSubtasks = targetTask.subtasks.filter(s => s.status !== 'done');
-                    const completedSubtasks = targetTask.subtasks.filter(s => s.status === 'done');
+                    const allSubtasks = flattenSubtasks(targetTask.subtasks);
+                    const pendingSubtasks = allSubtasks.filter(s => s.status !== 'done');
+                    const completedSubtasks = allSubtasks.filter(s => s.status === 'done');
                     
                     if (pendingSubtasks.length > 0) {
                         responseText += `**Pending Subtasks (${pendingSubtasks.length}):**\n\n`;
@@ -530,7 +635,7 @@ export function registerExecuteItemTool(server: McpServer): void {
             responseText += `When you've completed this ${itemType} or one of its subtasks, update its status:\n\n`;
             
             if (targetTask && targetTask.subtasks && targetTask.subtasks.length > 0) {
-                const pendingSubtask = targetTask.subtasks.find(s => s.status !== 'done');
+                const pendingSubtask = flattenSubtasks(targetTask.subtasks).find(s => s.status !== 'done');
                 if (pendingSubtask) {
                     responseText += `To mark a subtask as complete:\n\`\`\`\nmanageItems action=updateSubtask epicId=${resolvedEpicId} taskId=${resolvedTaskId} subtaskId=${pendingSubtask.id} subtaskStatus="done" basePath="${basePath}"\n\`\`\`\n\n`;
                 }
@@ -543,10 +648,21 @@ export function registerExecuteItemTool(server: McpServer): void {
                 responseText += `manageItems action=updateEpic epicId=${resolvedEpicId} status="done" basePath="${basePath}"\n\`\`\`\n\n`;
             }
             
-            responseText += `To get the next item to work on:\n\`\`\`\nexecuteItem basePath="${basePath}"\n\`\`\`\n\n`;
+            if (leased) {
+                responseText += `Your lease expires after ${leaseMinutes} minutes. To keep working past that, or to hand the Task back:\n\`\`\`\n`;
+                responseText += `manageItems action=renewLease epicId=${resolvedEpicId} taskId=${resolvedTaskId} agentId="${agentId}" basePath="${basePath}"\n`;
+                responseText += `manageItems action=releaseTask epicId=${resolvedEpicId} taskId=${resolvedTaskId} agentId="${agentId}" basePath="${basePath}"\n\`\`\`\n\n`;
+            }
+            
+            responseText += `To get the next item to work on:\n\`\`\`\nexecuteItem basePath="${basePath}"${agentId ? ` agentId="${agentId}"` : ''}\n\`\`\`\n\n`;
             
             if (documentFindings) {
                 responseText += `Remember to document your findings, approaches, and any issues encountered during implementation. This will be valuable for future reference.\n\n`;
+                if (itemType === "Task") {
+                    responseText += `Record them in the task's work log as you go (logType: finding, decision or note), and end your session when you stop working on it:\n\`\`\`\n`;
+                    responseText += `manageItems action=addWorkLog epicId=${resolvedEpicId} taskId=${resolvedTaskId} logType="finding" message="What you found"${agentId ? ` agentId="${agentId}"` : ''} basePath="${basePath}"\n`;
+                    responseText += `manageItems action=endSession epicId=${resolvedEpicId} taskId=${resolvedTaskId}${agentId ? ` agentId="${agentId}"` : ''} basePath="${basePath}"\n\`\`\`\n\n`;
+                }
             }
             
             if (additionalContext) {
@@ -4,8 +4,25 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 
 // Import schemas
-import { configureStorage, loadEpics, getEpics, getEpicById, getTaskById, getEpicFolder } from "../../infrastructure/storage/TaskStorageService.js";
+import { configureStorage, getEpicFolder } from "../../infrastructure/storage/TaskStorageService.js";
+import type { EpicService, EpicServiceResolver } from "../../domain/task/services/EpicService.js";
 import type { Epic, Task, Subtask, AssociatedFile, Status } from "../../domain/task/entities/Task.js";
+import { countSubtasks } from "../../domain/task/services/SubtaskTree.js";
+import { getElapsedTime, getEpicElapsedTime, formatDuration } from "../../domain/task/services/WorkLog.js";
+import { auditDependencies } from "../../domain/task/services/DependencyGraph.js";
+import type { DependencyIssue } from "../../domain/task/services/DependencyGraph.js";
+import { planExecutionOrder, DEFAULT_COMPLEXITY_WEIGHT } from "../../domain/task/services/ExecutionOrder.js";
+import type { ExecutionStep } from "../../domain/task/services/ExecutionOrder.js";
+import { getTagProgress, taskMatchesTags, epicMatchesTags } from "../../domain/task/services/Tags.js";
+import type { TagProgress } from "../../domain/task/services/Tags.js";
+import type { Milestone } from "../../domain/task/entities/Milestone.js";
+import { getActiveSprint, getMilestoneProgress, getBurndown, isInMilestone } from "../../domain/task/services/Milestones.js";
+import { toDay, daysBetween } from "../../domain/task/services/CalendarDays.js";
+import type { BurndownPoint } from "../../domain/task/services/Milestones.js";
+import { buildSchedule, getScheduleIssues, HOURS_PER_DAY, DAYS_PER_COMPLEXITY_POINT } from "../../domain/task/services/Schedule.js";
+import type { Schedule, ScheduledItem, ScheduleStatus } from "../../domain/task/services/Schedule.js";
+import { getFlowSeries, getFirstDay, getLastDay, getWeeklyThroughput, getCycleTimes } from "../../domain/task/services/FlowMetrics.js";
+import type { FlowPoint, ThroughputWeek, CycleTimeBucket } from "../../domain/task/services/FlowMetrics.js";
 
 // Define Epic ID schema
 const epicIdSchema = z.string().uuid().describe("ID of the Epic to get overview for");
@@ -13,6 +30,19 @@ const epicIdSchema = z.string().uuid().describe("ID of the Epic to get overview
 /**
  * Find tasks that depend on a given task or epic
  */
+// Helper functions to look up items among the loaded Epics
+function getEpicById(allEpics: Epic[], epicId: string): Epic | undefined {
+    return allEpics.find(e => e.id === epicId);
+}
+
+function getTaskById(allEpics: Epic[], taskId: string): { epic: Epic, task: Task } | undefined {
+    for (const epic of allEpics) {
+        const task = epic.tasks.find(t => t.id === taskId);
+        if (task) return { epic, task };
+    }
+    return undefined;
+}
+
 function findDependentItems(itemId: string, allEpics: Epic[]): { epicDependents: Epic[], taskDependents: { epic: Epic, task: Task }[] } {
     const epicDependents: Epic[] = [];
     const taskDependents: { epic: Epic, task: Task }[] = [];
@@ -47,8 +77,9 @@ function calculateEpicCompletion(epic: Epic): { completedTasks: number, totalTas
     
     for (const task of epic.tasks) {
         if (task.subtasks) {
-            totalSubtasks += task.subtasks.length;
-            completedSubtasks += task.subtasks.filter(st => st.status === 'done').length;
+            const counts = countSubtasks(task.subtasks);
+            totalSubtasks += counts.total;
+            completedSubtasks += counts.done;
         }
     }
     
@@ -72,6 +103,197 @@ function calculateEpicCompletion(epic: Epic): { completedTasks: number, totalTas
     };
 }
 
+/**
+ * Summarizes how many of a Task's Subtasks, at every level, are done
+ */
+function getSubtaskProgress(task: Task): string {
+    const counts = countSubtasks(task.subtasks ?? []);
+    return counts.total > 0 ? `(${counts.done}/${counts.total} subtasks)` : '';
+}
+
+/**
+ * Time spent in a Task's work sessions, or nothing if no session was ever started
+ */
+function getTimeLogged(task: Task): string {
+    const hasSessions = task.workLog?.some(entry => entry.type === 'sessionStart');
+    return hasSessions ? `⏱️ ${formatDuration(getElapsedTime(task))}` : '';
+}
+
+/**
+ * An item's own tags as hashtags, or nothing if it has none
+ */
+function getTagList(item: { tags?: string[] }): string {
+    return item.tags?.length ? item.tags.map(tag => `#${tag}`).join(' ') : '';
+}
+
+/**
+ * Renders Subtasks as a markdown checklist, indenting nested Subtasks under their parent
+ */
+function renderSubtaskList(subtasks: Subtask[], indent: string = '  '): string {
+    let output = '';
+    for (const subtask of subtasks) {
+        const subtaskStatus = subtask.status === 'done' ? '[x] ✅' : subtask.status === 'in-progress' ? '[ ] 🚧' : '[ ] ⬜';
+        output += `${indent}- ${subtaskStatus} ${[subtask.description, getTagList(subtask)].filter(Boolean).join(' ')}\n`;
+        output += renderSubtaskList(subtask.subtasks ?? [], indent + '  ');
+    }
+    return output;
+}
+
+/**
+ * Formats one item of an execution plan as a markdown list entry
+ */
+function formatExecutionStep(step: ExecutionStep, allEpics: Epic[], onCriticalPath: boolean): string {
+    const { node } = step;
+    const markers = [onCriticalPath ? '⭐' : '', getStatusEmoji(node.status), getPriorityEmoji(node.priority)].filter(Boolean).join(' ');
+    let line = `- ${markers} **${node.id}**: ${node.description.split('\n')[0]}`;
+    line += ` (complexity ${node.complexity ?? `${DEFAULT_COMPLEXITY_WEIGHT}, assumed`})`;
+    if (step.external) {
+        const owner = getEpicById(allEpics, node.epicId);
+        line += node.kind === 'Epic' ? ` — prerequisite Epic` : ` — in Epic "${owner?.description.split('\n')[0] ?? node.epicId}"`;
+    }
+    if (step.prerequisites.length > 0) {
+        line += ` — after ${step.prerequisites.map(id => id.substring(0, 8)).join(', ')}`;
+    }
+    return line + '\n';
+}
+
+/**
+ * Renders per-tag progress as a markdown table
+ */
+function renderTagProgress(progress: TagProgress[]): string {
+    let output = `| Tag | Progress | Tasks | Subtasks |\n|-----|----------|-------|----------|\n`;
+    for (const entry of progress) {
+        output += `| ${entry.tag} | ${getProgressBar(entry.percentage, 10)} | ${entry.doneTasks}/${entry.tasks} | ${entry.doneSubtasks}/${entry.subtasks} |\n`;
+    }
+    return output + '\n';
+}
+
+/**
+ * Renders a burndown as a Mermaid line chart and a table, the table sampled weekly for long Milestones
+ */
+function renderBurndown(points: BurndownPoint[], includeDiagram: boolean): string {
+    let output = '';
+    if (includeDiagram) {
+        const max = Math.max(...points.map(p => Math.max(p.remaining, p.ideal)), 1);
+        output += "```mermaid\nxychart-beta\n";
+        output += `    title "Burndown (complexity points remaining)"\n`;
+        output += `    x-axis [${points.map(p => `"${p.date.substring(5)}"`).join(', ')}]\n`;
+        output += `    y-axis "Points" 0 --> ${max}\n`;
+        output += `    line [${points.map(p => p.remaining).join(', ')}]\n`;
+        output += `    line [${points.map(p => p.ideal).join(', ')}]\n`;
+        output += "```\n\n";
+    }
+    const sampled = points.length > 31 ? points.filter((_, index) => index % 7 === 0 || index === points.length - 1) : points;
+    output += `| Day | Remaining | Ideal |\n|-----|-----------|-------|\n`;
+    sampled.forEach(p => { output += `| ${p.date} | ${p.remaining} | ${p.ideal} |\n`; });
+    return output + '\n';
+}
+
+const SCHEDULE_STATUS_LABELS: Record<ScheduleStatus, string> = {
+    done: '✅ done',
+    overdue: '⏰ overdue',
+    'at-risk': '⚠️ at risk',
+    'on-track': '🟢 on track',
+    unscheduled: '➖ no due date'
+};
+
+/**
+ * Due date of an unfinished item, flagged when it is overdue or projected to finish late
+ */
+function getScheduleNote(item: ScheduledItem | undefined): string {
+    if (!item?.dueDate || item.status === 'done') return '';
+    if (item.status === 'overdue') return `⏰ overdue since ${item.dueDate}`;
+    if (item.status === 'at-risk') return `⚠️ due ${item.dueDate}, projected ${item.finish}`;
+    return `📅 due ${item.dueDate}`;
+}
+
+/**
+ * Renders overdue and at-risk items as a markdown table
+ */
+function renderScheduleIssues(issues: ScheduledItem[], showEpic: boolean): string {
+    const today = toDay(new Date());
+    let output = `| Item | Due | Projected Finish | Status |\n|------|-----|------------------|--------|\n`;
+    for (const item of issues) {
+        const title = (item.task ?? item.epic).description.split('\n')[0];
+        const owner = showEpic && item.task ? ` (in "${item.epic.description.split('\n')[0]}")` : '';
+        const lateness = item.status === 'overdue'
+            ? `⏰ ${daysBetween(item.dueDate!, today)} day(s) overdue`
+            : `⚠️ ${-item.slackDays!} day(s) late`;
+        output += `| ${item.kind} ${item.id.substring(0, 8)}: ${title}${owner} | ${item.dueDate} | ${item.finish} | ${lateness} |\n`;
+    }
+    return output + '\n';
+}
+
+/**
+ * Renders projected dates of Epics or Tasks as a markdown table
+ */
+function renderScheduleTable(items: ScheduledItem[]): string {
+    let output = `| Item | Start | Projected Finish | Due | Status |\n|------|-------|------------------|-----|--------|\n`;
+    for (const item of items) {
+        const title = (item.task ?? item.epic).description.split('\n')[0];
+        output += `| ${item.id.substring(0, 8)}: ${title} | ${item.start} | ${item.finish} | ${item.dueDate ?? '—'} | ${SCHEDULE_STATUS_LABELS[item.status]} |\n`;
+    }
+    return output + '\n';
+}
+
+// Mermaid line or bar chart over labelled points
+function renderXyChart(title: string, labels: string[], yAxis: string, series: { type: 'line' | 'bar'; values: number[] }[]): string {
+    const max = Math.max(...series.flatMap(s => s.values), 1);
+    let output = "```mermaid\nxychart-beta\n";
+    output += `    title "${title}"\n`;
+    output += `    x-axis [${labels.map(label => `"${label}"`).join(', ')}]\n`;
+    output += `    y-axis "${yAxis}" 0 --> ${max}\n`;
+    series.forEach(s => { output += `    ${s.type} [${s.values.join(', ')}]\n`; });
+    return output + "```\n\n";
+}
+
+/**
+ * Renders burnup, burndown, throughput and cycle time charts and tables; daily series are sampled weekly when longer than a month
+ */
+function renderFlowAnalytics(series: FlowPoint[], throughput: ThroughputWeek[], cycleTimes: CycleTimeBucket[], includeDiagrams: boolean): string {
+    const sampled = series.length > 31 ? series.filter((_, index) => index % 7 === 0 || index === series.length - 1) : series;
+    const days = sampled.map(p => p.date.substring(5));
+    let output = '';
+    if (sampled.length > 0) {
+        output += `## 📈 Burnup and Burndown\n\n`;
+        if (includeDiagrams) {
+            output += renderXyChart('Burnup (scope and done points)', days, 'Points', [
+                { type: 'line', values: sampled.map(p => p.scope) },
+                { type: 'line', values: sampled.map(p => p.done) }
+            ]);
+            output += renderXyChart('Burndown (points remaining)', days, 'Points', [{ type: 'line', values: sampled.map(p => p.remaining) }]);
+        }
+        output += `| Day | Scope | Done | Remaining | Tasks Done |\n|-----|-------|------|-----------|------------|\n`;
+        sampled.forEach(p => { output += `| ${p.date} | ${p.scope} | ${p.done} | ${p.remaining} | ${p.doneTasks}/${p.totalTasks} |\n`; });
+        output += '\n';
+    }
+
+    output += `## 🚚 Throughput per Week\n\n`;
+    if (includeDiagrams) {
+        output += renderXyChart('Tasks completed per week', throughput.map(w => w.weekStart.substring(5)), 'Tasks', [{ type: 'bar', values: throughput.map(w => w.tasks) }]);
+    }
+    output += `| Week of | Tasks | Points |\n|---------|-------|--------|\n`;
+    throughput.forEach(w => { output += `| ${w.weekStart} | ${w.tasks} | ${w.points} |\n`; });
+    const average = throughput.reduce((sum, w) => sum + w.tasks, 0) / Math.max(throughput.length, 1);
+    output += `\nAverage: ${Math.round(average * 10) / 10} task(s) per week\n`;
+
+    output += `\n## ⏱️ Cycle Time by Complexity\n\n`;
+    output += `From the first move to in-progress (or creation) to done.\n\n`;
+    if (includeDiagrams && cycleTimes.some(bucket => bucket.tasks > 0)) {
+        output += renderXyChart('Average cycle time (days)', cycleTimes.map(b => b.bucket), 'Days', [{ type: 'bar', values: cycleTimes.map(b => b.averageDays ?? 0) }]);
+    }
+    output += `| Complexity | Done Tasks | Average Days |\n|------------|------------|--------------|\n`;
+    cycleTimes.forEach(b => { output += `| ${b.bucket} | ${b.tasks} | ${b.averageDays ?? '—'} |\n`; });
+    return output + '\n';
+}
+
+/**
+ * IDs of the Epics and Tasks involved in a dependency issue
+ */
+function getDependencyIssueItems(issue: DependencyIssue): string[] {
+    return issue.type === 'cycle' ? issue.path : [issue.itemId];
+}
+
 /**
  * Get a progress bar string based on percentage
  */
@@ -122,7 +344,13 @@ function getPriorityEmoji(priority?: string): string {
 const getOverviewModeSchema = z.enum([
     'fullOverview', 
     'suggestNext', 
-    'verify'
+    'verify',
+    'auditDependencies',
+    'executionOrder',
+    'tagProgress',
+    'milestoneProgress',
+    'schedule',
+    'analytics'
 ]);
 
 // Define supported diagram types as a string enum
@@ -149,26 +377,290 @@ function getAllDiagramTypes(): DiagramTypeValues[] {
 // Define the schema for the epic overview tool
 const getEpicOverviewSchema = z.object({
     mode: getOverviewModeSchema.default('fullOverview').describe("Information mode (required)"),
-    epicId: epicIdSchema.optional().describe("Epic ID (required for 'fullOverview', 'verify')"),
+    epicId: epicIdSchema.optional().describe("Epic ID (required for 'fullOverview', 'verify', 'executionOrder'; limits 'auditDependencies', 'tagProgress', 'schedule' and 'analytics' to one Epic)"),
     verbosity: z.enum(['summary', 'detailed', 'full']).optional().default('detailed').describe("Level of detail for 'fullOverview'"),
     includeDiagrams: z.boolean().optional().default(true).describe("Include Mermaid diagrams (for 'fullOverview')"),
     diagramTypes: z.array(z.string()).optional().describe("Specific diagram types to include (if empty and includeDiagrams=true, includes all)"),
+    tagFilter: z.array(z.string()).optional().describe("Only suggest Tasks and Epics carrying all of these tags (for 'suggestNext'), or only report these tags (for 'tagProgress')"),
+    milestoneId: z.string().optional().describe("Milestone or Sprint ID, or 'active' for the Sprint running today (for 'milestoneProgress', default: active; restricts 'suggestNext' and 'analytics' to its Tasks)"),
+    weeks: z.number().int().positive().max(52).optional().default(8).describe("Weeks of throughput to report (for 'analytics', default: 8)"),
     basePath: z.string().describe("FULL directory path for storage (required, e.g., '/path/to/storage')")
 });
 
 // Infer the parameter type from the schema
 type GetEpicOverviewParams = z.infer<typeof getEpicOverviewSchema>;
 
-export function registerGetEpicOverviewTool(server: McpServer): void {
+/**
+ * Renders the fullOverview markdown of an Epic, as saved to its overview.md
+ */
+export function renderEpicOverview(
+    epic: Epic,
+    allEpics: Epic[],
+    trashedIds: Set<string>,
+    options: { verbosity?: 'summary' | 'detailed' | 'full'; includeDiagrams?: boolean; diagramTypes?: string[] } = {}
+): string {
+    const { verbosity = 'detailed', includeDiagrams = true, diagramTypes = [] } = options;
+    const schedule = buildSchedule(allEpics);
+    const completion = calculateEpicCompletion(epic);
+    
+    // Begin building the overview
+    let output = `# 📊 Epic Overview: ${epic.description.split('\n')[0]}\n\n`;
+    
+    // Add timestamp of when this overview was generated
+    output += `> Generated on: ${new Date().toLocaleString()}\n\n`;
+    
+    // Status and progress section
+    output += `## Status and Progress\n\n`;
+    output += `**Status**: ${getStatusEmoji(epic.status)} ${epic.status}\n\n`;
+    
+    if (epic.priority) {
+        output += `**Priority**: ${getPriorityEmoji(epic.priority)} ${epic.priority}\n\n`;
+    }
+    
+    if (epic.complexity) {
+        output += `**Complexity**: ${epic.complexity}/10\n\n`;
+    }
+    
+    output += `**Progress**: ${getProgressBar(completion.percentage)}\n\n`;
+    output += `**Tasks**: ${completion.completedTasks}/${completion.totalTasks} completed\n\n`;
+    output += `**Subtasks**: ${completion.completedSubtasks}/${completion.totalSubtasks} completed\n\n`;
+    if (epic.tasks.some(task => task.workLog?.length)) {
+        output += `**Time Logged**: ⏱️ ${formatDuration(getEpicElapsedTime(epic))}\n\n`;
+    }
+    output += `**ID**: \`${epic.id}\`\n\n`;
+    output += `**Created**: ${new Date(epic.createdAt).toLocaleString()}\n\n`;
+    output += `**Updated**: ${new Date(epic.updatedAt).toLocaleString()}\n\n`;
+    const scheduled = schedule.get(epic.id)!;
+    if (epic.startDate) {
+        output += `**Start**: ${toDay(epic.startDate)}\n\n`;
+    }
+    if (epic.dueDate) {
+        output += `**Due**: ${toDay(epic.dueDate)}\n\n`;
+    }
+    if (scheduled.status !== 'done') {
+        output += `**Projected**: ${scheduled.start} to ${scheduled.finish} (${SCHEDULE_STATUS_LABELS[scheduled.status]})\n\n`;
+    }
+    if (epic.tags?.length) {
+        output += `**Tags**: ${getTagList(epic)}\n\n`;
+    }
+    
+    // Progress of each area the Epic's work is tagged with
+    const tagProgress = getTagProgress([epic]);
+    if (verbosity !== "summary" && tagProgress.length > 0) {
+        output += `## 🏷️ Progress by Tag\n\n${renderTagProgress(tagProgress)}`;
+    }
+    
+    // Work that is overdue or projected to miss its due date
+    const scheduleIssues = getScheduleIssues(schedule, epic.id);
+    if (scheduleIssues.length > 0) {
+        output += `## ⏰ Schedule\n\n${renderScheduleIssues(scheduleIssues, false)}`;
+    }
+    
+    // Description section
+    if (verbosity !== "summary") {
+        output += `## Description\n\n${epic.description}\n\n`;
+    }
+    
+    // Implementation plan if available
+    if ((verbosity === "full" || verbosity === "detailed") && epic.implementationPlan) {
+        output += `## Implementation Plan\n\n${epic.implementationPlan}\n\n`;
+    }
+    
+    // Test strategy if available
+    if ((verbosity === "full" || verbosity === "detailed") && epic.testStrategy) {
+        output += `## Test Strategy\n\n${epic.testStrategy}\n\n`;
+    }
+    
+    // Tasks section
+    output += `## Tasks (${completion.completedTasks}/${completion.totalTasks})\n\n`;
+    
+    if (epic.tasks.length === 0) {
+        output += "*No tasks defined yet*\n\n";
+    } else {
+        // Group tasks by status for better organization
+        const inProgressTasks = epic.tasks.filter(t => t.status === 'in-progress');
+        const todoTasks = epic.tasks.filter(t => t.status === 'todo');
+        const doneTasks = epic.tasks.filter(t => t.status === 'done');
+        
+        // In-progress tasks first
+        if (inProgressTasks.length > 0) {
+            output += `### In Progress Tasks\n\n`;
+            inProgressTasks.forEach(task => {
+                const subtaskProgress = getSubtaskProgress(task);
+                
+                // Use markdown list format for main tasks
+                output += `- ${getTaskStatusDisplay(task.status)} **${task.id}**: ${[task.description.split('\n')[0], subtaskProgress, getTimeLogged(task), getTagList(task), getScheduleNote(schedule.get(task.id))].filter(Boolean).join(' ')}\n`;
+                
+                // Add subtasks for detailed/full verbosity
+                if ((verbosity === 'detailed' || verbosity === 'full') && task.subtasks?.length > 0) {
+                    // Indent subtasks with proper markdown list formatting
+                    output += renderSubtaskList(task.subtasks);
+                    // Subtasks already have newline, add one more for spacing
+                    output += '\n'; 
+                } else {
+                    // Add extra blank line after task if no subtasks
+                    output += '\n'; 
+                }
+            });
+        }
+        
+        // Todo tasks next
+        if (todoTasks.length > 0) {
+            output += `### To Do Tasks\n\n`;
+            todoTasks.forEach(task => {
+                const subtaskProgress = getSubtaskProgress(task);
+                
+                // Use markdown list format for main tasks
+                output += `- ${getTaskStatusDisplay(task.status)} **${task.id}**: ${[task.description.split('\n')[0], subtaskProgress, getTimeLogged(task), getTagList(task), getScheduleNote(schedule.get(task.id))].filter(Boolean).join(' ')}\n`;
+                
+                // Add subtasks for detailed/full verbosity
+                if ((verbosity === 'detailed' || verbosity === 'full') && task.subtasks?.length > 0) {
+                    // Indent subtasks with proper markdown list formatting
+                    output += renderSubtaskList(task.subtasks);
+                    // Subtasks already have newline, add one more for spacing
+                    output += '\n';
+                } else {
+                    // Add extra blank line after task if no subtasks
+                    output += '\n';
+                }
+            });
+        }
+        
+        // Done tasks last
+        if (doneTasks.length > 0) {
+            output += `### Completed Tasks\n\n`;
+            doneTasks.forEach(task => {
+                // Use markdown list format for main tasks
+                output += `- ${getTaskStatusDisplay(task.status)} **${task.id}**: ${[task.description.split('\n')[0], getTimeLogged(task), getTagList(task)].filter(Boolean).join(' ')}\n`;
+                
+                // For completed tasks, only show subtasks in full verbosity
+                if (verbosity === 'full' && task.subtasks?.length > 0) {
+                    // Indent subtasks with proper markdown list formatting
+                    output += renderSubtaskList(task.subtasks);
+                    // Subtasks already have newline, add one more for spacing
+                    output += '\n';
+                } else {
+                    // Add extra blank line after task if no subtasks
+                    output += '\n';
+                }
+            });
+        }
+    }
+    
+    // Dependencies section if any
+    if (epic.dependencies && epic.dependencies.length > 0) {
+        output += `## Dependencies (Depends On)\n\n`;
+        
+        for (const depId of epic.dependencies) {
+            const depEpic = getEpicById(allEpics, depId);
+            if (depEpic) {
+                const checkmark = depEpic.status === 'done' ? '✅' : depEpic.status === 'in-progress' ? '🚧' : '⬜';
+                output += `- ${checkmark} EPIC **${depId}**: ${depEpic.description.split('\n')[0]}\n`;
+            } else if (trashedIds.has(depId)) {
+                output += `- 🗑️ TRASHED **${depId}** (restore it with manageItems action=restore or remove the dependency)\n`;
+            } else {
+                output += `- ❓ UNKNOWN **${depId}**\n`;
+            }
+        }
+        output += '\n';
+    }
+    
+    // Dependents section (epics and tasks that depend on this epic)
+    const { epicDependents, taskDependents } = findDependentItems(epic.id, allEpics);
+    
+    if (epicDependents.length > 0 || taskDependents.length > 0) {
+        output += `## Dependents (Required By)\n\n`;
+        
+        epicDependents.forEach(depEpic => {
+            const checkmark = depEpic.status === 'done' ? '✅' : depEpic.status === 'in-progress' ? '🚧' : '⬜';
+            output += `- ${checkmark} EPIC **${depEpic.id}**: ${depEpic.description.split('\n')[0]}\n`;
+        });
+        
+        taskDependents.forEach(({ epic: parentEpic, task }) => {
+            const checkmark = task.status === 'done' ? '✅' : task.status === 'in-progress' ? '🚧' : '⬜';
+            output += `- ${checkmark} TASK **${task.id}**: ${task.description.split('\n')[0]} (in Epic: ${parentEpic.id})\n`;
+        });
+        
+        output += '\n';
+    }
+    
+    // Files section if any
+    if (verbosity !== 'summary' && epic.files && epic.files.length > 0) {
+        output += `## Associated Files\n\n`;
+        
+        epic.files.forEach(file => {
+            output += `- 📄 \`${file.filePath}\`${file.description ? `: ${file.description}` : ''}\n`;
+        });
+        output += '\n';
+    }
+    
+    // Add diagrams if requested
+    if (includeDiagrams) {
+        output += `## Visualizations\n\n`;
+        
+        // Determine which diagrams to include
+        const diagramsToInclude: DiagramTypeValues[] = diagramTypes.length > 0
+            ? diagramTypes.filter(d => Object.values(DiagramType).includes(d as DiagramTypeValues)) as DiagramTypeValues[]
+            : getAllDiagramTypes();
+        
+        // Add each requested diagram
+        if (diagramsToInclude.includes(DiagramType.PROGRESS_PIE)) {
+            output += generateProgressPieDiagram(epic, completion);
+        }
+        
+        if (diagramsToInclude.includes(DiagramType.DEPENDENCY_GRAPH)) {
+            output += generateDependencyGraphDiagram(epic, allEpics);
+        }
+        
+        if (diagramsToInclude.includes(DiagramType.TASK_FLOW) && verbosity === 'full') {
+            output += generateTaskFlowDiagram(epic);
+        }
+        
+        if (diagramsToInclude.includes(DiagramType.TIMELINE) && verbosity === 'full') {
+            output += generateTimelineDiagram(epic, schedule);
+        }
+        
+        if (diagramsToInclude.includes(DiagramType.USER_JOURNEY)) {
+            output += generateUserJourneyDiagram(epic);
+        }
+        
+        if (diagramsToInclude.includes(DiagramType.BLOCK_DIAGRAM)) {
+            output += generateBlockDiagram(epic);
+        }
+        
+        if (diagramsToInclude.includes(DiagramType.RADAR_CHART)) {
+            output += generateRadarChart(epic);
+        }
+        
+        if (diagramsToInclude.includes(DiagramType.KANBAN_BOARD)) {
+            output += generateKanbanBoard(epic);
+        }
+        
+        if (diagramsToInclude.includes(DiagramType.SEQUENCE_DIAGRAM)) {
+            output += generateSequenceDiagram(epic);
+        }
+        
+        if (diagramsToInclude.includes(DiagramType.CLASS_DIAGRAM)) {
+            output += generateClassDiagram(epic);
+        }
+    }
+    
+    return output;
+}
+
+export function registerGetEpicOverviewTool(server: McpServer, resolveEpicService: EpicServiceResolver): void {
     server.tool(
         "getEpicOverview",
         "Provides a detailed, easy-to-read overview of an Epic, its tasks, and related information.",
         {
             mode: getOverviewModeSchema.default('fullOverview').describe("Information mode (required)"),
-            epicId: epicIdSchema.optional().describe("Epic ID (required for 'fullOverview', 'verify')"),
+            epicId: epicIdSchema.optional().describe("Epic ID (required for 'fullOverview', 'verify', 'executionOrder'; limits 'auditDependencies', 'tagProgress', 'schedule' and 'analytics' to one Epic)"),
             verbosity: z.enum(['summary', 'detailed', 'full']).optional().default('detailed').describe("Level of detail for 'fullOverview'"),
             includeDiagrams: z.boolean().optional().default(true).describe("Include Mermaid diagrams (for 'fullOverview')"),
             diagramTypes: z.array(z.string()).optional().describe("Specific diagram types to include (if empty and includeDiagrams=true, includes all)"),
+            tagFilter: z.array(z.string()).optional().describe("Only suggest Tasks and Epics carrying all of these tags (for 'suggestNext'), or only report these tags (for 'tagProgress')"),
+            milestoneId: z.string().optional().describe("Milestone or Sprint ID, or 'active' for the Sprint running today (for 'milestoneProgress', default: active; restricts 'suggestNext' and 'analytics' to its Tasks)"),
+            weeks: z.number().int().positive().max(52).optional().default(8).describe("Weeks of throughput to report (for 'analytics', default: 8)"),
             basePath: z.string().describe("FULL directory path for storage (required, e.g., '/path/to/storage')")
         },
         async (params: GetEpicOverviewParams) => {
@@ -178,6 +670,9 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                 verbosity = 'detailed', 
                 includeDiagrams = true, 
                 diagramTypes = [],
+                tagFilter = [],
+                milestoneId,
+                weeks = 8,
                 basePath 
             } = params;
 
@@ -185,13 +680,33 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                 return { content: [{ type: "text", text: "Error: 'basePath' parameter is required." }], isError: true };
             }
 
-            // Configure storage and load data
+            // Load data
+            let service: EpicService;
+            let allEpics: Epic[];
+            let trashedIds: Set<string>;
+            let milestones: Milestone[];
             try {
-                configureStorage(basePath);
-                await loadEpics();
+                service = await resolveEpicService(basePath);
+                await service.load();
+                allEpics = await service.getAllEpics();
+                trashedIds = await service.getTrashedItemIds();
+                milestones = await service.getMilestones();
             } catch (error: any) {
                 return { content: [{ type: "text", text: `Error accessing storage: ${error.message}` }], isError: true };
             }
+            
+            // 'active' stands for the Sprint running today
+            const milestone = milestoneId === 'active' || (!milestoneId && mode === 'milestoneProgress')
+                ? getActiveSprint(milestones)
+                : milestones.find(m => m.id === milestoneId);
+            if ((milestoneId || mode === 'milestoneProgress') && !milestone) {
+                const message = milestoneId && milestoneId !== 'active'
+                    ? `Milestone with ID ${milestoneId} not found`
+                    : `No Sprint is active today. Pass a milestoneId, or list Milestones with manageMilestones action=list.`;
+                return { content: [{ type: "text", text: message }], isError: true };
+            }
+
+            const schedule = buildSchedule(allEpics);
 
             try {
                 switch (mode) {
@@ -200,243 +715,18 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                             return { content: [{ type: "text", text: "epicId is required for fullOverview mode" }], isError: true };
                         }
 
-                        const epic = getEpicById(epicId);
+                        const epic = getEpicById(allEpics, epicId);
                         if (!epic) {
                             return { content: [{ type: "text", text: `Epic with ID ${epicId} not found` }], isError: true };
                         }
 
-                        // Get all epics for dependency checks
-                        const allEpics = getEpics();
-                        const completion = calculateEpicCompletion(epic);
-                        
-                        // Begin building the overview
-                        let output = `# 📊 Epic Overview: ${epic.description.split('\n')[0]}\n\n`;
-                        
-                        // Add timestamp of when this overview was generated
-                        output += `> Generated on: ${new Date().toLocaleString()}\n\n`;
-                        
-                        // Status and progress section
-                        output += `## Status and Progress\n\n`;
-                        output += `**Status**: ${getStatusEmoji(epic.status)} ${epic.status}\n\n`;
-                        
-                        if (epic.priority) {
-                            output += `**Priority**: ${getPriorityEmoji(epic.priority)} ${epic.priority}\n\n`;
-                        }
-                        
-                        if (epic.complexity) {
-                            output += `**Complexity**: ${epic.complexity}/10\n\n`;
-                        }
-                        
-                        output += `**Progress**: ${getProgressBar(completion.percentage)}\n\n`;
-                        output += `**Tasks**: ${completion.completedTasks}/${completion.totalTasks} completed\n\n`;
-                        output += `**Subtasks**: ${completion.completedSubtasks}/${completion.totalSubtasks} completed\n\n`;
-                        output += `**ID**: \`${epic.id}\`\n\n`;
-                        output += `**Created**: ${new Date(epic.createdAt).toLocaleString()}\n\n`;
-                        output += `**Updated**: ${new Date(epic.updatedAt).toLocaleString()}\n\n`;
-                        
-                        // Description section
-                        if (verbosity !== "summary") {
-                            output += `## Description\n\n${epic.description}\n\n`;
-                        }
-                        
-                        // Implementation plan if available
-                        if ((verbosity === "full" || verbosity === "detailed") && epic.implementationPlan) {
-                            output += `## Implementation Plan\n\n${epic.implementationPlan}\n\n`;
-                        }
-                        
-                        // Test strategy if available
-                        if ((verbosity === "full" || verbosity === "detailed") && epic.testStrategy) {
-                            output += `## Test Strategy\n\n${epic.testStrategy}\n\n`;
-                        }
-                        
-                        // Tasks section
-                        output += `## Tasks (${completion.completedTasks}/${completion.totalTasks})\n\n`;
-                        
-                        if (epic.tasks.length === 0) {
-                            output += "*No tasks defined yet*\n\n";
-                        } else {
-                            // Group tasks by status for better organization
-                            const inProgressTasks = epic.tasks.filter(t => t.status === 'in-progress');
-                            const todoTasks = epic.tasks.filter(t => t.status === 'todo');
-                            const doneTasks = epic.tasks.filter(t => t.status === 'done');
-                            
-                            // In-progress tasks first
-                            if (inProgressTasks.length > 0) {
-                                output += `### In Progress Tasks\n\n`;
-                                inProgressTasks.forEach(task => {
-                                    const subtaskProgress = task.subtasks?.length > 0 
-                                        ? `(${task.subtasks.filter(s => s.status === 'done').length}/${task.subtasks.length} subtasks)` 
-                                        : '';
-                                    
-                                    // Use markdown list format for main tasks
-                                    output += `- ${getTaskStatusDisplay(task.status)} **${task.id}**: ${task.description.split('\n')[0]} ${subtaskProgress}\n`;
-                                    
-                                    // Add subtasks for detailed/full verbosity
-                                    if ((verbosity === 'detailed' || verbosity === 'full') && task.subtasks?.length > 0) {
-                                        task.subtasks.forEach(subtask => {
-                                            const subtaskStatus = subtask.status === 'done' ? '[x] ✅' : '[ ] ⬜';
-                                            // Indent subtasks with proper markdown list formatting
-                                            output += `  - ${subtaskStatus} ${subtask.description}\n`;
-                                        });
-                                        // Subtasks already have newline, add one more for spacing
-                                        output += '\n'; 
-                                    } else {
-                                        // Add extra blank line after task if no subtasks
-                                        output += '\n'; 
-                                    }
-                                });
-                            }
-                            
-                            // Todo tasks next
-                            if (todoTasks.length > 0) {
-                                output += `### To Do Tasks\n\n`;
-                                todoTasks.forEach(task => {
-                                    const subtaskProgress = task.subtasks?.length > 0 
-                                        ? `(${task.subtasks.filter(s => s.status === 'done').length}/${task.subtasks.length} subtasks)` 
-                                        : '';
-                                    
-                                    // Use markdown list format for main tasks
-                                    output += `- ${getTaskStatusDisplay(task.status)} **${task.id}**: ${task.description.split('\n')[0]} ${subtaskProgress}\n`;
-                                    
-                                    // Add subtasks for detailed/full verbosity
-                                    if ((verbosity === 'detailed' || verbosity === 'full') && task.subtasks?.length > 0) {
-                                        task.subtasks.forEach(subtask => {
-                                            const subtaskStatus = subtask.status === 'done' ? '[x] ✅' : '[ ] ⬜';
-                                            // Indent subtasks with proper markdown list formatting
-                                            output += `  - ${subtaskStatus} ${subtask.description}\n`;
-                                        });
-                                        // Subtasks already have newline, add one more for spacing
-                                        output += '\n';
-                                    } else {
-                                        // Add extra blank line after task if no subtasks
-                                        output += '\n';
-                                    }
-                                });
-                            }
-                            
-                            // Done tasks last
-                            if (doneTasks.length > 0) {
-                                output += `### Completed Tasks\n\n`;
-                                doneTasks.forEach(task => {
-                                    // Use markdown list format for main tasks
-                                    output += `- ${getTaskStatusDisplay(task.status)} **${task.id}**: ${task.description.split('\n')[0]}\n`;
-                                    
-                                    // For completed tasks, only show subtasks in full verbosity
-                                    if (verbosity === 'full' && task.subtasks?.length > 0) {
-                                        task.subtasks.forEach(subtask => {
-                                            const subtaskStatus = subtask.status === 'done' ? '[x] ✅' : '[ ] ⬜';
-                                            // Indent subtasks with proper markdown list formatting
-                                            output += `  - ${subtaskStatus} ${subtask.description}\n`;
-                                        });
-                                        // Subtasks already have newline, add one more for spacing
-                                        output += '\n';
-                                    } else {
-                                        // Add extra blank line after task if no subtasks
-                                        output += '\n';
-                                    }
-                                });
-                            }
-                        }
-                        
-                        // Dependencies section if any
-                        if (epic.dependencies && epic.dependencies.length > 0) {
-                            output += `## Dependencies (Depends On)\n\n`;
-                            
-                            for (const depId of epic.dependencies) {
-                                const depEpic = getEpicById(depId);
-                                if (depEpic) {
-                                    const checkmark = depEpic.status === 'done' ? '✅' : depEpic.status === 'in-progress' ? '🚧' : '⬜';
-                                    output += `- ${checkmark} EPIC **${depId}**: ${depEpic.description.split('\n')[0]}\n`;
-                                } else {
-                                    output += `- ❓ UNKNOWN **${depId}**\n`;
-                                }
-                            }
-                            output += '\n';
-                        }
-                        
-                        // Dependents section (epics and tasks that depend on this epic)
-                        const { epicDependents, taskDependents } = findDependentItems(epic.id, allEpics);
-                        
-                        if (epicDependents.length > 0 || taskDependents.length > 0) {
-                            output += `## Dependents (Required By)\n\n`;
-                            
-                            epicDependents.forEach(depEpic => {
-                                const checkmark = depEpic.status === 'done' ? '✅' : depEpic.status === 'in-progress' ? '🚧' : '⬜';
-                                output += `- ${checkmark} EPIC **${depEpic.id}**: ${depEpic.description.split('\n')[0]}\n`;
-                            });
-                            
-                            taskDependents.forEach(({ epic: parentEpic, task }) => {
-                                const checkmark = task.status === 'done' ? '✅' : task.status === 'in-progress' ? '🚧' : '⬜';
-                                output += `- ${checkmark} TASK **${task.id}**: ${task.description.split('\n')[0]} (in Epic: ${parentEpic.id})\n`;
-                            });
-                            
-                            output += '\n';
-                        }
-                        
-                        // Files section if any
-                        if (verbosity !== 'summary' && epic.files && epic.files.length > 0) {
-                            output += `## Associated Files\n\n`;
-                            
-                            epic.files.forEach(file => {
-                                output += `- 📄 \`${file.filePath}\`${file.description ? `: ${file.description}` : ''}\n`;
-                            });
-                            output += '\n';
-                        }
-                        
-                        // Add diagrams if requested
-                        if (includeDiagrams) {
-                            output += `## Visualizations\n\n`;
-                            
-                            // Determine which diagrams to include
-                            const diagramsToInclude: DiagramTypeValues[] = diagramTypes.length > 0
-                                ? diagramTypes.filter(d => Object.values(DiagramType).includes(d as DiagramTypeValues)) as DiagramTypeValues[]
-                                : getAllDiagramTypes();
-                            
-                            // Add each requested diagram
-                            if (diagramsToInclude.includes(DiagramType.PROGRESS_PIE)) {
-                                output += generateProgressPieDiagram(epic, completion);
-                            }
-                            
-                            if (diagramsToInclude.includes(DiagramType.DEPENDENCY_GRAPH)) {
-                                output += generateDependencyGraphDiagram(epic, allEpics);
-                            }
-                            
-                            if (diagramsToInclude.includes(DiagramType.TASK_FLOW) && verbosity === 'full') {
-                                output += generateTaskFlowDiagram(epic);
-                            }
-                            
-                            if (diagramsToInclude.includes(DiagramType.TIMELINE) && verbosity === 'full') {
-                                output += generateTimelineDiagram(epic);
-                            }
-                            
-                            if (diagramsToInclude.includes(DiagramType.USER_JOURNEY)) {
-                                output += generateUserJourneyDiagram(epic);
-                            }
-                            
-                            if (diagramsToInclude.includes(DiagramType.BLOCK_DIAGRAM)) {
-                                output += generateBlockDiagram(epic);
-                            }
-                            
-                            if (diagramsToInclude.includes(DiagramType.RADAR_CHART)) {
-                                output += generateRadarChart(epic);
-                            }
-                            
-                            if (diagramsToInclude.includes(DiagramType.KANBAN_BOARD)) {
-                                output += generateKanbanBoard(epic);
-                            }
-                            
-                            if (diagramsToInclude.includes(DiagramType.SEQUENCE_DIAGRAM)) {
-                                output += generateSequenceDiagram(epic);
-                            }
-                            
-                            if (diagramsToInclude.includes(DiagramType.CLASS_DIAGRAM)) {
-                                output += generateClassDiagram(epic);
-                            }
-                        }
+                        const output = renderEpicOverview(epic, allEpics, trashedIds, { verbosity, includeDiagrams, diagramTypes });
                         
                         // Write the overview to a markdown file in the epic's directory
                         try {
+                            configureStorage(basePath);
                             const epicDir = getEpicFolder(epicId);
+                            await fs.mkdir(epicDir, { recursive: true });
                             const overviewPath = path.join(epicDir, 'overview.md');
                             await fs.writeFile(overviewPath, output, 'utf-8');
                             
@@ -459,12 +749,17 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                     }
                     
                     case 'suggestNext': {
-                        const allEpics = getEpics();
                         let suggestion = "# 🎯 Next Steps Suggestion\n\n";
+                        if (tagFilter.length > 0) {
+                            suggestion += `_Only suggesting work tagged ${tagFilter.map(tag => `#${tag}`).join(' ')}._\n\n`;
+                        }
+                        if (milestone) {
+                            suggestion += `_Only suggesting work in ${milestone.kind === 'sprint' ? 'Sprint' : 'Milestone'} "${milestone.name}" (${milestone.startDate} to ${milestone.endDate})._\n\n`;
+                        }
                         
                         if (epicId) {
                             // Suggest next task for a specific epic
-                            const epic = getEpicById(epicId);
+                            const epic = getEpicById(allEpics, epicId);
                             if (!epic) {
                                 return { content: [{ type: "text", text: `Epic with ID ${epicId} not found` }], isError: true };
                             }
@@ -480,7 +775,7 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                             // Check for epic blockers
                             if (epic.dependencies && epic.dependencies.length > 0) {
                                 const blockers = epic.dependencies
-                                    .map(depId => getEpicById(depId))
+                                    .map(depId => getEpicById(allEpics, depId))
                                     .filter(dep => dep && dep.status !== 'done')
                                     .map(dep => `${dep?.id}: ${dep?.description.split('\n')[0]}`);
                                 
@@ -493,28 +788,36 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                                 }
                             }
                             
+                            // Tasks outside the requested tags or Milestone are left out of every suggestion
+                            const candidateTasks = epic.tasks.filter(t =>
+                                (tagFilter.length === 0 || taskMatchesTags(epic, t, tagFilter)) &&
+                                (!milestone || isInMilestone(milestone, epic.id, t.id)));
+                            if (tagFilter.length > 0 && candidateTasks.length === 0) {
+                                suggestion += "🏷️ **No Tasks in this Epic carry those tags.**\n\n";
+                            } else if (milestone && candidateTasks.length === 0) {
+                                suggestion += `🚩 **No Tasks in this Epic belong to "${milestone.name}".**\n\n`;
+                            }
+                            
                             // Find in-progress tasks
-                            const inProgressTasks = epic.tasks.filter(t => t.status === 'in-progress');
+                            const inProgressTasks = candidateTasks.filter(t => t.status === 'in-progress');
                             if (inProgressTasks.length > 0) {
                                 suggestion += "🚧 **Continue working on these in-progress tasks:**\n\n";
                                 inProgressTasks.forEach(task => {
-                                    const subtaskProgress = task.subtasks?.length > 0 
-                                        ? `(${task.subtasks.filter(s => s.status === 'done').length}/${task.subtasks.length} subtasks)` 
-                                        : '';
+                                    const subtaskProgress = getSubtaskProgress(task);
                                     suggestion += `- ${task.id}: ${task.description.split('\n')[0]} ${subtaskProgress}\n`;
                                 });
                                 suggestion += "\n";
                             }
                             
                             // Find unblocked todo tasks
-                            const todoTasks = epic.tasks.filter(t => t.status === 'todo');
+                            const todoTasks = candidateTasks.filter(t => t.status === 'todo');
                             if (todoTasks.length > 0) {
                                 const unblocked = todoTasks.filter(task => {
                                     if (!task.dependencies || task.dependencies.length === 0) return true;
                                     
                                     return task.dependencies.every(depId => {
-                                        const depTask = getTaskById(depId);
-                                        const depEpic = getEpicById(depId);
+                                        const depTask = getTaskById(allEpics, depId);
+                                        const depEpic = getEpicById(allEpics, depId);
                                         return depTask?.task.status === 'done' || depEpic?.status === 'done';
                                     });
                                 });
@@ -530,8 +833,8 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                                 // Find blocked tasks
                                 const blocked = todoTasks.filter(task => 
                                     task.dependencies && task.dependencies.some(depId => {
-                                        const depTask = getTaskById(depId);
-                                        const depEpic = getEpicById(depId);
+                                        const depTask = getTaskById(allEpics, depId);
+                                        const depEpic = getEpicById(allEpics, depId);
                                         return (!depTask || depTask.task.status !== 'done') && 
                                                (!depEpic || depEpic.status !== 'done');
                                     })
@@ -550,12 +853,56 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                                 suggestion += "📝 **This Epic has no tasks yet.** Consider creating initial tasks to break down the work.\n\n";
                             }
                             
+                        } else if (milestone) {
+                            // Suggest Tasks of the Milestone across its Epics
+                            const tasks = getMilestoneProgress(milestone, allEpics).tasks
+                                .filter(({ epic, task }) => tagFilter.length === 0 || taskMatchesTags(epic, task, tagFilter));
+                            const describe = ({ epic, task }: { epic: Epic, task: Task }) =>
+                                `- ${task.id}: ${task.description.split('\n')[0]} — in Epic "${epic.description.split('\n')[0]}"`;
+                            
+                            const inProgressTasks = tasks.filter(({ task }) => task.status === 'in-progress');
+                            if (inProgressTasks.length > 0) {
+                                suggestion += "🚧 **Continue working on these in-progress tasks:**\n\n";
+                                inProgressTasks.forEach(item => {
+                                    suggestion += `${describe(item)} ${getSubtaskProgress(item.task)}\n`;
+                                });
+                                suggestion += "\n";
+                            }
+                            
+                            const todoTasks = tasks.filter(({ task }) => task.status === 'todo');
+                            const isReady = ({ epic, task }: { epic: Epic, task: Task }) =>
+                                [...(epic.dependencies ?? []), ...(task.dependencies ?? [])].every(depId =>
+                                    getTaskById(allEpics, depId)?.task.status === 'done' || getEpicById(allEpics, depId)?.status === 'done');
+                            const ready = todoTasks.filter(isReady);
+                            const blocked = todoTasks.filter(item => !isReady(item));
+                            if (ready.length > 0) {
+                                suggestion += "✅ **Ready to start tasks:**\n\n";
+                                ready.forEach(item => { suggestion += `${describe(item)}\n`; });
+                                suggestion += "\n";
+                            }
+                            if (blocked.length > 0) {
+                                suggestion += "⏳ **Blocked tasks (dependencies not satisfied):**\n\n";
+                                blocked.forEach(item => { suggestion += `${describe(item)}\n`; });
+                                suggestion += "\n";
+                            }
+                            
+                            if (tasks.length === 0) {
+                                suggestion += "📝 **No Tasks in this Milestone yet.** Add Epics or Tasks with manageMilestones action=addItems.\n\n";
+                            } else if (inProgressTasks.length + todoTasks.length === 0) {
+                                suggestion += "✅ **Every Task in this Milestone is done.**\n\n";
+                            }
+                            
                         } else {
                             // Suggest next Epic to work on
                             suggestion += "## Epic Suggestions\n\n";
                             
+                            const candidateEpics = allEpics.filter(e => tagFilter.length === 0 || epicMatchesTags(e, tagFilter));
+                            if (tagFilter.length > 0 && candidateEpics.length === 0) {
+                                suggestion += "🏷️ **No Epics carry those tags.**\n\n";
+                            }
+                            
                             // Find in-progress epics first
-                            const inProgressEpics = allEpics.filter(e => e.status === 'in-progress');
+                            const inProgressEpics = candidateEpics.filter(e => e.status === 'in-progress');
                             if (inProgressEpics.length > 0) {
                                 suggestion += "🚧 **Continue working on these in-progress Epics:**\n\n";
                                 inProgressEpics.forEach(epic => {
@@ -566,13 +913,13 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                             }
                             
                             // Find unblocked todo epics
-                            const todoEpics = allEpics.filter(e => e.status === 'todo');
+                            const todoEpics = candidateEpics.filter(e => e.status === 'todo');
                             if (todoEpics.length > 0) {
                                 const unblocked = todoEpics.filter(epic => {
                                     if (!epic.dependencies || epic.dependencies.length === 0) return true;
                                     
                                     return epic.dependencies.every(depId => {
-                                        const depEpic = getEpicById(depId);
+                                        const depEpic = getEpicById(allEpics, depId);
                                         return depEpic?.status === 'done';
                                     });
                                 });
@@ -588,7 +935,7 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                                 // Find blocked epics
                                 const blocked = todoEpics.filter(epic => 
                                     epic.dependencies && epic.dependencies.some(depId => {
-                                        const depEpic = getEpicById(depId);
+                                        const depEpic = getEpicById(allEpics, depId);
                                         return !depEpic || depEpic.status !== 'done';
                                     })
                                 );
@@ -601,7 +948,7 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                                         // List blockers
                                         if (epic.dependencies) {
                                             const blockers = epic.dependencies
-                                                .map(depId => getEpicById(depId))
+                                                .map(depId => getEpicById(allEpics, depId))
                                                 .filter(dep => dep && dep.status !== 'done')
                                                 .map(dep => `${dep?.id}: ${dep?.description.split('\n')[0]}`);
                                             
@@ -629,7 +976,7 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                             return { content: [{ type: "text", text: "epicId is required for verify mode" }], isError: true };
                         }
 
-                        const epic = getEpicById(epicId);
+                        const epic = getEpicById(allEpics, epicId);
                         if (!epic) {
                             return { content: [{ type: "text", text: `Epic with ID ${epicId} not found` }], isError: true };
                         }
@@ -643,7 +990,7 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                         
                         if (epic.dependencies && epic.dependencies.length > 0) {
                             for (const depId of epic.dependencies) {
-                                const dependency = getEpicById(depId);
+                                const dependency = getEpicById(allEpics, depId);
                                 if (!dependency || dependency.status !== 'done') {
                                     allDependenciesMet = false;
                                     pendingDependencies.push(depId);
@@ -669,7 +1016,7 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                             } else {
                                 report += `⚠️ Some dependencies are not yet completed:\n\n`;
                                 for (const depId of pendingDependencies) {
-                                    const dep = getEpicById(depId);
+                                    const dep = getEpicById(allEpics, depId);
                                     if (dep) {
                                         report += `- ${dep.id}: ${dep.description.split('\n')[0]} (${dep.status})\n`;
                                     } else {
@@ -717,6 +1064,308 @@ export function registerGetEpicOverviewTool(server: McpServer): void {
                         return { content: [{ type: "text", text: report }] };
                     }
                     
+                    case 'executionOrder': {
+                        if (!epicId) {
+                            return { content: [{ type: "text", text: "epicId is required for executionOrder mode" }], isError: true };
+                        }
+                        const epic = getEpicById(allEpics, epicId);
+                        if (!epic) {
+                            return { content: [{ type: "text", text: `Epic with ID ${epicId} not found` }], isError: true };
+                        }
+                        
+                        const plan = planExecutionOrder(allEpics, epicId);
+                        const criticalIds = new Set(plan.criticalPath.map(step => step.node.id));
+                        const priorityOrder = { high: 0, medium: 1, low: 2 };
+                        
+                        let report = `# 🧭 Execution Order\n\n`;
+                        report += `## Epic: ${epic.description.split('\n')[0]}\n\n`;
+                        
+                        if (plan.waves.length === 0) {
+                            report += `✅ All tasks are done; nothing left to schedule.\n`;
+                            return { content: [{ type: "text", text: report }] };
+                        }
+                        
+                        const itemCount = plan.waves.reduce((total, wave) => total + wave.length, 0);
+                        report += `**Unfinished items**: ${itemCount} in ${plan.waves.length} wave(s)\n`;
+                        report += `**Critical path**: ${plan.criticalPath.length} item(s), total complexity ${plan.criticalPathWeight}\n\n`;
+                        report += `Items in the same wave don't depend on each other and can be picked up by different agents at once. `;
+                        report += `⭐ marks the critical path: a delay on any of these delays the whole Epic.\n\n`;
+                        
+                        plan.waves.forEach((wave, index) => {
+                            report += `### Wave ${index + 1} (${wave.length} item${wave.length === 1 ? '' : 's'})\n\n`;
+                            [...wave]
+                                .sort((a, b) => Number(criticalIds.has(b.node.id)) - Number(criticalIds.has(a.node.id)) ||
+                                    (a.node.priority ? priorityOrder[a.node.priority] : 3) - (b.node.priority ? priorityOrder[b.node.priority] : 3))
+                                .forEach(step => {
+                                    report += formatExecutionStep(step, allEpics, criticalIds.has(step.node.id));
+                                });
+                            report += `\n`;
+                        });
+                        
+                        report += `## ⭐ Critical Path\n\n`;
+                        report += plan.criticalPath
+                            .map(step => `${step.node.description.split('\n')[0]} (${step.node.complexity ?? DEFAULT_COMPLEXITY_WEIGHT})`)
+                            .join(' → ') + `\n\n`;
+                        
+                        if (plan.missingDependencies.length > 0) {
+                            report += `## ⚠️ Missing Dependencies\n\n`;
+                            report += `These dependencies don't match any Epic or Task and were ignored:\n\n`;
+                            plan.missingDependencies.forEach(({ itemId, dependsOnId }) => {
+                                report += `- ${itemId} depends on ${dependsOnId}\n`;
+                            });
+                            report += `\n`;
+                        }
+                        
+                        return { content: [{ type: "text", text: report }] };
+                    }
+                    
+                    case 'auditDependencies': {
+                        let issues = auditDependencies(allEpics, trashedIds);
+                        let scope = 'all Epics';
+                        
+                        if (epicId) {
+                            const epic = getEpicById(allEpics, epicId);
+                            if (!epic) {
+                                return { content: [{ type: "text", text: `Epic with ID ${epicId} not found` }], isError: true };
+                            }
+                            // Keep issues touching the Epic or one of its Tasks
+                            const itemIds = new Set([epic.id, ...epic.tasks.map(t => t.id)]);
+                            issues = issues.filter(issue => getDependencyIssueItems(issue).some(id => itemIds.has(id)));
+                            scope = `Epic: ${epic.description.split('\n')[0]}`;
+                        }
+                        
+                        let report = `# 🔗 Dependency Audit\n\n`;
+                        report += `**Scope**: ${scope}\n\n`;
+                        
+                        if (issues.length === 0) {
+                            report += `✅ No self-dependencies, missing or trashed dependencies, or cycles found.\n`;
+                            return { content: [{ type: "text", text: report }] };
+                        }
+                        
+                        const sections: { type: DependencyIssue['type'], title: string, advice: string }[] = [
+                            { type: 'cycle', title: '🔄 Cycles', advice: 'Items in a cycle can never become ready. Remove one dependency from each cycle.' },
+                            { type: 'dangling', title: '❓ Missing Dependencies', advice: 'These dependencies point at deleted or invalid items and block their owners forever.' },
+                            { type: 'trashed', title: '🗑️ Trashed Dependencies', advice: 'These dependencies point at items in the trash. Restore the item with manageItems action=restore, or remove the dependency.' },
+                            { type: 'self', title: '🔁 Self-Dependencies', advice: 'An item cannot depend on itself.' }
+                        ];
+                        for (const section of sections) {
+                            const sectionIssues = issues.filter(issue => issue.type === section.type);
+                            if (sectionIssues.length === 0) continue;
+                            
+                            report += `## ${section.title} (${sectionIssues.length})\n\n${section.advice}\n\n`;
+                            sectionIssues.forEach(issue => {
+                                report += `- ${issue.message}\n`;
+                            });
+                            report += `\n`;
+                        }
+                        
+                        report += `Fix these with manageItems action=removeEpicDependency or action=removeTaskDependency.\n`;
+                        return { content: [{ type: "text", text: report }] };
+                    }
+                    
+                    case 'milestoneProgress': {
+                        // Resolved above; an unknown or missing Milestone already returned an error
+                        const target = milestone!;
+                        const progress = getMilestoneProgress(target, allEpics);
+                        const burndown = getBurndown(target, progress);
+                        const today = toDay(new Date());
+                        
+                        let report = `# ${target.kind === 'sprint' ? '🏃 Sprint' : '🚩 Milestone'}: ${target.name}\n\n`;
+                        if (target.description) {
+                            report += `${target.description}\n\n`;
+                        }
+                        report += `**Dates**: ${target.startDate} to ${target.endDate}`;
+                        if (today < target.startDate) {
+                            report += ` (starts in ${daysBetween(today, target.startDate)} day(s))\n\n`;
+                        } else if (today > target.endDate) {
+                            report += ` (finished)\n\n`;
+                        } else {
+                            report += ` (day ${progress.elapsedDays} of ${progress.totalDays})\n\n`;
+                        }
+                        report += `**Progress**: ${getProgressBar(progress.percentage)}\n\n`;
+                        report += `**Tasks**: ${progress.doneTasks}/${progress.totalTasks} done, ${progress.inProgressTasks} in progress\n\n`;
+                        report += `**Points**: ${progress.donePoints}/${progress.totalPoints} done (Tasks without a complexity count as ${DEFAULT_COMPLEXITY_WEIGHT})\n\n`;
+                        report += `**ID**: \`${target.id}\`\n\n`;
+                        
+                        // Per-Epic breakdown
+                        const byEpic = new Map<string, { epic: Epic, tasks: Task[] }>();
+                        progress.tasks.forEach(({ epic, task }) => {
+                            const group = byEpic.get(epic.id) ?? { epic, tasks: [] };
+                            group.tasks.push(task);
+                            byEpic.set(epic.id, group);
+                        });
+                        if (byEpic.size > 0) {
+                            report += `## Epics\n\n| Epic | Tasks done | In Milestone |\n|------|------------|--------------|\n`;
+                            byEpic.forEach(({ epic, tasks }) => {
+                                const how = target.epicIds.includes(epic.id) ? 'whole Epic' : 'selected Tasks';
+                                report += `| ${epic.description.split('\n')[0]} | ${tasks.filter(t => t.status === 'done').length}/${tasks.length} | ${how} |\n`;
+                            });
+                            report += `\n`;
+                        } else {
+                            report += `*No Tasks in this Milestone yet.* Add Epics or Tasks with manageMilestones action=addItems.\n\n`;
+                        }
+                        
+                        if (burndown.length > 0 && progress.totalPoints > 0) {
+                            const latest = burndown[burndown.length - 1];
+                            const gap = Math.round(Math.abs(latest.remaining - latest.ideal) * 10) / 10;
+                            const pace = gap === 0 ? `✅ on the ideal pace`
+                                : latest.remaining > latest.ideal ? `⚠️ ${gap} point(s) behind the ideal pace`
+                                : `✅ ${gap} point(s) ahead of the ideal pace`;
+                            report += `## 📉 Burndown\n\n${pace} as of ${latest.date}.\n\n`;
+                            report += renderBurndown(burndown, includeDiagrams);
+                        }
+                        
+                        const open = progress.tasks.filter(({ task }) => task.status !== 'done');
+                        if (open.length > 0) {
+                            report += `## Open Tasks\n\n`;
+                            open.forEach(({ epic, task }) => {
+                                const markers = [getStatusEmoji(task.status), getPriorityEmoji(task.priority)].filter(Boolean).join(' ');
+                                report += `- ${markers} ${task.id}: ${task.description.split('\n')[0]} — in Epic "${epic.description.split('\n')[0]}"\n`;
+                            });
+                            report += `\n`;
+                        }
+                        
+                        if (progress.missingIds.length > 0) {
+                            report += `## ⚠️ Missing Items\n\nThese members no longer exist (deleted or in the trash): ${progress.missingIds.join(', ')}. Remove them with manageMilestones action=removeItems.\n\n`;
+                        }
+                        return { content: [{ type: "text", text: report }] };
+                    }
+                    
+                    case 'tagProgress': {
+                        let epics = allEpics;
+                        let scope = 'all Epics';
+                        if (epicId) {
+                            const epic = getEpicById(allEpics, epicId);
+                            if (!epic) {
+                                return { content: [{ type: "text", text: `Epic with ID ${epicId} not found` }], isError: true };
+                            }
+                            epics = [epic];
+                            scope = `Epic: ${epic.description.split('\n')[0]}`;
+                        }
+                        
+                        const wanted = new Set(tagFilter.map(tag => tag.trim().toLowerCase()));
+                        const progress = getTagProgress(epics).filter(entry => wanted.size === 0 || wanted.has(entry.tag.toLowerCase()));
+                        
+                        let report = `# 🏷️ Progress by Tag\n\n`;
+                        report += `**Scope**: ${scope}\n\n`;
+                        if (progress.length === 0) {
+                            report += tagFilter.length > 0
+                                ? `*No Tasks or Subtasks carry ${tagFilter.map(tag => `#${tag}`).join(' ')}.*\n`
+                                : `*No tagged items yet.* Tag items with manageItems action=addTags.\n`;
+                            return { content: [{ type: "text", text: report }] };
+                        }
+                        
+                        report += `Tasks and Subtasks count towards their own tags and those inherited from their Epic, Task or parent Subtask.\n\n`;
+                        report += renderTagProgress(progress);
+                        
+                        // Where the open work in each tag is
+                        for (const entry of progress) {
+                            const openTasks = epics.flatMap(epic => epic.tasks
+                                .filter(task => task.status !== 'done' && taskMatchesTags(epic, task, [entry.tag]))
+                                .map(task => ({ epic, task })));
+                            if (openTasks.length === 0) continue;
+                            
+                            report += `### #${entry.tag} — ${openTasks.length} open Task(s)\n\n`;
+                            openTasks.forEach(({ epic, task }) => {
+                                const owner = epicId ? '' : ` — in Epic "${epic.description.split('\n')[0]}"`;
+                                report += `- ${getStatusEmoji(task.status)} ${task.id}: ${task.description.split('\n')[0]}${owner}\n`;
+                            });
+                            report += `\n`;
+                        }
+                        return { content: [{ type: "text", text: report }] };
+                    }
+                    
+                    case 'schedule': {
+                        let epics = allEpics;
+                        let scope = 'all Epics';
+                        if (epicId) {
+                            const epic = getEpicById(allEpics, epicId);
+                            if (!epic) {
+                                return { content: [{ type: "text", text: `Epic with ID ${epicId} not found` }], isError: true };
+                            }
+                            epics = [epic];
+                            scope = `Epic: ${epic.description.split('\n')[0]}`;
+                        }
+                        
+                        const open = epics.flatMap(epic => [epic, ...epic.tasks])
+                            .map(item => schedule.get(item.id)!)
+                            .filter(item => item.status !== 'done');
+                        const count = (status: ScheduleStatus) => open.filter(item => item.status === status).length;
+                        
+                        let report = `# ⏰ Schedule\n\n`;
+                        report += `**Scope**: ${scope}\n\n`;
+                        report += `Dates are projected from dependencies, start dates and estimates: ${HOURS_PER_DAY} estimated hours per day, `;
+                        report += `or ${DAYS_PER_COMPLEXITY_POINT} day per complexity point when there is no estimate. Tasks without dependencies between them run in parallel.\n\n`;
+                        report += `**Unfinished items**: ${count('overdue')} overdue, ${count('at-risk')} at risk, ${count('on-track')} on track, ${count('unscheduled')} without a due date\n\n`;
+                        
+                        const issues = getScheduleIssues(schedule, epicId);
+                        report += `## Needs Attention\n\n`;
+                        report += issues.length > 0
+                            ? renderScheduleIssues(issues, !epicId)
+                            : `*Nothing is overdue or at risk.*\n\n`;
+                        
+                        if (epicId) {
+                            const tasks = epics[0].tasks.map(task => schedule.get(task.id)!).filter(item => item.status !== 'done');
+                            report += `## Open Tasks\n\n`;
+                            report += tasks.length > 0 ? renderScheduleTable(tasks.sort((a, b) => a.start.localeCompare(b.start))) : `*All Tasks are done.*\n\n`;
+                        } else {
+                            const openEpics = open.filter(item => item.kind === 'Epic').sort((a, b) => a.finish.localeCompare(b.finish));
+                            report += `## Open Epics\n\n`;
+                            report += openEpics.length > 0 ? renderScheduleTable(openEpics) : `*All Epics are done.*\n\n`;
+                        }
+                        report += `Set dates with manageItems action=updateTask (or updateEpic) startDate=... dueDate=...\n`;
+                        return { content: [{ type: "text", text: report }] };
+                    }
+                    
+                    case 'analytics': {
+                        const today = toDay(new Date());
+                        let tasks: Task[];
+                        let scope: { kind: 'all' | 'epic' | 'milestone' | 'sprint'; id?: string; name: string };
+                        let from: string;
+                        let to: string;
+                        if (milestone) {
+                            tasks = getMilestoneProgress(milestone, allEpics).tasks.map(({ task }) => task);
+                            scope = { kind: milestone.kind, id: milestone.id, name: milestone.name };
+                            from = milestone.startDate;
+                            to = [milestone.endDate, today].sort()[0];
+                        } else if (epicId) {
+                            const epic = getEpicById(allEpics, epicId);
+                            if (!epic) {
+                                return { content: [{ type: "text", text: `Epic with ID ${epicId} not found` }], isError: true };
+                            }
+                            tasks = epic.tasks;
+                            scope = { kind: 'epic', id: epic.id, name: epic.description.split('\n')[0] };
+                            from = getFirstDay(tasks, toDay(epic.createdAt));
+                            to = getLastDay(tasks);
+                        } else {
+                            tasks = allEpics.flatMap(epic => epic.tasks);
+                            scope = { kind: 'all', name: 'All Epics' };
+                            from = getFirstDay(tasks, today);
+                            to = getLastDay(tasks);
+                        }
+                        
+                        const series = to >= from ? getFlowSeries(tasks, from, to) : [];
+                        const throughput = getWeeklyThroughput(tasks, weeks);
+                        const cycleTimes = getCycleTimes(tasks);
+                        
+                        let report = `# 📊 Flow Analytics: ${scope.name}\n\n`;
+                        report += `**Scope**: ${scope.kind === 'all' ? 'all Epics' : `${scope.kind} \`${scope.id}\``}, ${tasks.length} Task(s)\n\n`;
+                        report += `Measured from recorded status changes, in complexity points (Tasks without a score count ${DEFAULT_COMPLEXITY_WEIGHT}).\n\n`;
+                        if (series.length === 0) {
+                            report += `*No burnup or burndown yet: it starts on ${from}.*\n\n`;
+                        }
+                        report += renderFlowAnalytics(series, throughput, cycleTimes, includeDiagrams);
+                        report += `The raw data follows as JSON.\n`;
+                        
+                        const data = { scope, from, to, generatedAt: new Date().toISOString(), series, throughput, cycleTimes };
+                        return {
+                            content: [
+                                { type: "text", text: report },
+                                { type: "text", text: JSON.stringify(data, null, 2) }
+                            ]
+                        };
+                    }
+                    
                     default:
                         return { content: [{ type: "text", text: `Error: Unknown mode '${mode}'.` }], isError: true };
                 }
@@ -758,7 +1407,7 @@ function generateDependencyGraphDiagram(epic: Epic, allEpics: Epic[]): string {
     // Epic dependencies
     if (epic.dependencies) {
         for (const depId of epic.dependencies) {
-            const depEpic = getEpicById(depId);
+            const depEpic = getEpicById(allEpics, depId);
             if (depEpic) {
                 output += `    EPIC_${depId}["${getStatusEmoji(depEpic.status)} Epic: ${depEpic.description.split('\n')[0].substring(0, 30)}${depEpic.description.split('\n')[0].length > 30 ? '...' : ''}"];\n`;
                 output += `    EPIC_${depId} --> EPIC_${epic.id};\n`;
@@ -886,7 +1535,7 @@ function generateTaskFlowDiagram(epic: Epic): string {
             for (const depId of task.dependencies) {
                 // Only add connection if both tasks are displayed
                 if (allDisplayedTaskIds.has(depId)) {
-                    const depTaskResult = getTaskById(depId);
+                    const depTaskResult = getTaskById([epic], depId);
                     if (depTaskResult && epic.tasks.some(t => t.id === depId)) {
                         const sourcePrefix = depTaskResult.task.status === 'done' ? 'DONE' : 
                                           depTaskResult.task.status === 'in-progress' ? 'INPROGRESS' : 'TODO';
@@ -904,8 +1553,8 @@ function generateTaskFlowDiagram(epic: Epic): string {
     return output;
 }
 
-// Function to generate timeline diagram
-function generateTimelineDiagram(epic: Epic): string {
+// Function to generate timeline diagram from the projected start and finish of each task
+function generateTimelineDiagram(epic: Epic, schedule: Schedule): string {
     // Only generate if there are multiple tasks
     if (epic.tasks.length <= 1) {
         return "";
@@ -916,27 +1565,24 @@ function generateTimelineDiagram(epic: Epic): string {
     output += "    title Epic Timeline\n";
     output += "    dateFormat  YYYY-MM-DD\n";
     output += "    axisFormat %m/%d\n";
-    
-    // Start date is the earliest creation date among tasks
-    const startDate = epic.tasks.reduce((earliest, task) => {
-        const taskDate = new Date(task.createdAt);
-        return taskDate < earliest ? taskDate : earliest;
-    }, new Date(epic.createdAt));
-    
-    // Format the date as YYYY-MM-DD
-    const formattedStartDate = startDate.toISOString().split('T')[0];
     output += `    section Tasks\n`;
     
-    // Add each task as a gantt section
     epic.tasks.forEach((task, index) => {
-        const taskDescription = task.description.split('\n')[0].replace(/"/g, "'"); // Escape quotes
-        const status = task.status === 'done' ? 'done' : task.status === 'in-progress' ? 'active' : 'crit';
-        
-        // Calculate a duration based on complexity or a default
-        const duration = task.complexity ? Math.max(task.complexity, 1) : 3;
-        output += `    ${taskDescription} :${status}, ${formattedStartDate}, ${duration}d\n`;
+        const scheduled = schedule.get(task.id)!;
+        const taskDescription = task.description.split('\n')[0].replace(/"/g, "'").replace(/[:;#]/g, ' '); // Characters Mermaid reserves
+        const markers = [
+            scheduled.status === 'overdue' || scheduled.status === 'at-risk' ? 'crit' : '',
+            task.status === 'done' ? 'done' : task.status === 'in-progress' ? 'active' : ''
+        ].filter(Boolean);
+        const days = daysBetween(scheduled.start, scheduled.finish) + 1;
+        output += `    ${taskDescription} :${[...markers, `t${index + 1}`].join(', ')}, ${scheduled.start}, ${days}d\n`;
     });
     
+    if (epic.dueDate) {
+        output += `    section Deadlines\n`;
+        output += `    Epic due :milestone, ${toDay(epic.dueDate)}, 0d\n`;
+    }
+    
     output += "```\n\n";
     return output;
 }
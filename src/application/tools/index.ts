@@ -1,5 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import type { EpicServiceResolver } from "../../domain/task/services/EpicService.js";
 
 // Import schemas used across tools (if needed)
 // export { taskIdSchema, ... } from "../schemas/commonSchemas.js";
@@ -14,18 +15,25 @@ import { registerManageTaskStorageTool } from "./manageTaskStorageTool.js";
 import { registerPlanEpicTool } from "./planEpicTool.js";
 import { registerBatchEpicTool } from "./batchEpicTool.js";
 import { registerCreatePlanningConfigTool } from "./createPlanningConfigTool.js";
+import { registerManageHistoryTool } from "./manageHistoryTool.js";
+import { registerSearchItemsTool } from "./searchItemsTool.js";
+import { registerManageMilestonesTool } from "./manageMilestonesTool.js";
 
 /**
  * Registers all application tools with the MCP server
+ * @param resolveEpicService Resolves the EpicService for the basePath a tool is called with
  */
-export function registerAllTools(server: McpServer): void {
-  registerCreateEpicTool(server);
-  registerManageItemsTool(server);
-  registerExecuteItemTool(server);
-  registerGetEpicOverviewTool(server);
-  registerExpandTaskTool(server);
-  registerManageTaskStorageTool(server);
+export function registerAllTools(server: McpServer, resolveEpicService: EpicServiceResolver): void {
+  registerCreateEpicTool(server, resolveEpicService);
+  registerManageItemsTool(server, resolveEpicService);
+  registerExecuteItemTool(server, resolveEpicService);
+  registerGetEpicOverviewTool(server, resolveEpicService);
+  registerExpandTaskTool(server, resolveEpicService);
+  registerManageTaskStorageTool(server, resolveEpicService);
   registerPlanEpicTool(server);
-  registerBatchEpicTool(server);
+  registerBatchEpicTool(server, resolveEpicService);
   registerCreatePlanningConfigTool(server);
+  registerManageHistoryTool(server, resolveEpicService);
+  registerSearchItemsTool(server, resolveEpicService);
+  registerManageMilestonesTool(server, resolveEpicService);
 } 
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { EpicServiceResolver } from "../../domain/task/services/EpicService.js";
+import type { Epic } from "../../domain/task/entities/Task.js";
+import type { HistoryEntry, HistoryItemChange } from "../../domain/task/entities/HistoryEntry.js";
+import { HistoryConflictError } from "../../domain/task/errors/HistoryConflictError.js";
+import { findSubtask } from "../../domain/task/services/SubtaskTree.js";
+
+const historyActionSchema = z.enum([
+    'list',     // Lists recent operations, optionally only those touching one item
+    'undo',     // Reverts the last `count` operations
+    'redo'      // Re-applies the last `count` undone operations
+]);
+
+const manageHistorySchema = z.object({
+    action: historyActionSchema.describe("History action to perform (required)"),
+    basePath: z.string().describe("FULL directory path for storage (required, e.g., '/path/to/storage')"),
+    itemId: z.string().uuid().optional().describe("Only list operations touching this Epic, Task or Subtask (for list)"),
+    count: z.number().int().positive().optional().default(1).describe("Number of operations to undo or redo (default: 1)"),
+    limit: z.number().int().positive().optional().default(20).describe("Maximum number of operations to list, newest first (default: 20)")
+});
+
+type ManageHistoryParams = z.infer<typeof manageHistorySchema>;
+
+const ACTION_LABELS = { create: '➕ Created', update: '✏️ Updated', delete: '🗑️ Deleted' };
+const ENTRY_ICONS = { change: '📝', undo: '↩️', redo: '↪️' };
+
+// Finds an item as it was in an Epic snapshot
+function findItem(epic: Epic | undefined, change: HistoryItemChange): Record<string, unknown> | undefined {
+    if (!epic) return undefined;
+    if (change.kind === 'Epic') return epic as unknown as Record<string, unknown>;
+    if (change.kind === 'Task') return epic.tasks.find(t => t.id === change.id) as unknown as Record<string, unknown> | undefined;
+    for (const task of epic.tasks) {
+        const location = findSubtask(task.subtasks ?? [], change.id);
+        if (location) return location.subtask as unknown as Record<string, unknown>;
+    }
+    return undefined;
+}
+
+function formatValue(value: unknown): string {
+    if (value === undefined) return '(none)';
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    const firstLine = text.split('\n')[0];
+    return firstLine.length > 60 ? `${firstLine.substring(0, 57)}...` : firstLine;
+}
+
+// Renders one item change, with before → after values of updated fields when asked for
+function formatItemChange(entry: HistoryEntry, change: HistoryItemChange, showValues: boolean): string {
+    let text = `  - ${ACTION_LABELS[change.action]} ${change.kind} "${change.description}" (${change.id.substring(0, 8)})`;
+    if (!change.fields || change.fields.length === 0) {
+        return `${text}\n`;
+    }
+    if (!showValues) {
+        return `${text}: ${change.fields.join(', ')}\n`;
+    }
+    const epicChange = entry.epics.find(e => e.epicId === change.epicId);
+    const before = findItem(epicChange?.before, change);
+    const after = findItem(epicChange?.after, change);
+    text += '\n';
+    for (const field of change.fields) {
+        text += `    - ${field}: ${formatValue(before?.[field])} → ${formatValue(after?.[field])}\n`;
+    }
+    return text;
+}
+
+export function registerManageHistoryTool(server: McpServer, resolveEpicService: EpicServiceResolver): void {
+    server.tool(
+        "manageHistory",
+        "Lists the journal of changes to Epics, Tasks and Subtasks, and undoes or redoes the last operations.",
+        {
+            action: historyActionSchema.describe("History action to perform (required)"),
+            basePath: z.string().describe("FULL directory path for storage (required, e.g., '/path/to/storage')"),
+            itemId: z.string().uuid().optional().describe("Only list operations touching this Epic, Task or Subtask (for list)"),
+            count: z.number().int().positive().optional().default(1).describe("Number of operations to undo or redo (default: 1)"),
+            limit: z.number().int().positive().optional().default(20).describe("Maximum number of operations to list, newest first (default: 20)")
+        },
+        async (params: ManageHistoryParams) => {
+            const { action, basePath, itemId, count = 1, limit = 20 } = params;
+
+            if (!basePath) {
+                return { content: [{ type: "text", text: "Error: 'basePath' parameter is required." }], isError: true };
+            }
+
+            try {
+                const service = await resolveEpicService(basePath);
+                return await service.withLock(async () => {
+                    await service.load();
+
+                    if (action === 'list') {
+                        const entries = await service.getHistory(itemId);
+                        const { undo, redo } = await service.getUndoRedoStacks();
+                        const undoable = new Set(undo.map(entry => entry.id));
+
+                        let output = `# 🕘 History${itemId ? ` of ${itemId}` : ''}\n\n`;
+                        output += `${undo.length} operation(s) can be undone and ${redo.length} redone.\n\n`;
+                        if (entries.length === 0) {
+                            output += "*No operations recorded yet*\n";
+                            return { content: [{ type: "text", text: output }] };
+                        }
+                        if (entries.length > limit) {
+                            output += `_Showing the last ${limit} of ${entries.length} operations._\n\n`;
+                        }
+                        for (const entry of entries.slice(-limit).reverse()) {
+                            const undoMarker = entry.type === 'change' && !undoable.has(entry.id) ? ' _(undone)_' : '';
+                            output += `- ${ENTRY_ICONS[entry.type]} ${new Date(entry.createdAt).toLocaleString()} — ${entry.summary}${undoMarker} \`${entry.id}\`\n`;
+                            const items = itemId ? entry.items.filter(item => item.id === itemId || (item.kind !== 'Epic' && item.epicId === itemId)) : entry.items;
+                            items.forEach(item => { output += formatItemChange(entry, item, itemId !== undefined); });
+                        }
+                        output += `\nTo undo the last operation:\n\`\`\`\nmanageHistory action=undo basePath="${basePath}"\n\`\`\`\n`;
+                        return { content: [{ type: "text", text: output }] };
+                    }
+
+                    const reverted = action === 'undo' ? await service.undo(count) : await service.redo(count);
+                    if (reverted.length === 0) {
+                        return { content: [{ type: "text", text: `Nothing to ${action}.` }], isError: true };
+                    }
+                    let output = `${action === 'undo' ? '↩️ Undid' : '↪️ Redid'} ${reverted.length} operation(s):\n\n`;
+                    reverted.forEach(entry => { output += `- ${entry.summary} \`${entry.id}\`\n`; });
+                    if (reverted.length < count) {
+                        output += `\nOnly ${reverted.length} of ${count} operation(s) were left to ${action}.\n`;
+                    }
+                    return { content: [{ type: "text", text: output }] };
+                });
+            } catch (error: any) {
+                if (error instanceof HistoryConflictError) {
+                    return { content: [{ type: "text", text: `Error: ${error.message} Review the Epic and change it back with manageItems instead.` }], isError: true };
+                }
+                return { content: [{ type: "text", text: `Error managing history: ${error.message}` }], isError: true };
+            }
+        }
+    );
+}
@@ -7,32 +7,31 @@ import {
     subtaskIdSchema,
     taskStatusSchema,
     subtaskStatusSchema,
-    complexitySchema
+    complexitySchema,
+    tagsSchema,
+    startDateSchema,
+    dueDateSchema,
+    assigneeSchema,
+    estimatedHoursSchema,
+    storyPointsSchema
 } from "../schemas/commonSchemas.js";
 // Import necessary functions/types...
-import { 
-    getEpics, 
-    getEpicById, 
-    getTaskById, 
-    getSubtaskById,
-    updateEpicStore, 
-    deleteEpicFromStore,
-    addEpic, // Used by EpicService, maybe not directly needed here?
-    saveEpics,
-    configureStorage,
-    loadEpics
-    // Removed imports for functions not directly in TaskStorageService 
-    // addTaskToEpic, updateTaskInEpic, deleteTaskFromEpic, addSubtaskToTask, 
-    // updateSubtaskInTask, deleteSubtaskFromTask, addFileToEpic, removeFileFromEpic,
-    // addEpicDependency, removeEpicDependency
-} from "../../infrastructure/storage/TaskStorageService.js";
+import type { EpicService, EpicServiceResolver } from "../../domain/task/services/EpicService.js";
 import type { Epic, Task, Subtask, AssociatedFile, Status, Priority } from "../../domain/task/entities/Task.js";
+import { EpicVersionConflictError } from "../../domain/task/errors/EpicVersionConflictError.js";
+import { findSubtask, assertWithinMaxDepth, countSubtasks, SUBTASK_LEVEL } from "../../domain/task/services/SubtaskTree.js";
+import { releaseLease, renewLease, endLease, DEFAULT_LEASE_MINUTES } from "../../domain/task/services/TaskLease.js";
+import { appendWorkLogEntry, startSession, endSession, endAllSessions, getElapsedTime, formatDuration } from "../../domain/task/services/WorkLog.js";
+import { auditDependencies, describeDependencyNode, buildDependencyGraph } from "../../domain/task/services/DependencyGraph.js";
+import { normalizeTags, addTags, removeTags, epicMatchesTags } from "../../domain/task/services/Tags.js";
+import { validateItemDates } from "../../domain/task/services/Schedule.js";
 import { v4 as uuidv4 } from 'uuid';
 
 // Define IDs more clearly
 const epicIdSchema = z.string().uuid().describe("ID of the target Epic");
 const taskIdSchemaRevised = z.string().uuid().describe("ID of the target Task within an Epic");
 const subtaskIdSchemaRevised = z.string().uuid().describe("ID of the target Subtask within a Task");
+const workLogTypeSchema = z.enum(['finding', 'decision', 'note']); // Sessions have their own actions
 
 // Refined Action Schema
 const manageItemActionSchema = z.enum([
@@ -52,10 +51,24 @@ const manageItemActionSchema = z.enum([
     'removeTaskDependency',
     'addFileToTask',
     'removeFileFromTask',
+    'releaseTask',      // Gives up an agent's lease on a Task
+    'renewLease',       // Extends an agent's lease on a Task
+    'addWorkLog',       // Appends a finding, decision or note to a Task's work log
+    'startSession',     // Records that an agent started working on a Task
+    'endSession',       // Records that an agent stopped working on a Task
     // Subtask Level
-    'createSubtask',    // Creates a Subtask within a Task
+    'createSubtask',    // Creates a Subtask within a Task, or nested under another Subtask
     'updateSubtask', 
-    'deleteSubtask'
+    'deleteSubtask',
+    'addFileToSubtask',
+    'removeFileFromSubtask',
+    // Any level: tags go on the Subtask if subtaskId is given, else on the Task if taskId is given, else on the Epic
+    'addTags',
+    'removeTags',
+    // Trash (deleteEpic, deleteTask and deleteSubtask move items there)
+    'listTrash',
+    'restore',          // Puts a trashed item back where it was
+    'purge'             // Permanently deletes one trashed item, or everything in the trash
 ]);
 
 // Refined Parameter Schema
@@ -67,6 +80,7 @@ const manageItemSchema = z.object({
     epicId: epicIdSchema.optional(),
     taskId: taskIdSchemaRevised.optional(),
     subtaskId: subtaskIdSchemaRevised.optional(),
+    parentSubtaskId: subtaskIdSchemaRevised.optional().describe("ID of the Subtask to nest a new Subtask under (for createSubtask)"),
     
     // Data Payloads (conditionally required)
     description: descriptionSchema.optional(),
@@ -74,18 +88,60 @@ const manageItemSchema = z.object({
     subtaskStatus: subtaskStatusSchema.optional().describe("Status (for updateSubtask)"), // Use existing schema
     priority: prioritySchema.optional(),
     complexity: complexitySchema.optional(),
-    details: z.string().optional().describe("Detailed implementation notes (for updateEpic, updateTask)"),
+    details: z.string().optional().describe("Detailed implementation notes (for updateEpic, createTask, updateTask)"),
+    tags: tagsSchema.describe("Tags (replace the item's tags for updateEpic, updateTask and updateSubtask; set them for createTask and createSubtask; required for addTags and removeTags)"),
+    startDate: startDateSchema.describe("Day work may start, as an ISO date string; the scheduler won't plan it earlier (for updateEpic, createTask, updateTask)"),
+    dueDate: dueDateSchema.describe("Due date as an ISO date string (for updateEpic, createTask, updateTask)"),
+    assignee: assigneeSchema.describe("Assignee (for updateEpic, createTask, updateTask)"),
+    estimatedHours: estimatedHoursSchema.describe("Estimated effort in hours (for updateEpic, createTask, updateTask)"),
+    storyPoints: storyPointsSchema.describe("Estimated effort in story points (for updateEpic, createTask, updateTask)"),
     dependsOn: z.string().uuid().optional().describe("Dependency ID (Epic ID or Task ID)"),
-    filePath: z.string().optional().describe("File path (for addFile.../removeFile... actions)"),
+    agentId: z.string().min(1).optional().describe("ID of the agent holding the lease (for renewLease; for releaseTask, omit to release whoever holds it) or writing to the work log (for addWorkLog, startSession, endSession)"),
+    leaseMinutes: z.number().int().positive().optional().describe(`New lease length in minutes (for renewLease, default: ${DEFAULT_LEASE_MINUTES})`),
+    logType: workLogTypeSchema.optional().describe("Kind of work log entry (for addWorkLog, default: note)"),
+    message: z.string().min(1).optional().describe("Work log text (required for addWorkLog, optional for startSession and endSession)"),
+    filePath: z.string().optional().describe("File path (for addFile.../removeFile... actions, including addFileToSubtask/removeFileFromSubtask)"),
     fileDescription: descriptionSchema.optional().describe("File description (for addFile... actions)"),
     requireFileAssociation: z.boolean().optional().default(true).describe("Whether to require file associations for completed items"),
     
+    itemId: z.string().uuid().optional().describe("ID of a trashed Epic, Task or Subtask (for restore; for purge, omit to empty the trash)"),
+    
     // Filters
     statusFilter: taskStatusSchema.optional().describe("Filter by status (for listEpics action)"),
+    tagFilter: z.array(z.string()).optional().describe("Only list Epics that carry all of these tags, themselves or in one of their Tasks or Subtasks (for listEpics action)"),
 });
 
 type ManageItemParams = z.infer<typeof manageItemSchema>;
 
+// Planning fields shared by Epics and Tasks
+type PlanningFields = Pick<Task, 'details' | 'tags' | 'startDate' | 'dueDate' | 'assignee' | 'estimatedHours' | 'storyPoints'>;
+
+// Helper to collect the planning fields that were provided
+function getPlanningUpdates(params: ManageItemParams): Partial<PlanningFields> {
+    const updates: Partial<PlanningFields> = {};
+    if (params.details !== undefined) updates.details = params.details;
+    if (params.tags !== undefined) updates.tags = normalizeTags(params.tags);
+    if (params.startDate !== undefined) updates.startDate = params.startDate;
+    if (params.dueDate !== undefined) updates.dueDate = params.dueDate;
+    if (params.assignee !== undefined) updates.assignee = params.assignee;
+    if (params.estimatedHours !== undefined) updates.estimatedHours = params.estimatedHours;
+    if (params.storyPoints !== undefined) updates.storyPoints = params.storyPoints;
+    return updates;
+}
+
+// Helper to warn about items whose dependencies now point into the trash
+async function getTrashedDependencyWarning(service: EpicService, trashedIds: string[]): Promise<string> {
+    const allEpics = await service.getAllEpics();
+    const dependentIds = auditDependencies(allEpics, await service.getTrashedItemIds())
+        .flatMap(issue => issue.type === 'trashed' && trashedIds.includes(issue.dependsOnId) ? [issue.itemId] : []);
+    if (dependentIds.length === 0) {
+        return '';
+    }
+    const graph = buildDependencyGraph(allEpics);
+    const dependents = [...new Set(dependentIds)].map(id => describeDependencyNode(graph, id));
+    return ` Warning: ${dependents.join(', ')} still depend(s) on it; these dependencies are flagged as trashed until it is restored or they are removed.`;
+}
+
 // Helper to create the standard response structure
 function createTextResponse(text: string, isError: boolean = false) {
     return {
@@ -94,7 +150,7 @@ function createTextResponse(text: string, isError: boolean = false) {
     };
 }
 
-export function registerManageItemsTool(server: McpServer): void {
+export function registerManageItemsTool(server: McpServer, resolveEpicService: EpicServiceResolver): void {
     server.tool(
         "manageItems",
         "Manages Epics, Tasks, and Subtasks.",
@@ -104,17 +160,30 @@ export function registerManageItemsTool(server: McpServer): void {
             epicId: epicIdSchema.optional(),
             taskId: taskIdSchemaRevised.optional(),
             subtaskId: subtaskIdSchemaRevised.optional(),
+            parentSubtaskId: subtaskIdSchemaRevised.optional(),
             description: descriptionSchema.optional(),
             status: taskStatusSchema.optional(),
             subtaskStatus: subtaskStatusSchema.optional(),
             priority: prioritySchema.optional(),
             complexity: complexitySchema.optional(),
             details: z.string().optional(),
+            tags: tagsSchema,
+            startDate: startDateSchema,
+            dueDate: dueDateSchema,
+            assignee: assigneeSchema,
+            estimatedHours: estimatedHoursSchema,
+            storyPoints: storyPointsSchema,
             dependsOn: z.string().uuid().optional(),
+            agentId: z.string().min(1).optional(),
+            leaseMinutes: z.number().int().positive().optional(),
+            logType: workLogTypeSchema.optional(),
+            message: z.string().min(1).optional(),
             filePath: z.string().optional(),
             fileDescription: descriptionSchema.optional(),
             requireFileAssociation: z.boolean().optional().default(true),
+            itemId: z.string().uuid().optional(),
             statusFilter: taskStatusSchema.optional(),
+            tagFilter: z.array(z.string()).optional(),
         },
         async (params: ManageItemParams) => {
             const { 
@@ -123,366 +192,603 @@ export function registerManageItemsTool(server: McpServer): void {
                 epicId, 
                 taskId, 
                 subtaskId,
+                parentSubtaskId,
                 description, status, subtaskStatus, priority, complexity, details, dependsOn, filePath, fileDescription, 
+                tags, startDate, dueDate, assignee, estimatedHours, storyPoints,
+                agentId, leaseMinutes = DEFAULT_LEASE_MINUTES,
+                logType = 'note', message,
                 requireFileAssociation = true,
-                statusFilter
+                itemId,
+                statusFilter,
+                tagFilter
             } = params;
 
             if (!basePath) {
                  return { content: [{ type: "text", text: "Error: 'basePath' parameter is required." }], isError: true };
             }
 
-            // Configure storage and load data for every action
+            // Hold the storage lock for the whole load-modify-save cycle so other clients can't interleave with it
             try {
-                configureStorage(basePath);
-                await loadEpics();
-            } catch (error: any) {
-                return { content: [{ type: "text", text: `Error accessing storage: ${error.message}` }], isError: true };
-            }
+                const service = await resolveEpicService(basePath);
+                return await service.withLock(async () => {
+                    // Load the latest data for every action
+                    try {
+                        await service.load();
+                    } catch (error: any) {
+                        return { content: [{ type: "text", text: `Error accessing storage: ${error.message}` }], isError: true };
+                    }
 
-            try {
-                let result: any = { success: false, message: "Action not fully implemented or failed." }; // Default result
+                    try {
+                        let result: any = { success: false, message: "Action not fully implemented or failed." }; // Default result
 
-                switch (action) {
-                    // --- Epic Actions --- 
-                    case 'listEpics': {
-                        let epics = getEpics();
-                        if (statusFilter) {
-                            epics = epics.filter(e => e.status === statusFilter);
-                        }
-                        if (epics.length === 0) {
-                            result = { success: true, message: "No Epics found" + (statusFilter ? ` with status '${statusFilter}'.` : ".") };
-                        } else {
-                            const epicList = epics.map(e => 
-                                `- ${e.id.substring(0,8)} [${e.status}] (${e.tasks.length} tasks): ${e.description.split('\n')[0]}`
-                            ).join('\n');
-                            result = { success: true, message: "Epics:\n" + epicList };
-                        }
-                        break;
-                    }
-                    case 'updateEpic': {
-                        if (!epicId) throw new Error("epicId is required for updateEpic");
-                        // Construct updates object carefully
-                        const updates: Partial<Epic> = {};
-                        if (description) updates.description = description;
-                        if (status) updates.status = status as Status;
-                        if (priority) updates.priority = priority;
-                        if (complexity) updates.complexity = complexity;
-                        // ... add other updatable fields ...
+                        switch (action) {
+                            // --- Epic Actions --- 
+                            case 'listEpics': {
+                                let epics = await service.findEpics({ status: statusFilter });
+                                if (tagFilter && tagFilter.length > 0) {
+                                    epics = epics.filter(e => epicMatchesTags(e, tagFilter));
+                                }
+                                if (epics.length === 0) {
+                                    const filters = [
+                                        statusFilter ? `status '${statusFilter}'` : '',
+                                        tagFilter?.length ? `tags ${tagFilter.join(', ')}` : ''
+                                    ].filter(Boolean);
+                                    result = { success: true, message: "No Epics found" + (filters.length > 0 ? ` with ${filters.join(' and ')}.` : ".") };
+                                } else {
+                                    const epicList = epics.map(e => 
+                                        `- ${e.id.substring(0,8)} [${e.status}] (${e.tasks.length} tasks): ${e.description.split('\n')[0]}` +
+                                        (e.tags?.length ? ` #${e.tags.join(' #')}` : '')
+                                    ).join('\n');
+                                    result = { success: true, message: "Epics:\n" + epicList };
+                                }
+                                break;
+                            }
+                            case 'updateEpic': {
+                                if (!epicId) throw new Error("epicId is required for updateEpic");
+                                // Construct updates object carefully
+                                const updates: Partial<Epic> = getPlanningUpdates(params);
+                                if (description) updates.description = description;
+                                if (status) updates.status = status as Status;
+                                if (priority) updates.priority = priority;
+                                if (complexity) updates.complexity = complexity;
                         
-                        if (Object.keys(updates).length === 0) {
-                             result = { success: true, message: `No update parameters provided for Epic ${epicId}.` };
-                             break;
-                        }
+                                if (Object.keys(updates).length === 0) {
+                                     result = { success: true, message: `No update parameters provided for Epic ${epicId}.` };
+                                     break;
+                                }
                         
-                        const epic = getEpicById(epicId);
-                        if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
                         
-                        // Check if completing without files
-                        if (requireFileAssociation && status === 'done' && 
-                            epic.status !== 'done' && (!epic.files || epic.files.length === 0)) {
-                            throw new Error(`Cannot mark Epic ${epicId} as complete without associated files. Add files first using addFileToEpic.`);
-                        }
+                                // Check if completing without files
+                                if (requireFileAssociation && status === 'done' && 
+                                    epic.status !== 'done' && (!epic.files || epic.files.length === 0)) {
+                                    throw new Error(`Cannot mark Epic ${epicId} as complete without associated files. Add files first using addFileToEpic.`);
+                                }
                         
-                        const updatedEpic = { ...epic, ...updates, updatedAt: new Date().toISOString() };
-                        const success = updateEpicStore(epicId, updatedEpic);
-                        if (success) {
-                            await saveEpics();
-                            result = { success: true, message: `Epic ${epicId} updated.` };
-                        } else {
-                             throw new Error(`Failed to update Epic ${epicId} in store.`);
-                        }
-                        break;
-                    }
-                     case 'deleteEpic': {
-                        if (!epicId) throw new Error("epicId is required for deleteEpic");
-                        const success = deleteEpicFromStore(epicId);
-                         if (success) {
-                            await saveEpics();
-                            result = { success: true, message: `Epic ${epicId} deleted.` };
-                        } else {
-                             throw new Error(`Epic ${epicId} not found or could not be deleted.`);
-                        }
-                        break;
-                    }
-                    case 'addEpicDependency': {
-                        if (!epicId || !dependsOn) throw new Error("epicId and dependsOn (Epic ID) are required.");
-                        // Basic implementation - needs TaskService equivalent
-                        const epic = getEpicById(epicId);
-                        const depEpic = getEpicById(dependsOn);
-                        if (!epic || !depEpic) throw new Error("One or both Epics not found.");
-                        if (!epic.dependencies) epic.dependencies = [];
-                        if (!epic.dependencies.includes(dependsOn)) {
-                            epic.dependencies.push(dependsOn);
-                            updateEpicStore(epicId, epic);
-                            await saveEpics();
-                            result = { success: true, message: `Added dependency ${dependsOn} to Epic ${epicId}.` };
-                        } else {
-                            result = { success: true, message: `Dependency already exists.` };
-                        }
-                        break;
-                    }
-                    case 'addFileToEpic': {
-                        if (!epicId || !filePath) throw new Error("epicId and filePath are required for addFileToEpic");
-                        const epic = getEpicById(epicId);
-                        if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                const updatedEpic = { ...epic, ...updates, updatedAt: new Date().toISOString() };
+                                validateItemDates(updatedEpic, `Epic ${epicId}`);
+                                const success = await service.updateEpic(epicId, updatedEpic) !== undefined;
+                                if (success) {
+                                    await service.saveAll();
+                                    result = { success: true, message: `Epic ${epicId} updated.` };
+                                } else {
+                                     throw new Error(`Failed to update Epic ${epicId} in store.`);
+                                }
+                                break;
+                            }
+                             case 'deleteEpic': {
+                                if (!epicId) throw new Error("epicId is required for deleteEpic");
+                                const taskIds = (await service.getEpicById(epicId))?.tasks.map(t => t.id) ?? [];
+                                const success = await service.trashEpic(epicId);
+                                 if (success) {
+                                    await service.saveAll();
+                                    const warning = await getTrashedDependencyWarning(service, [epicId, ...taskIds]);
+                                    result = { success: true, message: `Epic ${epicId} moved to the trash.${warning}` };
+                                } else {
+                                     throw new Error(`Epic ${epicId} not found or could not be deleted.`);
+                                }
+                                break;
+                            }
+                            case 'addEpicDependency': {
+                                if (!epicId || !dependsOn) throw new Error("epicId and dependsOn (Epic ID) are required.");
+                                // Rejects missing Epics, self-dependencies and cycles
+                                result = await service.addEpicDependency(epicId, dependsOn);
+                                break;
+                            }
+                            case 'removeEpicDependency': {
+                                if (!epicId || !dependsOn) throw new Error("epicId and dependsOn (Epic ID) are required.");
+                                result = await service.removeEpicDependency(epicId, dependsOn);
+                                break;
+                            }
+                            case 'addFileToEpic': {
+                                if (!epicId || !filePath) throw new Error("epicId and filePath are required for addFileToEpic");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
                         
-                        // Check if file already exists
-                        if (epic.files.some(f => f.filePath === filePath)) {
-                            result = { success: true, message: `File ${filePath} already associated with Epic ${epicId}.` };
-                            break;
-                        }
+                                // Check if file already exists
+                                if (epic.files.some(f => f.filePath === filePath)) {
+                                    result = { success: true, message: `File ${filePath} already associated with Epic ${epicId}.` };
+                                    break;
+                                }
                         
-                        const newFile: AssociatedFile = {
-                            filePath,
-                            description: fileDescription,
-                            addedAt: new Date().toISOString()
-                        };
+                                const newFile: AssociatedFile = {
+                                    filePath,
+                                    description: fileDescription,
+                                    addedAt: new Date().toISOString()
+                                };
                         
-                        epic.files.push(newFile);
-                        const success = updateEpicStore(epicId, epic);
-                        if (success) {
-                            await saveEpics();
-                            result = { success: true, message: `File ${filePath} added to Epic ${epicId}.` };
-                        } else {
-                            throw new Error(`Failed to add file to Epic ${epicId}.`);
-                        }
-                        break;
-                    }
+                                epic.files.push(newFile);
+                                const success = await service.updateEpic(epicId, epic) !== undefined;
+                                if (success) {
+                                    await service.saveAll();
+                                    result = { success: true, message: `File ${filePath} added to Epic ${epicId}.` };
+                                } else {
+                                    throw new Error(`Failed to add file to Epic ${epicId}.`);
+                                }
+                                break;
+                            }
                     
-                    case 'removeFileFromEpic': {
-                        if (!epicId || !filePath) throw new Error("epicId and filePath are required for removeFileFromEpic");
-                        const epic = getEpicById(epicId);
-                        if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                            case 'removeFileFromEpic': {
+                                if (!epicId || !filePath) throw new Error("epicId and filePath are required for removeFileFromEpic");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
                         
-                        const initialLength = epic.files.length;
-                        epic.files = epic.files.filter(f => f.filePath !== filePath);
+                                const initialLength = epic.files.length;
+                                epic.files = epic.files.filter(f => f.filePath !== filePath);
                         
-                        if (epic.files.length < initialLength) {
-                            const success = updateEpicStore(epicId, epic);
-                            if (success) {
-                                await saveEpics();
-                                result = { success: true, message: `File ${filePath} removed from Epic ${epicId}.` };
-                            } else {
-                                throw new Error(`Failed to update Epic ${epicId}.`);
+                                if (epic.files.length < initialLength) {
+                                    const success = await service.updateEpic(epicId, epic) !== undefined;
+                                    if (success) {
+                                        await service.saveAll();
+                                        result = { success: true, message: `File ${filePath} removed from Epic ${epicId}.` };
+                                    } else {
+                                        throw new Error(`Failed to update Epic ${epicId}.`);
+                                    }
+                                } else {
+                                    result = { success: true, message: `File ${filePath} not found in Epic ${epicId}.` };
+                                }
+                                break;
                             }
-                        } else {
-                            result = { success: true, message: `File ${filePath} not found in Epic ${epicId}.` };
-                        }
-                        break;
-                    }
                     
-                    case 'addFileToTask': {
-                        if (!epicId || !taskId || !filePath) throw new Error("epicId, taskId, and filePath are required for addFileToTask");
-                        const epic = getEpicById(epicId);
-                        if (!epic) throw new Error(`Epic ${epicId} not found.`);
-                        const taskIndex = epic.tasks.findIndex(t => t.id === taskId);
-                        if (taskIndex === -1) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
+                            case 'addFileToTask': {
+                                if (!epicId || !taskId || !filePath) throw new Error("epicId, taskId, and filePath are required for addFileToTask");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                const taskIndex = epic.tasks.findIndex(t => t.id === taskId);
+                                if (taskIndex === -1) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
                         
-                        // Check if file already exists
-                        if (epic.tasks[taskIndex].files.some(f => f.filePath === filePath)) {
-                            result = { success: true, message: `File ${filePath} already associated with Task ${taskId}.` };
-                            break;
-                        }
+                                // Check if file already exists
+                                if (epic.tasks[taskIndex].files.some(f => f.filePath === filePath)) {
+                                    result = { success: true, message: `File ${filePath} already associated with Task ${taskId}.` };
+                                    break;
+                                }
                         
-                        const newFile: AssociatedFile = {
-                            filePath,
-                            description: fileDescription,
-                            addedAt: new Date().toISOString()
-                        };
+                                const newFile: AssociatedFile = {
+                                    filePath,
+                                    description: fileDescription,
+                                    addedAt: new Date().toISOString()
+                                };
                         
-                        epic.tasks[taskIndex].files.push(newFile);
-                        const success = updateEpicStore(epicId, epic);
-                        if (success) {
-                            await saveEpics();
-                            result = { success: true, message: `File ${filePath} added to Task ${taskId}.` };
-                        } else {
-                            throw new Error(`Failed to add file to Task ${taskId}.`);
-                        }
-                        break;
-                    }
+                                epic.tasks[taskIndex].files.push(newFile);
+                                const success = await service.updateEpic(epicId, epic) !== undefined;
+                                if (success) {
+                                    await service.saveAll();
+                                    result = { success: true, message: `File ${filePath} added to Task ${taskId}.` };
+                                } else {
+                                    throw new Error(`Failed to add file to Task ${taskId}.`);
+                                }
+                                break;
+                            }
                     
-                    case 'removeFileFromTask': {
-                        if (!epicId || !taskId || !filePath) throw new Error("epicId, taskId, and filePath are required for removeFileFromTask");
-                        const epic = getEpicById(epicId);
-                        if (!epic) throw new Error(`Epic ${epicId} not found.`);
-                        const taskIndex = epic.tasks.findIndex(t => t.id === taskId);
-                        if (taskIndex === -1) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
+                            case 'removeFileFromTask': {
+                                if (!epicId || !taskId || !filePath) throw new Error("epicId, taskId, and filePath are required for removeFileFromTask");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                const taskIndex = epic.tasks.findIndex(t => t.id === taskId);
+                                if (taskIndex === -1) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
                         
-                        const initialLength = epic.tasks[taskIndex].files.length;
-                        epic.tasks[taskIndex].files = epic.tasks[taskIndex].files.filter(f => f.filePath !== filePath);
+                                const initialLength = epic.tasks[taskIndex].files.length;
+                                epic.tasks[taskIndex].files = epic.tasks[taskIndex].files.filter(f => f.filePath !== filePath);
                         
-                        if (epic.tasks[taskIndex].files.length < initialLength) {
-                            const success = updateEpicStore(epicId, epic);
-                            if (success) {
-                                await saveEpics();
-                                result = { success: true, message: `File ${filePath} removed from Task ${taskId}.` };
-                            } else {
-                                throw new Error(`Failed to update Task ${taskId}.`);
+                                if (epic.tasks[taskIndex].files.length < initialLength) {
+                                    const success = await service.updateEpic(epicId, epic) !== undefined;
+                                    if (success) {
+                                        await service.saveAll();
+                                        result = { success: true, message: `File ${filePath} removed from Task ${taskId}.` };
+                                    } else {
+                                        throw new Error(`Failed to update Task ${taskId}.`);
+                                    }
+                                } else {
+                                    result = { success: true, message: `File ${filePath} not found in Task ${taskId}.` };
+                                }
+                                break;
                             }
-                        } else {
-                            result = { success: true, message: `File ${filePath} not found in Task ${taskId}.` };
-                        }
-                        break;
-                    }
 
-                    // --- Task Actions --- 
-                    case 'createTask': {
-                        if (!epicId || !description) throw new Error("epicId and description are required for createTask");
-                        const epic = getEpicById(epicId);
-                        if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                            // --- Task Actions --- 
+                            case 'createTask': {
+                                if (!epicId || !description) throw new Error("epicId and description are required for createTask");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
                         
-                        const now = new Date().toISOString();
-                        const newTask: Task = {
-                            id: uuidv4(),
-                            description,
-                            status: 'todo',
-                            priority: priority || undefined,
-                            createdAt: now,
-                            updatedAt: now,
-                            files: [],
-                            subtasks: [],
-                            complexity: complexity || undefined,
-                            // ... other fields
-                        };
-                        epic.tasks.push(newTask);
-                        const success = updateEpicStore(epicId, epic);
-                        if (success) {
-                             await saveEpics();
-                             result = { success: true, message: `Task added to Epic ${epicId} with ID ${newTask.id}.` };
-                        } else {
-                             throw new Error(`Failed to add Task to Epic ${epicId}.`);
-                        }
-                        break;
-                    }
-                    case 'updateTask': { 
-                        if (!epicId || !taskId) throw new Error("epicId and taskId are required for updateTask");
-                        const epic = getEpicById(epicId);
-                        if (!epic) throw new Error(`Epic ${epicId} not found.`);
-                        const taskIndex = epic.tasks.findIndex(t => t.id === taskId);
-                        if (taskIndex === -1) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
+                                const now = new Date().toISOString();
+                                const newTask: Task = {
+                                    id: uuidv4(),
+                                    description,
+                                    status: 'todo',
+                                    priority: priority || undefined,
+                                    createdAt: now,
+                                    updatedAt: now,
+                                    files: [],
+                                    subtasks: [],
+                                    complexity: complexity || undefined,
+                                    ...getPlanningUpdates(params)
+                                };
+                                validateItemDates(newTask, 'The new Task');
+                                epic.tasks.push(newTask);
+                                const success = await service.updateEpic(epicId, epic) !== undefined;
+                                if (success) {
+                                     await service.saveAll();
+                                     result = { success: true, message: `Task added to Epic ${epicId} with ID ${newTask.id}.` };
+                                } else {
+                                     throw new Error(`Failed to add Task to Epic ${epicId}.`);
+                                }
+                                break;
+                            }
+                            case 'updateTask': { 
+                                if (!epicId || !taskId) throw new Error("epicId and taskId are required for updateTask");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                const taskIndex = epic.tasks.findIndex(t => t.id === taskId);
+                                if (taskIndex === -1) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
                         
-                        const updates: Partial<Task> = {};
-                        if (description) updates.description = description;
-                        if (status) updates.status = status as Status;
-                        if (priority) updates.priority = priority;
-                        if (complexity) updates.complexity = complexity;
-                        // ... other updatable fields ...
+                                const updates: Partial<Task> = getPlanningUpdates(params);
+                                if (description) updates.description = description;
+                                if (status) updates.status = status as Status;
+                                if (priority) updates.priority = priority;
+                                if (complexity) updates.complexity = complexity;
 
-                        if (Object.keys(updates).length === 0) {
-                             result = { success: true, message: `No update parameters provided for Task ${taskId}.` };
-                             break;
-                        }
+                                if (Object.keys(updates).length === 0) {
+                                     result = { success: true, message: `No update parameters provided for Task ${taskId}.` };
+                                     break;
+                                }
                         
-                        // Check if completing without files
-                        if (requireFileAssociation && status === 'done' && 
-                            epic.tasks[taskIndex].status !== 'done' && 
-                            (!epic.tasks[taskIndex].files || epic.tasks[taskIndex].files.length === 0)) {
-                            throw new Error(`Cannot mark Task ${taskId} as complete without associated files. Add files first using addFileToTask.`);
-                        }
+                                // Check if completing without files
+                                if (requireFileAssociation && status === 'done' && 
+                                    epic.tasks[taskIndex].status !== 'done' && 
+                                    (!epic.tasks[taskIndex].files || epic.tasks[taskIndex].files.length === 0)) {
+                                    throw new Error(`Cannot mark Task ${taskId} as complete without associated files. Add files first using addFileToTask.`);
+                                }
 
-                        const updatedTask = { ...epic.tasks[taskIndex], ...updates, updatedAt: new Date().toISOString() };
-                        epic.tasks[taskIndex] = updatedTask;
-                        const success = updateEpicStore(epicId, epic);
-                         if (success) {
-                             await saveEpics();
-                             result = { success: true, message: `Task ${taskId} updated.` };
-                        } else {
-                             throw new Error(`Failed to update Task ${taskId}.`);
-                        }
-                        break;
-                    }
-                     case 'deleteTask': {
-                        if (!epicId || !taskId) throw new Error("epicId and taskId are required for deleteTask");
-                        const epic = getEpicById(epicId);
-                        if (!epic) throw new Error(`Epic ${epicId} not found.`);
-                        const initialLength = epic.tasks.length;
-                        epic.tasks = epic.tasks.filter(t => t.id !== taskId);
-                         if (epic.tasks.length < initialLength) {
-                             updateEpicStore(epicId, epic);
-                             await saveEpics();
-                             result = { success: true, message: `Task ${taskId} deleted from Epic ${epicId}.` };
-                        } else {
-                             throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
-                        }
-                        break;
-                    }
-                    // ... Implement addTaskDependency, removeTaskDependency, addFileToTask, removeFileFromTask ...
+                                const updatedTask = { ...epic.tasks[taskIndex], ...updates, updatedAt: new Date().toISOString() };
+                                if (updates.assignee !== undefined && updatedTask.leaseExpiresAt) {
+                                    // The lease holder keeps the Task; the new assignee takes over when the lease ends
+                                    updatedTask.plannedAssignee = updates.assignee;
+                                    updatedTask.assignee = epic.tasks[taskIndex].assignee;
+                                }
+                                validateItemDates(updatedTask, `Task ${taskId}`);
+                                if (updatedTask.status === 'done') {
+                                    endLease(updatedTask); // Finished work needs no claim
+                                    endAllSessions(updatedTask, 'Task completed');
+                                }
+                                epic.tasks[taskIndex] = updatedTask;
+                                const success = await service.updateEpic(epicId, epic) !== undefined;
+                                 if (success) {
+                                     await service.saveAll();
+                                     result = { success: true, message: `Task ${taskId} updated.` };
+                                } else {
+                                     throw new Error(`Failed to update Task ${taskId}.`);
+                                }
+                                break;
+                            }
+                            case 'releaseTask':
+                            case 'renewLease': {
+                                if (!epicId || !taskId) throw new Error(`epicId and taskId are required for ${action}`);
+                                if (action === 'renewLease' && !agentId) throw new Error("agentId is required for renewLease");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                const task = epic.tasks.find(t => t.id === taskId);
+                                if (!task) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
+
+                                // Both throw TaskLeaseConflictError if another agent holds the lease
+                                if (action === 'renewLease') {
+                                    renewLease(task, agentId!, leaseMinutes);
+                                } else {
+                                    const holder = task.assignee;
+                                    releaseLease(task, agentId);
+                                    endSession(task, agentId ?? holder, 'Task released');
+                                }
+                                const success = await service.updateEpic(epicId, epic) !== undefined;
+                                if (success) {
+                                    await service.saveAll();
+                                    result = action === 'renewLease'
+                                        ? { success: true, message: `Lease on Task ${taskId} renewed for ${agentId} until ${task.leaseExpiresAt}.` }
+                                        : { success: true, message: `Task ${taskId} released; other agents can pick it up now.` };
+                                } else {
+                                    throw new Error(`Failed to update the lease on Task ${taskId}.`);
+                                }
+                                break;
+                            }
+                            case 'addWorkLog':
+                            case 'startSession':
+                            case 'endSession': {
+                                if (!epicId || !taskId) throw new Error(`epicId and taskId are required for ${action}`);
+                                if (action === 'addWorkLog' && !message) throw new Error("message is required for addWorkLog");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                const task = epic.tasks.find(t => t.id === taskId);
+                                if (!task) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
+
+                                const agentText = agentId ? ` for ${agentId}` : '';
+                                if (action === 'addWorkLog') {
+                                    appendWorkLogEntry(task, logType, { message, agentId });
+                                } else if (action === 'startSession' && !startSession(task, agentId, message)) {
+                                    result = { success: true, message: `A session${agentText} is already open on Task ${taskId}.` };
+                                    break;
+                                } else if (action === 'endSession' && !endSession(task, agentId, message)) {
+                                    throw new Error(`No open session${agentText} on Task ${taskId}.`);
+                                }
+                                task.updatedAt = new Date().toISOString();
+                                const success = await service.updateEpic(epicId, epic) !== undefined;
+                                if (success) {
+                                    await service.saveAll();
+                                    const elapsed = formatDuration(getElapsedTime(task));
+                                    result = action === 'addWorkLog'
+                                        ? { success: true, message: `Added ${logType} to the work log of Task ${taskId}.` }
+                                        : { success: true, message: `Session${agentText} ${action === 'startSession' ? 'started' : 'ended'} on Task ${taskId}. Time logged: ${elapsed}.` };
+                                } else {
+                                    throw new Error(`Failed to update the work log of Task ${taskId}.`);
+                                }
+                                break;
+                            }
+                             case 'deleteTask': {
+                                if (!epicId || !taskId) throw new Error("epicId and taskId are required for deleteTask");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                 if (await service.trashTask(epicId, taskId)) {
+                                     await service.saveAll();
+                                     const warning = await getTrashedDependencyWarning(service, [taskId]);
+                                     result = { success: true, message: `Task ${taskId} moved from Epic ${epicId} to the trash.${warning}` };
+                                } else {
+                                     throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
+                                }
+                                break;
+                            }
+                            case 'addTaskDependency': {
+                                if (!epicId || !taskId || !dependsOn) throw new Error("epicId, taskId, and dependsOn (Task or Epic ID) are required.");
+                                // Rejects missing items, self-dependencies and cycles
+                                result = await service.addTaskDependency(epicId, taskId, dependsOn);
+                                break;
+                            }
+                            case 'removeTaskDependency': {
+                                if (!epicId || !taskId || !dependsOn) throw new Error("epicId, taskId, and dependsOn (Task or Epic ID) are required.");
+                                result = await service.removeTaskDependency(epicId, taskId, dependsOn);
+                                break;
+                            }
+
+                            // --- Subtask Actions --- 
+                            case 'createSubtask': {
+                                if (!epicId || !taskId || !description) throw new Error("epicId, taskId, and description are required for createSubtask");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                const task = epic.tasks.find(t => t.id === taskId);
+                                if (!task) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
 
-                    // --- Subtask Actions --- 
-                    case 'createSubtask': {
-                        if (!epicId || !taskId || !description) throw new Error("epicId, taskId, and description are required for createSubtask");
-                        const epic = getEpicById(epicId);
-                        if (!epic) throw new Error(`Epic ${epicId} not found.`);
-                        const task = epic.tasks.find(t => t.id === taskId);
-                        if (!task) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
+                                // Nest under another Subtask of the Task if requested, within the Epic's maxDepth
+                                let siblings = task.subtasks;
+                                let level = SUBTASK_LEVEL;
+                                if (parentSubtaskId) {
+                                    const parent = findSubtask(task.subtasks, parentSubtaskId);
+                                    if (!parent) throw new Error(`Subtask ${parentSubtaskId} not found in Task ${taskId}.`);
+                                    siblings = parent.subtask.subtasks;
+                                    level = parent.level + 1;
+                                }
+                                assertWithinMaxDepth(epic, level);
                         
-                        const now = new Date().toISOString();
-                        const newSubtask: Subtask = {
-                            id: uuidv4(),
-                            description,
-                            status: 'todo', // Subtasks start as todo
-                            createdAt: now
-                        };
-                        task.subtasks.push(newSubtask);
-                        const success = updateEpicStore(epicId, epic);
-                         if (success) {
-                             await saveEpics();
-                             result = { success: true, message: `Subtask added to Task ${taskId} with ID ${newSubtask.id}.` };
-                        } else {
-                             throw new Error(`Failed to add Subtask to Task ${taskId}.`);
-                        }
-                        break;
-                    }
-                    case 'updateSubtask': { 
-                        if (!epicId || !taskId || !subtaskId) throw new Error("epicId, taskId, and subtaskId are required for updateSubtask");
-                        const epic = getEpicById(epicId);
-                        if (!epic) throw new Error(`Epic ${epicId} not found.`);
-                        const task = epic.tasks.find(t => t.id === taskId);
-                        if (!task) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
-                        const subtaskIndex = task.subtasks.findIndex(s => s.id === subtaskId);
-                        if (subtaskIndex === -1) throw new Error(`Subtask ${subtaskId} not found in Task ${taskId}.`);
+                                const now = new Date().toISOString();
+                                const newSubtask: Subtask = {
+                                    id: uuidv4(),
+                                    description,
+                                    status: 'todo', // Subtasks start as todo
+                                    priority: priority || undefined,
+                                    complexity: complexity || undefined,
+                                    createdAt: now,
+                                    updatedAt: now,
+                                    files: [],
+                                    tags: tags ? normalizeTags(tags) : undefined,
+                                    subtasks: []
+                                };
+                                siblings.push(newSubtask);
+                                const success = await service.updateEpic(epicId, epic) !== undefined;
+                                 if (success) {
+                                     await service.saveAll();
+                                     const parentText = parentSubtaskId ? `Subtask ${parentSubtaskId}` : `Task ${taskId}`;
+                                     result = { success: true, message: `Subtask added to ${parentText} with ID ${newSubtask.id}.` };
+                                } else {
+                                     throw new Error(`Failed to add Subtask to Task ${taskId}.`);
+                                }
+                                break;
+                            }
+                            case 'updateSubtask': { 
+                                if (!epicId || !taskId || !subtaskId) throw new Error("epicId, taskId, and subtaskId are required for updateSubtask");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                const task = epic.tasks.find(t => t.id === taskId);
+                                if (!task) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
+                                const location = findSubtask(task.subtasks, subtaskId);
+                                if (!location) throw new Error(`Subtask ${subtaskId} not found in Task ${taskId}.`);
                         
-                        const updates: Partial<Subtask> = {};
-                        if (description) updates.description = description;
-                        if (subtaskStatus) updates.status = subtaskStatus; 
+                                const updates: Partial<Subtask> = {};
+                                if (description) updates.description = description;
+                                if (subtaskStatus) updates.status = subtaskStatus; 
+                                if (priority) updates.priority = priority;
+                                if (complexity) updates.complexity = complexity;
+                                if (tags !== undefined) updates.tags = normalizeTags(tags);
 
-                        if (Object.keys(updates).length === 0) {
-                             result = { success: true, message: `No update parameters provided for Subtask ${subtaskId}.` };
-                             break;
-                        }
+                                if (Object.keys(updates).length === 0) {
+                                     result = { success: true, message: `No update parameters provided for Subtask ${subtaskId}.` };
+                                     break;
+                                }
+
+                                Object.assign(location.subtask, updates, { updatedAt: new Date().toISOString() });
+                                const success = await service.updateEpic(epicId, epic) !== undefined;
+                                 if (success) {
+                                     await service.saveAll();
+                                     result = { success: true, message: `Subtask ${subtaskId} updated.` };
+                                } else {
+                                     throw new Error(`Failed to update Subtask ${subtaskId}.`);
+                                }
+                                break;
+                            }
+                             case 'deleteSubtask': {
+                                if (!epicId || !taskId || !subtaskId) throw new Error("epicId, taskId, and subtaskId are required for deleteSubtask");
+                                 const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                const task = epic.tasks.find(t => t.id === taskId);
+                                if (!task) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
+                                // Removes the Subtask together with everything nested under it
+                                 if (await service.trashSubtask(epicId, taskId, subtaskId)) {
+                                     await service.saveAll();
+                                     result = { success: true, message: `Subtask ${subtaskId} moved from Task ${taskId} to the trash.` };
+                                } else {
+                                     throw new Error(`Subtask ${subtaskId} not found in Task ${taskId}.`);
+                                }
+                                break;
+                            }
+                            case 'addFileToSubtask': {
+                                if (!epicId || !taskId || !subtaskId || !filePath) throw new Error("epicId, taskId, subtaskId, and filePath are required for addFileToSubtask");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                const task = epic.tasks.find(t => t.id === taskId);
+                                if (!task) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
+                                const location = findSubtask(task.subtasks, subtaskId);
+                                if (!location) throw new Error(`Subtask ${subtaskId} not found in Task ${taskId}.`);
+
+                                if (location.subtask.files.some(f => f.filePath === filePath)) {
+                                    result = { success: true, message: `File ${filePath} already associated with Subtask ${subtaskId}.` };
+                                    break;
+                                }
+
+                                location.subtask.files.push({
+                                    filePath,
+                                    description: fileDescription,
+                                    addedAt: new Date().toISOString()
+                                });
+                                const success = await service.updateEpic(epicId, epic) !== undefined;
+                                if (success) {
+                                    await service.saveAll();
+                                    result = { success: true, message: `File ${filePath} added to Subtask ${subtaskId}.` };
+                                } else {
+                                    throw new Error(`Failed to add file to Subtask ${subtaskId}.`);
+                                }
+                                break;
+                            }
+                            case 'removeFileFromSubtask': {
+                                if (!epicId || !taskId || !subtaskId || !filePath) throw new Error("epicId, taskId, subtaskId, and filePath are required for removeFileFromSubtask");
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
+                                const task = epic.tasks.find(t => t.id === taskId);
+                                if (!task) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
+                                const location = findSubtask(task.subtasks, subtaskId);
+                                if (!location) throw new Error(`Subtask ${subtaskId} not found in Task ${taskId}.`);
+
+                                const initialLength = location.subtask.files.length;
+                                location.subtask.files = location.subtask.files.filter(f => f.filePath !== filePath);
+
+                                if (location.subtask.files.length < initialLength) {
+                                    const success = await service.updateEpic(epicId, epic) !== undefined;
+                                    if (success) {
+                                        await service.saveAll();
+                                        result = { success: true, message: `File ${filePath} removed from Subtask ${subtaskId}.` };
+                                    } else {
+                                        throw new Error(`Failed to update Subtask ${subtaskId}.`);
+                                    }
+                                } else {
+                                    result = { success: true, message: `File ${filePath} not found in Subtask ${subtaskId}.` };
+                                }
+                                break;
+                            }
 
-                        const updatedSubtask = { ...task.subtasks[subtaskIndex], ...updates };
-                        task.subtasks[subtaskIndex] = updatedSubtask;
-                        const success = updateEpicStore(epicId, epic);
-                         if (success) {
-                             await saveEpics();
-                             result = { success: true, message: `Subtask ${subtaskId} updated.` };
-                        } else {
-                             throw new Error(`Failed to update Subtask ${subtaskId}.`);
+                            // --- Tag Actions ---
+                            case 'addTags':
+                            case 'removeTags': {
+                                if (!epicId || !tags || tags.length === 0) throw new Error(`epicId and tags are required for ${action}`);
+                                const epic = await service.getEpicById(epicId);
+                                if (!epic) throw new Error(`Epic ${epicId} not found.`);
+
+                                // The most specific ID given picks the item
+                                let target: Epic | Task | Subtask = epic;
+                                let label = `Epic ${epicId}`;
+                                if (taskId) {
+                                    const task = epic.tasks.find(t => t.id === taskId);
+                                    if (!task) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
+                                    target = task;
+                                    label = `Task ${taskId}`;
+                                    if (subtaskId) {
+                                        const location = findSubtask(task.subtasks, subtaskId);
+                                        if (!location) throw new Error(`Subtask ${subtaskId} not found in Task ${taskId}.`);
+                                        target = location.subtask;
+                                        label = `Subtask ${subtaskId}`;
+                                    }
+                                } else if (subtaskId) {
+                                    throw new Error(`taskId is required to tag Subtask ${subtaskId}`);
+                                }
+
+                                const changed = action === 'addTags' ? addTags(target, tags) : removeTags(target, tags);
+                                if (changed.length === 0) {
+                                    result = { success: true, message: `${label} already ${action === 'addTags' ? 'has' : 'lacks'} those tags. Tags: ${target.tags?.join(', ') || '(none)'}.` };
+                                    break;
+                                }
+                                target.updatedAt = new Date().toISOString();
+                                const success = await service.updateEpic(epicId, epic) !== undefined;
+                                if (success) {
+                                    await service.saveAll();
+                                    const verb = action === 'addTags' ? 'Added' : 'Removed';
+                                    result = { success: true, message: `${verb} ${changed.join(', ')} ${action === 'addTags' ? 'to' : 'from'} ${label}. Tags: ${target.tags?.join(', ') || '(none)'}.` };
+                                } else {
+                                    throw new Error(`Failed to update the tags of ${label}.`);
+                                }
+                                break;
+                            }
+
+                            // --- Trash Actions ---
+                            case 'listTrash': {
+                                const entries = await service.getTrash();
+                                if (entries.length === 0) {
+                                    result = { success: true, message: "The trash is empty." };
+                                    break;
+                                }
+                                const trashList = entries.slice().reverse().map(entry => {
+                                    const contents = entry.kind === 'Epic' ? ` (${entry.item.tasks.length} tasks)`
+                                        : entry.kind === 'Task' ? ` (${countSubtasks(entry.item.subtasks ?? []).total} subtasks)` : '';
+                                    const from = entry.kind === 'Task' ? ` from Epic ${entry.epicId.substring(0,8)}`
+                                        : entry.kind === 'Subtask' ? ` from Task ${entry.taskId.substring(0,8)}` : '';
+                                    return `- ${entry.item.id} ${entry.kind}${contents}${from}, deleted ${entry.deletedAt}: ${entry.item.description.split('\n')[0]}`;
+                                }).join('\n');
+                                result = { success: true, message: `Trash (newest first):\n${trashList}\n\nRestore an item with action=restore itemId=..., or delete it for good with action=purge itemId=...` };
+                                break;
+                            }
+                            case 'restore': {
+                                if (!itemId) throw new Error("itemId is required for restore");
+                                result = await service.restoreFromTrash(itemId);
+                                break;
+                            }
+                            case 'purge': {
+                                const purged = await service.purgeTrash(itemId);
+                                if (itemId && purged === 0) throw new Error(`${itemId} is not in the trash.`);
+                                result = { success: true, message: itemId ? `${itemId} permanently deleted.` : `Emptied the trash (${purged} item(s) permanently deleted).` };
+                                break;
+                            }
                         }
-                        break;
-                    }
-                     case 'deleteSubtask': {
-                        if (!epicId || !taskId || !subtaskId) throw new Error("epicId, taskId, and subtaskId are required for deleteSubtask");
-                         const epic = getEpicById(epicId);
-                        if (!epic) throw new Error(`Epic ${epicId} not found.`);
-                        const task = epic.tasks.find(t => t.id === taskId);
-                        if (!task) throw new Error(`Task ${taskId} not found in Epic ${epicId}.`);
-                        const initialLength = task.subtasks.length;
-                        task.subtasks = task.subtasks.filter(s => s.id !== subtaskId);
-                         if (task.subtasks.length < initialLength) {
-                             updateEpicStore(epicId, epic);
-                             await saveEpics();
-                             result = { success: true, message: `Subtask ${subtaskId} deleted from Task ${taskId}.` };
-                        } else {
-                             throw new Error(`Subtask ${subtaskId} not found in Task ${taskId}.`);
+
+                        return createTextResponse(result.message, !result.success);
+                    } catch (error: any) {
+                        if (error instanceof EpicVersionConflictError) {
+                            return createTextResponse(`Conflict: ${error.message} Your changes were not saved. Reload the Epic (e.g. getEpicOverview) and retry the '${action}' action.`, true);
                         }
-                        break;
+                        return createTextResponse(`Error: ${error.message}`, true);
                     }
-                }
-
-                return createTextResponse(result.message, !result.success);
+                });
             } catch (error: any) {
                 return createTextResponse(`Error: ${error.message}`, true);
             }
@@ -0,0 +1,137 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { EpicServiceResolver } from "../../domain/task/services/EpicService.js";
+import type { Milestone } from "../../domain/task/entities/Milestone.js";
+import { getMilestoneProgress } from "../../domain/task/services/Milestones.js";
+import { toDay } from "../../domain/task/services/CalendarDays.js";
+import { descriptionSchema } from "../schemas/commonSchemas.js";
+
+const milestoneActionSchema = z.enum([
+    'list',         // Lists Milestones and Sprints with their progress
+    'create',
+    'update',       // Changes the name, description, kind or dates
+    'delete',       // Deletes the Milestone; its Epics and Tasks are kept
+    'addItems',     // Adds Epics and Tasks to the Milestone
+    'removeItems'
+]);
+
+const milestoneKindSchema = z.enum(['milestone', 'sprint']);
+const dateSchema = z.string().refine(value => !isNaN(Date.parse(value)), { message: "Expected an ISO date string" });
+
+const manageMilestonesSchema = z.object({
+    action: milestoneActionSchema.describe("Milestone action to perform (required)"),
+    basePath: z.string().describe("FULL directory path for storage (required, e.g., '/path/to/storage')"),
+    milestoneId: z.string().uuid().optional().describe("ID of the target Milestone or Sprint (for update, delete, addItems, removeItems)"),
+    kind: milestoneKindSchema.optional().describe("'milestone' or 'sprint'; Sprints can't overlap (for create, default: milestone; for update)"),
+    name: z.string().min(1).optional().describe("Name (required for create; for update)"),
+    description: descriptionSchema.optional().describe("Description (for create, update)"),
+    startDate: dateSchema.optional().describe("First day as an ISO date, e.g. 2025-06-02 (required for create; for update)"),
+    endDate: dateSchema.optional().describe("Last day as an ISO date, inclusive (required for create; for update)"),
+    itemIds: z.array(z.string().uuid()).optional().describe("Epic and Task IDs; a member Epic brings all its Tasks (for create, addItems, removeItems)")
+});
+
+type ManageMilestonesParams = z.infer<typeof manageMilestonesSchema>;
+
+// Upcoming, active or finished, relative to today
+function getTiming(milestone: Milestone): string {
+    const today = toDay(new Date());
+    if (today < milestone.startDate) return '🗓️ upcoming';
+    if (today > milestone.endDate) return '🏁 finished';
+    return '🏃 active';
+}
+
+export function registerManageMilestonesTool(server: McpServer, resolveEpicService: EpicServiceResolver): void {
+    server.tool(
+        "manageMilestones",
+        "Creates, updates and deletes Milestones and Sprints: named date ranges grouping Epics and Tasks across Epics. See their progress and burndown with getEpicOverview mode=milestoneProgress.",
+        {
+            action: milestoneActionSchema.describe("Milestone action to perform (required)"),
+            basePath: z.string().describe("FULL directory path for storage (required, e.g., '/path/to/storage')"),
+            milestoneId: z.string().uuid().optional().describe("ID of the target Milestone or Sprint (for update, delete, addItems, removeItems)"),
+            kind: milestoneKindSchema.optional().describe("'milestone' or 'sprint'; Sprints can't overlap (for create, default: milestone; for update)"),
+            name: z.string().min(1).optional().describe("Name (required for create; for update)"),
+            description: descriptionSchema.optional().describe("Description (for create, update)"),
+            startDate: dateSchema.optional().describe("First day as an ISO date, e.g. 2025-06-02 (required for create; for update)"),
+            endDate: dateSchema.optional().describe("Last day as an ISO date, inclusive (required for create; for update)"),
+            itemIds: z.array(z.string().uuid()).optional().describe("Epic and Task IDs; a member Epic brings all its Tasks (for create, addItems, removeItems)")
+        },
+        async (params: ManageMilestonesParams) => {
+            const { action, basePath, milestoneId, kind, name, description, startDate, endDate, itemIds } = params;
+
+            if (!basePath) {
+                return { content: [{ type: "text", text: "Error: 'basePath' parameter is required." }], isError: true };
+            }
+
+            try {
+                const service = await resolveEpicService(basePath);
+                return await service.withLock(async () => {
+                    await service.load();
+
+                    switch (action) {
+                        case 'list': {
+                            const milestones = await service.getMilestones();
+                            if (milestones.length === 0) {
+                                return { content: [{ type: "text", text: "No Milestones or Sprints yet. Create one with action=create." }] };
+                            }
+                            const allEpics = await service.getAllEpics();
+                            let output = `# 🚩 Milestones and Sprints\n\n`;
+                            for (const milestone of milestones) {
+                                const progress = getMilestoneProgress(milestone, allEpics);
+                                output += `- ${milestone.kind === 'sprint' ? '🏃 Sprint' : '🚩 Milestone'} **${milestone.name}** \`${milestone.id}\`\n`;
+                                output += `  - ${milestone.startDate} to ${milestone.endDate} (${getTiming(milestone)})`;
+                                output += ` — ${progress.doneTasks}/${progress.totalTasks} tasks done, ${progress.percentage}% of points\n`;
+                                output += `  - ${milestone.epicIds.length} Epic(s), ${milestone.taskIds.length} Task(s) added directly`;
+                                output += progress.missingIds.length > 0 ? `, ${progress.missingIds.length} no longer exist(s)\n` : `\n`;
+                            }
+                            output += `\nSee progress and burndown with getEpicOverview mode=milestoneProgress milestoneId=...\n`;
+                            return { content: [{ type: "text", text: output }] };
+                        }
+                        case 'create': {
+                            if (!name || !startDate || !endDate) throw new Error("name, startDate and endDate are required for create");
+                            const milestone = await service.createMilestone({ kind: kind ?? 'milestone', name, description, startDate, endDate, itemIds });
+                            const members = milestone.epicIds.length + milestone.taskIds.length;
+                            return { content: [{ type: "text", text: `✅ ${milestone.kind === 'sprint' ? 'Sprint' : 'Milestone'} "${milestone.name}" created with ID: ${milestone.id} (${milestone.startDate} to ${milestone.endDate}, ${members} item(s)).` }] };
+                        }
+                        case 'update': {
+                            if (!milestoneId) throw new Error("milestoneId is required for update");
+                            const updates: Partial<Pick<Milestone, 'kind' | 'name' | 'description' | 'startDate' | 'endDate'>> = {};
+                            if (kind) updates.kind = kind;
+                            if (name) updates.name = name;
+                            if (description !== undefined) updates.description = description;
+                            if (startDate) updates.startDate = startDate;
+                            if (endDate) updates.endDate = endDate;
+                            if (Object.keys(updates).length === 0) {
+                                return { content: [{ type: "text", text: `No update parameters provided for Milestone ${milestoneId}.` }] };
+                            }
+                            const milestone = await service.updateMilestone(milestoneId, updates);
+                            if (!milestone) throw new Error(`Milestone ${milestoneId} not found.`);
+                            return { content: [{ type: "text", text: `Milestone ${milestoneId} updated (${milestone.startDate} to ${milestone.endDate}).` }] };
+                        }
+                        case 'delete': {
+                            if (!milestoneId) throw new Error("milestoneId is required for delete");
+                            if (!await service.deleteMilestone(milestoneId)) throw new Error(`Milestone ${milestoneId} not found.`);
+                            return { content: [{ type: "text", text: `Milestone ${milestoneId} deleted. Its Epics and Tasks were kept.` }] };
+                        }
+                        case 'addItems':
+                        case 'removeItems': {
+                            if (!milestoneId || !itemIds || itemIds.length === 0) throw new Error(`milestoneId and itemIds are required for ${action}`);
+                            const result = await service.changeMilestoneMembers(milestoneId, action === 'addItems' ? 'add' : 'remove', itemIds);
+                            if (!result) throw new Error(`Milestone ${milestoneId} not found.`);
+                            const { milestone, changed } = result;
+                            const verb = action === 'addItems' ? 'Added' : 'Removed';
+                            const skipped = itemIds.length - changed.length;
+                            let message = `${verb} ${changed.length} item(s) ${action === 'addItems' ? 'to' : 'from'} "${milestone.name}".`;
+                            if (skipped > 0) {
+                                message += ` ${skipped} item(s) ${action === 'addItems' ? 'were already members' : 'were not members'}.`;
+                            }
+                            message += ` It now has ${milestone.epicIds.length} Epic(s) and ${milestone.taskIds.length} Task(s).`;
+                            return { content: [{ type: "text", text: message }] };
+                        }
+                    }
+                });
+            } catch (error: any) {
+                return { content: [{ type: "text", text: `Error managing milestones: ${error.message}` }], isError: true };
+            }
+        }
+    );
+}
@@ -6,16 +6,16 @@ import * as path from 'path';
 import { 
     configureStorage, 
     getStoragePath, 
-    getBaseDir, 
-    loadEpics, 
-    saveEpics, // Keep saveEpics if generateFiles needs to ensure data is flushed
-    getEpics,
-    getEpicFolder // Needed to structure output
+    getBaseDir,
+    getSchemaStatus
 } from "../../infrastructure/storage/TaskStorageService.js";
 import type { Epic, Task, Subtask, AssociatedFile } from "../../domain/task/entities/Task.js";
+import type { EpicServiceResolver } from "../../domain/task/services/EpicService.js";
+import { countSubtasks } from "../../domain/task/services/SubtaskTree.js";
+import { getElapsedTime, formatDuration } from "../../domain/task/services/WorkLog.js";
 
 // Actions now relate to Epic storage management
-const storageActionSchema = z.enum(['configure', 'getInfo', 'generateFiles']);
+const storageActionSchema = z.enum(['configure', 'getInfo', 'generateFiles', 'schemaInfo']);
 
 const manageTaskStorageSchema = z.object({
     action: storageActionSchema.describe("Storage action to perform (required)"),
@@ -82,18 +82,31 @@ function taskToMarkdown(task: Task, headingLevel: number): string {
         task.files.forEach(file => { md += `- ${file.filePath}${file.description ? ': '+file.description : ''}\n`; });
     }
     
+    if (task.workLog && task.workLog.length > 0) {
+        md += `\n#### Work Log (${formatDuration(getElapsedTime(task))} logged)\n`;
+        task.workLog.forEach(entry => { md += `- ${entry.createdAt} ${entry.type}${entry.agentId ? ` (${entry.agentId})` : ''}${entry.message ? ': '+entry.message : ''}\n`; });
+    }
+    
     if (task.subtasks && task.subtasks.length > 0) {
-        md += `\n#### Subtasks (${task.subtasks.length})\n\n`;
-        task.subtasks.forEach(subtask => {
-            md += `- [${subtask.status === 'done' ? 'x' : ' '}] ${subtask.description} (ID: ${subtask.id.substring(0,8)})\n`;
-        });
+        md += `\n#### Subtasks (${countSubtasks(task.subtasks).total})\n\n`;
+        md += subtasksToMarkdown(task.subtasks, '');
          md += `\n`;
     }
 
     return md;
 }
 
-export function registerManageTaskStorageTool(server: McpServer): void {
+// Nested subtasks are indented below their parent
+function subtasksToMarkdown(subtasks: Subtask[], indent: string): string {
+    let md = '';
+    subtasks.forEach(subtask => {
+        md += `${indent}- [${subtask.status === 'done' ? 'x' : ' '}] ${subtask.description} (ID: ${subtask.id.substring(0,8)})\n`;
+        md += subtasksToMarkdown(subtask.subtasks ?? [], indent + '  ');
+    });
+    return md;
+}
+
+export function registerManageTaskStorageTool(server: McpServer, resolveEpicService: EpicServiceResolver): void {
     server.tool(
         "manageItemStorage", // Renamed to reflect Epic focus
         "Manages storage configuration and export for Epics.",
@@ -120,6 +133,7 @@ export function registerManageTaskStorageTool(server: McpServer): void {
             }
 
             try {
+                const service = await resolveEpicService(basePath);
                 switch (action) {
                     case 'configure':
                         // Configuration now happens implicitly via basePath. This action confirms it.
@@ -127,8 +141,8 @@ export function registerManageTaskStorageTool(server: McpServer): void {
 
                     case 'getInfo':
                         try {
-                             await loadEpics(); // Ensure latest data is loaded
-                             const epics = getEpics();
+                             await service.load(); // Ensure latest data is loaded
+                             const epics = await service.getAllEpics();
                              const storagePath = getStoragePath();
                              const baseDir = getBaseDir();
                              return { content: [{ 
@@ -145,8 +159,8 @@ export function registerManageTaskStorageTool(server: McpServer): void {
                          }
 
                     case 'generateFiles':
-                        await loadEpics(); // Ensure we have the data
-                        const epicsToExport = getEpics();
+                        await service.load(); // Ensure we have the data
+                        const epicsToExport = await service.getAllEpics();
                         if (epicsToExport.length === 0) {
                             return { content: [{ type: "text", text: "No Epics found to export." }] };
                         }
@@ -178,6 +192,35 @@ export function registerManageTaskStorageTool(server: McpServer): void {
                             text: `Generated ${writtenFiles.length} Epic markdown files in the '${outputDirectory}' directory (inside ${basePath}):\n\n${writtenFiles.map(f => `- ${f}`).join('\n')}` 
                         }] };
 
+                    case 'schemaInfo': {
+                        // Reads the stored files as they are, so pending migrations show up before loading applies them
+                        const status = await getSchemaStatus();
+                        const versionCounts: Record<number, number> = {};
+                        for (const version of Object.values(status.epicVersions)) {
+                            versionCounts[version] = (versionCounts[version] || 0) + 1;
+                        }
+                        const outdated = Object.values(status.epicVersions).filter(v => v < status.currentVersion).length;
+                        const newer = Object.values(status.epicVersions).filter(v => v > status.currentVersion).length;
+
+                        let text = `Schema Info:\n- Current Schema Version: ${status.currentVersion}\n`;
+                        text += `- Stored Epics: ${Object.keys(status.epicVersions).length}`;
+                        const breakdown = Object.entries(versionCounts).map(([version, count]) => `v${version}: ${count}`).join(', ');
+                        text += breakdown ? ` (${breakdown})\n` : `\n`;
+                        if (status.unreadableEpicIds.length > 0) {
+                            text += `- Unreadable Epic files: ${status.unreadableEpicIds.join(', ')}\n`;
+                        }
+                        if (newer > 0) {
+                            text += `- ⚠️ ${newer} Epic(s) were written by a newer IntelliPlan version and cannot be loaded until you upgrade.\n`;
+                        }
+                        if (status.pendingMigrations.length === 0 || outdated === 0) {
+                            text += `- Pending Migrations: none`;
+                        } else {
+                            text += `- Pending Migrations (applied to ${outdated} Epic(s) on the next load, originals kept in the backups folder):\n`;
+                            text += status.pendingMigrations.map(m => `  - v${m.version}: ${m.description}`).join('\n');
+                        }
+                        return { content: [{ type: "text", text }] };
+                    }
+
                     default:
                          return { content: [{ type: "text", text: `Unknown storage action: ${action}` }], isError: true };
                 }
@@ -150,7 +150,7 @@ export function registerPlanEpicTool(server: McpServer): void {
 /**
  * Generates a prompt based on the step configuration
  */
-function generatePromptFromStepConfig(
+export function generatePromptFromStepConfig(
     stepConfig: PlanStep,
     description: string,
     basePath?: string,
@@ -486,7 +486,9 @@ function generateFinalizationPrompt(description: string, planSummary: string, ba
     prompt += `**Think About**: Is the plan comprehensive and feasible? Have we missed anything important?\n\n`;
     
     prompt += `**Next Step**:\n`;
-    prompt += `Your planning is complete! Now use the batchEpic tool to create the Epic structure with all the tasks and details you've defined.\n\n`;
+    prompt += `Your planning is complete! Now use the batchEpic tool to create the Epic structure with all the tasks and details you've defined.\n`;
+    prompt += `Give each task a \`key\` and list the keys of the tasks it depends on in its \`dependencies\`; batchEpic resolves them to the generated task IDs.\n`;
+    prompt += `Subtasks can hold their own nested \`subtasks\`; pass the same \`maxDepth\` you planned with so batchEpic enforces it.\n\n`;
     
     return prompt;
 } 
\ No newline at end of file
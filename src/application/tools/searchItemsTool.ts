@@ -0,0 +1,156 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { EpicServiceResolver } from "../../domain/task/services/EpicService.js";
+import type { Epic, Subtask, Task } from "../../domain/task/entities/Task.js";
+import { searchItems } from "../../domain/task/services/ItemSearch.js";
+import type { SearchField, SearchResult } from "../../domain/task/services/ItemSearch.js";
+import { complexitySchema, tagsSchema } from "../schemas/commonSchemas.js";
+
+const itemKindSchema = z.enum(['Epic', 'Task', 'Subtask']);
+const statusSchema = z.enum(['todo', 'in-progress', 'done']);
+const prioritySchema = z.enum(['low', 'medium', 'high']);
+const dateSchema = z.string().refine(value => !isNaN(Date.parse(value)), { message: "Expected an ISO date string" });
+
+const searchItemsSchema = z.object({
+    basePath: z.string().describe("FULL directory path for storage (required, e.g., '/path/to/storage')"),
+    query: z.string().optional().describe("Words to find in descriptions, details, implementation plans, test strategies, tags and file paths; every word must match. Use \"quotes\" for phrases"),
+    itemTypes: z.array(itemKindSchema).optional().describe("Only return these kinds of items (default: all)"),
+    epicId: z.string().uuid().optional().describe("Only search this Epic"),
+    statuses: z.array(statusSchema).optional().describe("Only return items with one of these statuses"),
+    priorities: z.array(prioritySchema).optional().describe("Only return items with one of these priorities"),
+    minComplexity: complexitySchema.describe("Minimum complexity score (1-10)"),
+    maxComplexity: complexitySchema.describe("Maximum complexity score (1-10)"),
+    tags: tagsSchema.describe("Only return items with all of these tags, including tags inherited from their Epic, Task or parent Subtask"),
+    hasFiles: z.boolean().optional().describe("Only return items with (true) or without (false) associated files"),
+    blocked: z.boolean().optional().describe("Only return items waiting for (true) or not waiting for (false) unfinished dependencies"),
+    updatedSince: dateSchema.optional().describe("Only return items updated on or after this ISO date"),
+    limit: z.number().int().positive().optional().default(20).describe("Maximum number of results (default: 20)")
+});
+
+type SearchItemsParams = z.infer<typeof searchItemsSchema>;
+
+const STATUS_EMOJIS = { done: '✅', 'in-progress': '🚧', todo: '⏳' };
+const PRIORITY_EMOJIS = { high: '🔴', medium: '🟠', low: '🟢' };
+
+function getTitle(item: { description: string }): string {
+    const title = item.description.split('\n')[0];
+    return title.length > 60 ? `${title.substring(0, 57)}...` : title;
+}
+
+// Epic › Task › Subtask chain above a result
+function getParentContext(result: SearchResult): string {
+    const parents: (Epic | Task | Subtask)[] = [];
+    if (result.kind !== 'Epic') parents.push(result.epic);
+    if (result.task) parents.push(result.task);
+    parents.push(...result.parents);
+    return parents.map(parent => `"${getTitle(parent)}" (${parent.id.substring(0, 8)})`).join(' › ');
+}
+
+// A short excerpt around the first query word found in a long text field
+function getSnippet(result: SearchResult, field: SearchField, query: string): string | undefined {
+    if (field === 'description' || field === 'tags') return undefined;
+    const item = result.item as Partial<Task>;
+    const text = field === 'files'
+        ? result.item.files.map(file => file.filePath).join(', ')
+        : item[field] ?? '';
+    const lower = text.toLowerCase();
+    const words = query.toLowerCase().replace(/"/g, '').split(/\s+/).filter(Boolean);
+    const index = Math.min(...words.map(word => lower.indexOf(word)).filter(i => i >= 0));
+    if (!isFinite(index)) return undefined;
+    const start = Math.max(0, index - 40);
+    const excerpt = text.substring(start, index + 80).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${excerpt}${index + 80 < text.length ? '…' : ''}`;
+}
+
+function formatResult(result: SearchResult, rank: number, query?: string): string {
+    const { item } = result;
+    const markers = [STATUS_EMOJIS[item.status], item.priority ? PRIORITY_EMOJIS[item.priority] : '', result.blocked && item.status !== 'done' ? '⛔ blocked' : '']
+        .filter(Boolean).join(' ');
+    let output = `${rank}. ${markers} **${result.kind}** "${getTitle(item)}" \`${item.id}\`\n`;
+
+    const details = [
+        item.complexity !== undefined ? `complexity ${item.complexity}` : '',
+        item.tags?.length ? `tags: ${item.tags.join(', ')}` : '',
+        item.files.length > 0 ? `${item.files.length} file(s)` : '',
+        `updated ${new Date(item.updatedAt ?? item.createdAt).toLocaleDateString()}`
+    ].filter(Boolean);
+    output += `   - ${details.join(' · ')}\n`;
+    if (result.kind !== 'Epic') {
+        output += `   - In: ${getParentContext(result)}\n`;
+    }
+    if (query && result.matchedFields.length > 0) {
+        output += `   - Matched: ${result.matchedFields.join(', ')} (score ${result.score})\n`;
+        for (const field of result.matchedFields) {
+            const snippet = getSnippet(result, field, query);
+            if (snippet) output += `     - ${field}: ${snippet}\n`;
+        }
+    }
+    return output;
+}
+
+export function registerSearchItemsTool(server: McpServer, resolveEpicService: EpicServiceResolver): void {
+    server.tool(
+        "searchItems",
+        "Searches Epics, Tasks and Subtasks across all Epics by text and by status, priority, complexity, tags, files, blockers and update date. Returns ranked results with their parent Epic and Task.",
+        {
+            basePath: z.string().describe("FULL directory path for storage (required, e.g., '/path/to/storage')"),
+            query: z.string().optional().describe("Words to find in descriptions, details, implementation plans, test strategies, tags and file paths; every word must match. Use \"quotes\" for phrases"),
+            itemTypes: z.array(itemKindSchema).optional().describe("Only return these kinds of items (default: all)"),
+            epicId: z.string().uuid().optional().describe("Only search this Epic"),
+            statuses: z.array(statusSchema).optional().describe("Only return items with one of these statuses"),
+            priorities: z.array(prioritySchema).optional().describe("Only return items with one of these priorities"),
+            minComplexity: complexitySchema.describe("Minimum complexity score (1-10)"),
+            maxComplexity: complexitySchema.describe("Maximum complexity score (1-10)"),
+            tags: tagsSchema.describe("Only return items with all of these tags, including tags inherited from their Epic, Task or parent Subtask"),
+            hasFiles: z.boolean().optional().describe("Only return items with (true) or without (false) associated files"),
+            blocked: z.boolean().optional().describe("Only return items waiting for (true) or not waiting for (false) unfinished dependencies"),
+            updatedSince: dateSchema.optional().describe("Only return items updated on or after this ISO date"),
+            limit: z.number().int().positive().optional().default(20).describe("Maximum number of results (default: 20)")
+        },
+        async (params: SearchItemsParams) => {
+            const { basePath, query, itemTypes, limit = 20, ...filters } = params;
+
+            if (!basePath) {
+                return { content: [{ type: "text", text: "Error: 'basePath' parameter is required." }], isError: true };
+            }
+            if (filters.minComplexity !== undefined && filters.maxComplexity !== undefined && filters.minComplexity > filters.maxComplexity) {
+                return { content: [{ type: "text", text: "Error: 'minComplexity' cannot be greater than 'maxComplexity'." }], isError: true };
+            }
+
+            let allEpics: Epic[];
+            try {
+                const service = await resolveEpicService(basePath);
+                await service.load();
+                allEpics = await service.getAllEpics();
+            } catch (error: any) {
+                return { content: [{ type: "text", text: `Error accessing storage: ${error.message}` }], isError: true };
+            }
+
+            if (filters.epicId && !allEpics.some(epic => epic.id === filters.epicId)) {
+                return { content: [{ type: "text", text: `Error: Epic with ID ${filters.epicId} not found.` }], isError: true };
+            }
+
+            const results = searchItems(allEpics, { ...filters, query: query?.trim() || undefined, kinds: itemTypes });
+
+            let output = `# 🔍 Search Results${query ? ` for "${query}"` : ''}\n\n`;
+            if (results.length === 0) {
+                output += "*No matching items found.* Try fewer words or filters.\n";
+                return { content: [{ type: "text", text: output }] };
+            }
+
+            const counts = (['Epic', 'Task', 'Subtask'] as const)
+                .map(kind => ({ kind, count: results.filter(r => r.kind === kind).length }))
+                .filter(({ count }) => count > 0)
+                .map(({ kind, count }) => `${count} ${kind}${count === 1 ? '' : 's'}`);
+            output += `Found ${results.length} item(s): ${counts.join(', ')}.`;
+            output += results.length > limit ? ` Showing the top ${limit}.\n\n` : '\n\n';
+
+            results.slice(0, limit).forEach((result, index) => {
+                output += formatResult(result, index + 1, query);
+            });
+
+            output += `\nOpen a result with executeItem epicId=... taskId=..., or see its Epic with getEpicOverview epicId=...\n`;
+            return { content: [{ type: "text", text: output }] };
+        }
+    );
+}
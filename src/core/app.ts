@@ -1,21 +1,30 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import * as path from 'path';
 import { FileEpicRepository } from "../infrastructure/persistence/FileEpicRepository.js";
 import { RemoteEpicRepository } from "../infrastructure/persistence/RemoteEpicRepository.js";
+import { SqliteEpicRepository } from "../infrastructure/persistence/SqliteEpicRepository.js";
+import { FileEpicHistoryRepository } from "../infrastructure/persistence/FileEpicHistoryRepository.js";
+import { FileTrashRepository } from "../infrastructure/persistence/FileTrashRepository.js";
+import { FileMilestoneRepository } from "../infrastructure/persistence/FileMilestoneRepository.js";
 import { EpicService } from "../domain/task/services/EpicService.js";
+import type { EpicChangeListener, EpicServiceResolver } from "../domain/task/services/EpicService.js";
 import { registerAllTools } from "../application/tools/index.js";
+import { registerAllResources } from "../application/resources/index.js";
+import { registerAllPrompts } from "../application/prompts/index.js";
+import { McpHttpServer } from "../infrastructure/api/mcpHttpServer.js";
 
 /**
  * Configuration options for the IntelliPlan app
  */
 export interface IntelliPlanConfig {
   /**
-   * Storage mode - local or remote
+   * Storage mode - local JSON files, remote API or a local SQLite database
    */
-  storageMode: 'local' | 'remote';
+  storageMode: 'local' | 'remote' | 'sqlite';
   
   /**
-   * Base directory for local storage (required for local mode)
+   * Base directory for local storage (required for local and sqlite modes)
    */
   localBasePath?: string;
   
@@ -28,31 +37,54 @@ export interface IntelliPlanConfig {
    * API key for remote storage (optional for remote mode)
    */
   remoteApiKey?: string;
+  
+  /**
+   * How clients connect - stdio serves the one client that started the process,
+   * http serves any number of clients over Streamable HTTP (defaults to stdio)
+   */
+  transport: 'stdio' | 'http';
+  
+  /**
+   * Port of the Streamable HTTP endpoint (optional for http transport, defaults to 3001)
+   */
+  httpPort?: number;
+  
+  /**
+   * Interface the Streamable HTTP endpoint listens on (optional, defaults to 127.0.0.1 so only local clients can connect)
+   */
+  httpHost?: string;
+  
+  /**
+   * Further host names clients may reach the Streamable HTTP endpoint by (optional, localhost and httpHost always work)
+   */
+  httpAllowedHosts?: string[];
+  
+  /**
+   * Origins of browser clients allowed to use the Streamable HTTP endpoint (optional, defaults to none)
+   */
+  httpAllowedOrigins?: string[];
 }
 
 /**
  * Main application class that sets up the MCP server and dependencies
  */
 export class IntelliPlanApp {
-  private server: McpServer;
-  private epicRepository: FileEpicRepository | RemoteEpicRepository;
+  private epicRepository: FileEpicRepository | RemoteEpicRepository | SqliteEpicRepository;
   private epicService: EpicService;
+  private sqliteRepositories = new Map<string, SqliteEpicRepository>();
   private config: IntelliPlanConfig;
+  // Notify the resource subscribers of each connected client
+  private resourceListeners = new Set<EpicChangeListener>();
   
   constructor(config?: Partial<IntelliPlanConfig>) {
     // Set default configuration
     this.config = {
       storageMode: 'local',
       localBasePath: process.cwd(),
+      transport: 'stdio',
       ...config
     };
     
-    // Create the server
-    this.server = new McpServer({
-      name: "IntelliPlan",
-      version: "1.0.0",
-    });
-    
     // Set up repository based on configuration
     if (this.config.storageMode === 'remote') {
       // Use default localhost URL if none provided
@@ -62,6 +94,11 @@ export class IntelliPlanApp {
         apiUrl,
         this.config.remoteApiKey
       );
+    } else if (this.config.storageMode === 'sqlite') {
+      const basePath = this.config.localBasePath || process.cwd();
+      console.error(`Using SQLite repository at ${basePath}`);
+      this.epicRepository = new SqliteEpicRepository(basePath);
+      this.sqliteRepositories.set(basePath, this.epicRepository);
     } else {
       // Default to local repository
       const basePath = this.config.localBasePath || process.cwd();
@@ -88,15 +125,19 @@ export class IntelliPlanApp {
         console.log("Note: Epic storage not initialized yet. Use manageItems tool (action: configure) to configure.");
       }
       
-      // Register tools and resources
-      registerAllTools(this.server);
-      
       // Set up graceful shutdown
       this.setupShutdownHandlers();
       
       // Connect the transport
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
+      if (this.config.transport === 'http') {
+        await new McpHttpServer(this.config.httpPort ?? 3001, () => this.createServer(), {
+          host: this.config.httpHost,
+          allowedHosts: this.config.httpAllowedHosts,
+          allowedOrigins: this.config.httpAllowedOrigins
+        }).start();
+      } else {
+        await this.createServer().connect(new StdioServerTransport());
+      }
       
       console.log("IntelliPlan server started.");
     } catch (error) {
@@ -105,6 +146,62 @@ export class IntelliPlanApp {
     }
   }
   
+  /**
+   * Creates an MCP server with all tools, resources and prompts registered.
+   * A server serves one client, so the http transport creates one per session; they share the storage.
+   */
+  private createServer(): McpServer {
+    const server = new McpServer({
+      name: "IntelliPlan",
+      version: "1.0.0",
+    });
+    
+    registerAllTools(server, this.resolveEpicService);
+    const notifyResourceChanges = registerAllResources(server, this.resolveEpicService, this.getResourceBasePath());
+    registerAllPrompts(server, this.resolveEpicService);
+    
+    // Stop notifying the client once it disconnects
+    this.resourceListeners.add(notifyResourceChanges);
+    server.server.onclose = () => this.resourceListeners.delete(notifyResourceChanges);
+    return server;
+  }
+  
+  /**
+   * Resolves the EpicService for the basePath a tool was called with.
+   * Remote mode always talks to the configured server, SQLite keeps one open database per
+   * basePath and local mode reads the JSON store under that basePath.
+   * In every mode the history journal, the trash and the Milestones are kept under that basePath.
+   * Services of the storage resources are read from tell the resource subscribers of every client about their changes.
+   */
+  private resolveEpicService: EpicServiceResolver = async (basePath: string) => {
+    const history = new FileEpicHistoryRepository(basePath);
+    const trash = new FileTrashRepository(basePath);
+    const milestones = new FileMilestoneRepository(basePath);
+    const sharesResourceStorage = this.config.storageMode === 'remote' || path.resolve(basePath) === path.resolve(this.getResourceBasePath());
+    const onChange: EpicChangeListener | undefined = sharesResourceStorage
+      ? changes => this.resourceListeners.forEach(notify => notify(changes))
+      : undefined;
+    if (this.config.storageMode === 'remote') {
+      return new EpicService(this.epicRepository, history, trash, milestones, onChange);
+    }
+    if (this.config.storageMode === 'sqlite') {
+      let repository = this.sqliteRepositories.get(basePath);
+      if (!repository) {
+        repository = new SqliteEpicRepository(basePath);
+        this.sqliteRepositories.set(basePath, repository);
+      }
+      return new EpicService(repository, history, trash, milestones, onChange);
+    }
+    return new EpicService(new FileEpicRepository(basePath), history, trash, milestones, onChange);
+  };
+  
+  /**
+   * Storage MCP resources are read from: the configured local base path, as tools have no say in it
+   */
+  private getResourceBasePath(): string {
+    return this.config.localBasePath || process.cwd();
+  }
+  
   /**
    * Set up handlers for shutdown signals
    */
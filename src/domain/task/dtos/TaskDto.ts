@@ -6,6 +6,7 @@ import {
   type Status,
   type Priority
 } from '../entities/Task.js';
+import { countSubtasks } from '../services/SubtaskTree.js';
 
 /**
  * Task Data Transfer Objects
@@ -52,16 +53,29 @@ export interface TaskDetailDto {
   dependents?: string[];
   testStrategy?: string;
   implementationPlan?: string;
+  tags?: string[];
+  details?: string;
+  startDate?: string;
+  dueDate?: string;
+  assignee?: string;
+  estimatedHours?: number;
+  storyPoints?: number;
+  leaseExpiresAt?: string;
 }
 
 /**
- * Subtask representation
+ * Subtask representation, including its nested Subtasks
  */
 export interface SubtaskDto {
   id: string;
   description: string;
-  status: 'todo' | 'done';
+  status: StatusDto;
+  priority?: PriorityDto;
+  complexity?: number;
   createdAt: string;
+  updatedAt?: string;
+  files: TaskFileDto[];
+  subtasks: SubtaskDto[];
 }
 
 /**
@@ -96,6 +110,13 @@ export interface UpdateTaskDto {
   status?: 'todo' | 'in-progress' | 'done';
   priority?: 'low' | 'medium' | 'high';
   complexity?: number;
+  tags?: string[];
+  details?: string;
+  startDate?: string;
+  dueDate?: string;
+  assignee?: string;
+  estimatedHours?: number;
+  storyPoints?: number;
 }
 
 /**
@@ -134,6 +155,13 @@ export interface TaskDto {
   dependencies?: string[];
   testStrategy?: string;
   implementationPlan?: string;
+  tags?: string[];
+  details?: string;
+  startDate?: string;
+  dueDate?: string;
+  assignee?: string;
+  estimatedHours?: number;
+  storyPoints?: number;
 }
 
 /**
@@ -152,6 +180,13 @@ export interface EpicDto {
   dependencies?: string[];
   testStrategy?: string;
   implementationPlan?: string;
+  tags?: string[];
+  details?: string;
+  startDate?: string;
+  dueDate?: string;
+  assignee?: string;
+  estimatedHours?: number;
+  storyPoints?: number;
 }
 
 /**
@@ -190,14 +225,15 @@ export class TaskMapper {
    * Convert a Task entity to a TaskListItemDto
    */
   static toListItem(task: Task): TaskListItemDto {
+    const subtaskCounts = countSubtasks(task.subtasks);
     return {
       id: task.id,
       shortId: task.id.substring(0, 8),
       description: task.description.split('\n')[0], // First line only
       status: task.status,
       priority: task.priority,
-      subtaskCount: task.subtasks.length,
-      completedSubtaskCount: task.subtasks.filter(s => s.status === 'done').length
+      subtaskCount: subtaskCounts.total,
+      completedSubtaskCount: subtaskCounts.done
     };
   }
   
@@ -218,19 +254,32 @@ export class TaskMapper {
       dependencies: task.dependencies,
       dependents: dependentTaskIds,
       testStrategy: task.testStrategy,
-      implementationPlan: task.implementationPlan
+      implementationPlan: task.implementationPlan,
+      tags: task.tags,
+      details: task.details,
+      startDate: task.startDate,
+      dueDate: task.dueDate,
+      assignee: task.assignee,
+      estimatedHours: task.estimatedHours,
+      storyPoints: task.storyPoints,
+      leaseExpiresAt: task.leaseExpiresAt
     };
   }
   
   /**
-   * Convert a Subtask entity to a SubtaskDto
+   * Convert a Subtask entity (and its nested Subtasks) to a SubtaskDto
    */
   static toSubtaskDto(subtask: Subtask): SubtaskDto {
     return {
       id: subtask.id,
       description: subtask.description,
       status: subtask.status,
-      createdAt: subtask.createdAt
+      priority: subtask.priority,
+      complexity: subtask.complexity,
+      createdAt: subtask.createdAt,
+      updatedAt: subtask.updatedAt,
+      files: (subtask.files ?? []).map(TaskMapper.toFileDto),
+      subtasks: (subtask.subtasks ?? []).map(TaskMapper.toSubtaskDto)
     };
   }
   
@@ -0,0 +1,39 @@
+import type { Epic } from './Task.js';
+
+export type HistoryItemKind = 'Epic' | 'Task' | 'Subtask';
+export type HistoryAction = 'create' | 'update' | 'delete';
+
+/**
+ * How one Epic changed in an operation. A missing before means it was created, a missing after that it was deleted.
+ */
+export interface EpicChange {
+  epicId: string;
+  before?: Epic;
+  after?: Epic;
+}
+
+/**
+ * An Epic, Task or Subtask created, updated or deleted by an operation
+ */
+export interface HistoryItemChange {
+  kind: HistoryItemKind;
+  id: string;
+  epicId: string;
+  action: HistoryAction;
+  description: string; // First line, as it was at the time
+  fields?: string[]; // Changed fields, for updates
+}
+
+/**
+ * One saved operation in the append-only journal.
+ * Undo and redo are operations themselves, pointing at the operation they revert or re-apply.
+ */
+export interface HistoryEntry {
+  id: string;
+  type: 'change' | 'undo' | 'redo';
+  targetId?: string; // The reverted or re-applied operation, for undo and redo
+  createdAt: string;
+  summary: string;
+  epics: EpicChange[]; // Full snapshots of every Epic touched, before and after
+  items: HistoryItemChange[];
+}
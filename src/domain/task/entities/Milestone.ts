@@ -0,0 +1,22 @@
+/**
+ * Whether a Milestone is a delivery target or a time-boxed Sprint.
+ * Sprints may not overlap each other; the one running today is the active Sprint.
+ */
+export type MilestoneKind = 'milestone' | 'sprint';
+
+/**
+ * A named period of time grouping Epics and Tasks, which may come from different Epics.
+ * A member Epic contributes all of its Tasks.
+ */
+export interface Milestone {
+  id: string;
+  kind: MilestoneKind;
+  name: string;
+  description?: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  epicIds: string[];
+  taskIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
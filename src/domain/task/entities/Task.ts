@@ -23,13 +23,44 @@ export interface AssociatedFile {
 }
 
 /**
- * Represents a Subtask nested within a Task
+ * Kinds of entries in a Task's work log
+ */
+export type WorkLogEntryType = 'sessionStart' | 'sessionEnd' | 'finding' | 'decision' | 'note';
+
+/**
+ * An entry in a Task's append-only work log
+ */
+export interface WorkLogEntry {
+  id: string;
+  type: WorkLogEntryType;
+  message?: string;
+  agentId?: string; // Who did the work; undefined for anonymous callers
+  createdAt: string;
+}
+
+/**
+ * A status an Epic or Task entered, recorded when it is saved (see StatusHistory)
+ */
+export interface StatusChange {
+  from?: Status; // Undefined for the status an item was created with
+  to: Status;
+  changedAt: string; // ISO timestamp
+}
+
+/**
+ * Represents a Subtask nested within a Task or within another Subtask
  */
 export interface Subtask {
   id: string;
   description: string;
-  status: 'todo' | 'done';
+  status: Status;
+  priority?: Priority;
+  complexity?: number;
   createdAt: string;
+  updatedAt?: string;
+  files: AssociatedFile[];
+  tags?: string[]; // Added to those inherited from the Task and parent Subtasks
+  subtasks: Subtask[]; // Nested Subtasks, limited by the Epic's maxDepth
 }
 
 /**
@@ -46,8 +77,19 @@ export interface Task {
   subtasks: Subtask[];
   files: AssociatedFile[];
   dependencies?: string[];
+  tags?: string[];
   testStrategy?: string;
   implementationPlan?: string;
+  details?: string; // Detailed implementation notes
+  startDate?: string; // ISO date string; work isn't scheduled before it
+  dueDate?: string; // ISO date string
+  assignee?: string;
+  estimatedHours?: number;
+  storyPoints?: number;
+  leaseExpiresAt?: string; // ISO timestamp until which the assignee holds an exclusive claim (see TaskLease)
+  plannedAssignee?: string; // Assignee the Task had before it was leased, given back when the lease ends
+  workLog?: WorkLogEntry[]; // Append-only; see WorkLog for sessions and elapsed time
+  statusHistory?: StatusChange[]; // Append-only, oldest first
 }
 
 /**
@@ -64,8 +106,18 @@ export interface Epic {
   tasks: Task[]; // Epics contain Tasks
   files: AssociatedFile[];
   dependencies?: string[]; // Epic dependencies
+  tags?: string[];
   testStrategy?: string;
   implementationPlan?: string;
+  details?: string; // High-level details for the Epic
+  startDate?: string; // ISO date string; work isn't scheduled before it
+  dueDate?: string; // ISO date string
+  assignee?: string;
+  estimatedHours?: number;
+  storyPoints?: number;
+  maxDepth?: number; // Levels of Tasks and Subtasks allowed below the Epic (see DEFAULT_MAX_DEPTH)
+  statusHistory?: StatusChange[]; // Append-only, oldest first
+  version?: number; // Incremented on every stored change, used for optimistic concurrency
 }
 
 /**
@@ -0,0 +1,19 @@
+import type { Epic, Subtask, Task } from './Task.js';
+
+/**
+ * Where a deleted item used to be, so it can be put back in place
+ */
+interface TrashLocation {
+  epicId: string; // The Epic itself, or the Epic holding the Task or Subtask
+  position?: number; // Index among its siblings
+  deletedAt: string;
+}
+
+/**
+ * A deleted Epic, Task or Subtask kept in the trash until it is restored or purged.
+ * Trashed Epics keep their Tasks, and trashed Tasks and Subtasks keep everything nested under them.
+ */
+export type TrashEntry =
+  | TrashLocation & { kind: 'Epic'; item: Epic }
+  | TrashLocation & { kind: 'Task'; item: Task }
+  | TrashLocation & { kind: 'Subtask'; item: Subtask; taskId: string; parentSubtaskId?: string };
@@ -0,0 +1,14 @@
+/**
+ * Raised when a write is rejected because the Epic changed since it was last read
+ * (another agent or client saved it first). Callers should reload the Epic and retry.
+ */
+export class EpicVersionConflictError extends Error {
+  constructor(
+    public readonly epicId: string,
+    public readonly expectedVersion?: number,
+    public readonly currentVersion?: number
+  ) {
+    super(`Epic ${epicId} was modified by another client (expected version ${expectedVersion ?? 'unknown'}, current version ${currentVersion ?? 'unknown'}).`);
+    this.name = 'EpicVersionConflictError';
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Raised when an operation can't be undone or redone because an Epic it touched
+ * was changed since, outside the journal (e.g. by a client without history).
+ */
+export class HistoryConflictError extends Error {
+  constructor(
+    public readonly entryId: string,
+    public readonly epicId: string
+  ) {
+    super(`Cannot revert operation ${entryId}: Epic ${epicId} was changed outside the history journal since.`);
+    this.name = 'HistoryConflictError';
+  }
+}
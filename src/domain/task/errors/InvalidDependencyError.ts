@@ -0,0 +1,13 @@
+/**
+ * Raised when a dependency would point at the item itself, at an item that doesn't exist,
+ * or close a cycle. For cycles, cyclePath lists the item IDs around the loop.
+ */
+export class InvalidDependencyError extends Error {
+  constructor(
+    message: string,
+    public readonly cyclePath?: string[]
+  ) {
+    super(message);
+    this.name = 'InvalidDependencyError';
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Raised when a Subtask would be nested deeper than the Epic's maxDepth allows.
+ * Levels count from the Epic: Tasks are level 1, their Subtasks level 2, and so on.
+ */
+export class MaxDepthExceededError extends Error {
+  constructor(
+    public readonly epicId: string,
+    public readonly level: number,
+    public readonly maxDepth: number
+  ) {
+    super(`Cannot add an item at level ${level}: Epic ${epicId} allows at most ${maxDepth} levels of Tasks and Subtasks.`);
+    this.name = 'MaxDepthExceededError';
+  }
+}
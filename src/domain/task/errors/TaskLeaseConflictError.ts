@@ -0,0 +1,14 @@
+/**
+ * Raised when an agent tries to claim, renew or release a Task whose lease is held by another agent.
+ * The lease can be taken over once it expires.
+ */
+export class TaskLeaseConflictError extends Error {
+  constructor(
+    public readonly taskId: string,
+    public readonly holder: string,
+    public readonly leaseExpiresAt: string
+  ) {
+    super(`Task ${taskId} is leased to ${holder} until ${leaseExpiresAt}. Pick another task or wait for the lease to expire.`);
+    this.name = 'TaskLeaseConflictError';
+  }
+}
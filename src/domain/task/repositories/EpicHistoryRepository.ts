@@ -0,0 +1,18 @@
+import type { HistoryEntry } from '../entities/HistoryEntry.js';
+
+/**
+ * Epic History Repository interface
+ * Defines the contract for the append-only journal of saved operations.
+ * Entries are never changed once appended; implementations may drop the oldest ones to bound the journal's size.
+ */
+export interface EpicHistoryRepository {
+  /**
+   * Append an entry to the journal
+   */
+  append(entry: HistoryEntry): Promise<void>;
+
+  /**
+   * Get every entry still kept, oldest first
+   */
+  getEntries(): Promise<HistoryEntry[]>;
+}
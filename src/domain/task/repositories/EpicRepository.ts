@@ -1,37 +1,53 @@
-import type { Epic } from '../entities/Task.js';
+import type { Epic, Status, Priority } from '../entities/Task.js';
+
+/**
+ * Filters for Epic queries; all given criteria must match
+ */
+export interface EpicQuery {
+  status?: Status;
+  priority?: Priority;
+  tag?: string; // Carried by the Epic itself
+}
 
 /**
  * Epic Repository interface
- * Defines the contract for interacting with Epic persistence
+ * Defines the contract for interacting with Epic persistence.
+ * All operations are async so file, SQLite and remote implementations are interchangeable.
  */
 export interface EpicRepository {
   /**
    * Get all Epics
    */
-  getAllEpics(): Epic[];
+  getAllEpics(): Promise<Epic[]>;
   
   /**
    * Get an Epic by its ID
    */
-  getEpicById(id: string): Epic | undefined;
+  getEpicById(id: string): Promise<Epic | undefined>;
+  
+  /**
+   * Find the Epics matching a query, for implementations that can use indexes.
+   * Without it, callers filter getAllEpics() themselves.
+   */
+  findEpics?(query: EpicQuery): Promise<Epic[]>;
   
   /**
    * Add a new Epic
-   * @returns success status (Promise for async implementations)
+   * @returns success status
    */
-  addEpic(epic: Epic): boolean | Promise<boolean>;
+  addEpic(epic: Epic): Promise<boolean>;
   
   /**
    * Update an existing Epic
-   * @returns success status (Promise for async implementations)
+   * @returns success status
    */
-  updateEpic(id: string, epic: Epic): boolean | Promise<boolean>;
+  updateEpic(id: string, epic: Epic): Promise<boolean>;
   
   /**
    * Delete an Epic
-   * @returns success status (Promise for async implementations)
+   * @returns success status
    */
-  deleteEpic(id: string): boolean | Promise<boolean>;
+  deleteEpic(id: string): Promise<boolean>;
   
   /**
    * Save all Epics to persistent storage
@@ -42,4 +58,10 @@ export interface EpicRepository {
    * Load Epics from persistent storage
    */
   loadEpics(): Promise<void>;
-} 
\ No newline at end of file
+  
+  /**
+   * Run a load-modify-save cycle without other clients of the same storage interleaving.
+   * Implementations that detect concurrent edits through Epic versions may simply run fn.
+   */
+  withLock<T>(fn: () => Promise<T>): Promise<T>;
+}
@@ -0,0 +1,17 @@
+import type { Milestone } from '../entities/Milestone.js';
+
+/**
+ * Milestone Repository interface
+ * Defines the contract for storing Milestones and Sprints next to the Epics they group
+ */
+export interface MilestoneRepository {
+  /**
+   * Get every Milestone
+   */
+  getMilestones(): Promise<Milestone[]>;
+
+  /**
+   * Replace the stored Milestones
+   */
+  saveMilestones(milestones: Milestone[]): Promise<void>;
+}
@@ -0,0 +1,23 @@
+import type { TrashEntry } from '../entities/TrashEntry.js';
+
+/**
+ * Trash Repository interface
+ * Defines the contract for keeping deleted Epics, Tasks and Subtasks until they are restored or purged.
+ * Entries are identified by the ID of the item they hold.
+ */
+export interface TrashRepository {
+  /**
+   * Get every entry, oldest first
+   */
+  getEntries(): Promise<TrashEntry[]>;
+
+  /**
+   * Add an entry, replacing an older entry for the same item
+   */
+  add(entry: TrashEntry): Promise<void>;
+
+  /**
+   * Remove the entries holding the given items
+   */
+  remove(itemIds: string[]): Promise<void>;
+}
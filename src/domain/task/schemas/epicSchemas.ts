@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import type { Epic, Subtask } from '../entities/Task.js';
+
+/**
+ * Zod schemas mirroring the Task domain entities.
+ * Used to validate Epics read from storage and payloads received by the API server.
+ * Unknown fields are passed through so data written by newer versions survives a round trip.
+ */
+
+export const statusSchema = z.enum(['todo', 'in-progress', 'done']);
+export const prioritySchema = z.enum(['low', 'medium', 'high']);
+
+const isoDateSchema = z.string().refine(value => !isNaN(Date.parse(value)), {
+  message: 'Expected an ISO date string'
+});
+
+export const associatedFileSchema = z.object({
+  filePath: z.string(),
+  description: z.string().optional(),
+  addedAt: z.string()
+}).passthrough();
+
+export const workLogEntrySchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['sessionStart', 'sessionEnd', 'finding', 'decision', 'note']),
+  message: z.string().optional(),
+  agentId: z.string().optional(),
+  createdAt: isoDateSchema
+}).passthrough();
+
+export const statusChangeSchema = z.object({
+  from: statusSchema.optional(),
+  to: statusSchema,
+  changedAt: isoDateSchema
+}).passthrough();
+
+/**
+ * Fields of a Subtask apart from its nested Subtasks
+ */
+const subtaskShape = {
+  id: z.string().min(1),
+  description: z.string(),
+  status: statusSchema,
+  priority: prioritySchema.optional(),
+  complexity: z.number().min(1).max(10).optional(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+  files: z.array(associatedFileSchema).default([]),
+  tags: z.array(z.string()).optional()
+};
+
+// Recursive schemas need their type spelled out
+export const subtaskSchema: z.ZodType<Subtask, z.ZodTypeDef, unknown> = z.object({
+  ...subtaskShape,
+  subtasks: z.lazy(() => z.array(subtaskSchema)).default([])
+}).passthrough();
+
+/**
+ * Fields shared by Tasks and Epics
+ */
+const workItemShape = {
+  id: z.string().min(1),
+  description: z.string(),
+  status: statusSchema,
+  priority: prioritySchema.optional(),
+  complexity: z.number().min(1).max(10).optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  files: z.array(associatedFileSchema).default([]),
+  dependencies: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  testStrategy: z.string().optional(),
+  implementationPlan: z.string().optional(),
+  details: z.string().optional(),
+  startDate: isoDateSchema.optional(),
+  dueDate: isoDateSchema.optional(),
+  assignee: z.string().optional(),
+  estimatedHours: z.number().nonnegative().optional(),
+  storyPoints: z.number().nonnegative().optional(),
+  statusHistory: z.array(statusChangeSchema).optional()
+};
+
+export const taskSchema = z.object({
+  ...workItemShape,
+  subtasks: z.array(subtaskSchema).default([]),
+  leaseExpiresAt: isoDateSchema.optional(),
+  plannedAssignee: z.string().optional(),
+  workLog: z.array(workLogEntrySchema).optional()
+}).passthrough();
+
+export const epicSchema = z.object({
+  ...workItemShape,
+  tasks: z.array(taskSchema).default([]),
+  version: z.number().int().nonnegative().optional()
+}).passthrough();
+
+/**
+ * Body of a request creating a Task - everything except the description is optional
+ */
+export const createTaskSchema = taskSchema.omit({ status: true, createdAt: true, updatedAt: true })
+  .partial()
+  .extend({ description: z.string() });
+
+/**
+ * Body of a request partially updating a Task; identity and creation time are not updatable,
+ * so unknown keys are stripped rather than passed through
+ */
+export const updateTaskSchema = taskSchema.omit({ id: true, createdAt: true }).partial().strip();
+
+/**
+ * Body of a request creating a Subtask, optionally nested under another Subtask of the same Task
+ */
+export const createSubtaskSchema = z.object(subtaskShape)
+  .pick({ id: true, description: true, priority: true, complexity: true })
+  .partial({ id: true })
+  .extend({ parentSubtaskId: z.string().optional() });
+
+/**
+ * Body of a request partially updating a Subtask.
+ * Nested Subtasks are changed through their own requests.
+ */
+export const updateSubtaskSchema = z.object(subtaskShape).omit({ id: true, createdAt: true }).partial().strip();
+
+/**
+ * Formats validation issues as "path: message" lines
+ */
+export function formatSchemaIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Validates an Epic, filling in missing collections with empty arrays
+ * @throws Error describing every invalid field
+ */
+export function parseEpic(value: unknown): Epic {
+  const result = epicSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Invalid Epic: ${formatSchemaIssues(result.error)}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,29 @@
+/**
+ * Helpers for calendar days written as YYYY-MM-DD, which compare correctly as strings.
+ * Days are UTC days; weekends and holidays count like any other day.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The calendar day of an ISO date or timestamp, as YYYY-MM-DD
+ * @throws Error if the value isn't a date
+ */
+export function toDay(value: string | Date): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${String(value)}`);
+  }
+  return date.toISOString().substring(0, 10);
+}
+
+export function addDays(day: string, days: number): string {
+  return toDay(new Date(Date.parse(day) + days * DAY_MS));
+}
+
+/**
+ * Whole days from one day to another; negative if `to` comes first
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
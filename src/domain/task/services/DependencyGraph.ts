@@ -0,0 +1,241 @@
+import type { Epic, Priority, Status } from '../entities/Task.js';
+import { InvalidDependencyError } from '../errors/InvalidDependencyError.js';
+
+/**
+ * An Epic or Task in the graph formed by their dependencies.
+ * Epics may depend on other Epics; Tasks may depend on Tasks or Epics.
+ */
+export interface DependencyNode {
+  id: string;
+  kind: 'Epic' | 'Task';
+  description: string;
+  status: Status;
+  priority?: Priority;
+  complexity?: number;
+  epicId: string; // The Epic itself, or the Epic holding the Task
+  dependencies: string[];
+}
+
+export type DependencyGraph = Map<string, DependencyNode>;
+
+/**
+ * A problem found in the dependencies of stored Epics and Tasks
+ */
+export type DependencyIssue =
+  | { type: 'self'; itemId: string; message: string }
+  | { type: 'dangling'; itemId: string; dependsOnId: string; message: string }
+  | { type: 'trashed'; itemId: string; dependsOnId: string; message: string } // Target was deleted into the trash
+  | { type: 'cycle'; path: string[]; message: string }; // path starts and ends with the same item
+
+/**
+ * Indexes every Epic and Task by ID
+ */
+export function buildDependencyGraph(epics: Epic[]): DependencyGraph {
+  const graph: DependencyGraph = new Map();
+  for (const epic of epics) {
+    graph.set(epic.id, {
+      id: epic.id,
+      kind: 'Epic',
+      description: epic.description,
+      status: epic.status,
+      priority: epic.priority,
+      complexity: epic.complexity,
+      epicId: epic.id,
+      dependencies: epic.dependencies ?? []
+    });
+    for (const task of epic.tasks) {
+      graph.set(task.id, {
+        id: task.id,
+        kind: 'Task',
+        description: task.description,
+        status: task.status,
+        priority: task.priority,
+        complexity: task.complexity,
+        epicId: epic.id,
+        dependencies: task.dependencies ?? []
+      });
+    }
+  }
+  return graph;
+}
+
+/**
+ * Short label for an item, e.g. Task "Login form" (1a2b3c4d)
+ */
+export function describeDependencyNode(graph: DependencyGraph, id: string): string {
+  const node = graph.get(id);
+  if (!node) {
+    return id;
+  }
+  const title = node.description.split('\n')[0];
+  const shortTitle = title.length > 40 ? `${title.substring(0, 37)}...` : title;
+  return `${node.kind} "${shortTitle}" (${id.substring(0, 8)})`;
+}
+
+/**
+ * Formats a chain of items as A → B → C
+ */
+export function formatDependencyPath(graph: DependencyGraph, path: string[]): string {
+  return path.map(id => describeDependencyNode(graph, id)).join(' → ');
+}
+
+// Follows dependencies from one item to another, returning the items visited on the way
+function findDependencyPath(graph: DependencyGraph, fromId: string, toId: string, visited = new Set<string>()): string[] | undefined {
+  if (fromId === toId) {
+    return [toId];
+  }
+  visited.add(fromId);
+  for (const next of graph.get(fromId)?.dependencies ?? []) {
+    if (visited.has(next)) {
+      continue;
+    }
+    const rest = findDependencyPath(graph, next, toId, visited);
+    if (rest) {
+      return [fromId, ...rest];
+    }
+  }
+  return undefined;
+}
+
+// Checks one new dependency edge against the existing graph
+function validateDependency(graph: DependencyGraph, itemId: string, kind: DependencyNode['kind'], dependsOnId: string): void {
+  if (itemId === dependsOnId) {
+    throw new InvalidDependencyError(`${kind} ${itemId} cannot depend on itself.`);
+  }
+
+  const target = graph.get(dependsOnId);
+  if (!target) {
+    throw new InvalidDependencyError(`Dependency ${dependsOnId} does not match any Epic or Task.`);
+  }
+  if (kind === 'Epic' && target.kind !== 'Epic') {
+    throw new InvalidDependencyError(`Epics can only depend on other Epics, but ${describeDependencyNode(graph, dependsOnId)} is a Task.`);
+  }
+
+  const path = findDependencyPath(graph, dependsOnId, itemId);
+  if (path) {
+    const cycle = [itemId, ...path];
+    throw new InvalidDependencyError(
+      `Adding this dependency would create a cycle: ${formatDependencyPath(graph, cycle)}`,
+      cycle
+    );
+  }
+}
+
+/**
+ * Ensures an Epic can depend on another Epic
+ * @throws InvalidDependencyError for self, missing or Task targets and for cycles
+ */
+export function validateEpicDependency(epics: Epic[], epicId: string, dependsOnId: string): void {
+  validateDependency(buildDependencyGraph(epics), epicId, 'Epic', dependsOnId);
+}
+
+/**
+ * Ensures a Task can depend on another Task or Epic. The Task doesn't have to be stored yet.
+ * @throws InvalidDependencyError for self or missing targets and for cycles
+ */
+export function validateTaskDependency(epics: Epic[], taskId: string, dependsOnId: string): void {
+  validateDependency(buildDependencyGraph(epics), taskId, 'Task', dependsOnId);
+}
+
+/**
+ * Finds self-dependencies, dependencies on missing items and cycles among all Epics and Tasks.
+ * Dependencies on items in the trash are reported as 'trashed' rather than 'dangling'.
+ */
+export function auditDependencies(epics: Epic[], trashedIds: ReadonlySet<string> = new Set()): DependencyIssue[] {
+  const graph = buildDependencyGraph(epics);
+  const issues: DependencyIssue[] = [];
+
+  for (const node of graph.values()) {
+    for (const dependsOnId of node.dependencies) {
+      const target = graph.get(dependsOnId);
+      if (dependsOnId === node.id) {
+        issues.push({
+          type: 'self',
+          itemId: node.id,
+          message: `${describeDependencyNode(graph, node.id)} depends on itself.`
+        });
+      } else if (!target && trashedIds.has(dependsOnId)) {
+        issues.push({
+          type: 'trashed',
+          itemId: node.id,
+          dependsOnId,
+          message: `${describeDependencyNode(graph, node.id)} depends on ${dependsOnId}, which is in the trash.`
+        });
+      } else if (!target || (node.kind === 'Epic' && target.kind !== 'Epic')) {
+        issues.push({
+          type: 'dangling',
+          itemId: node.id,
+          dependsOnId,
+          message: target
+            ? `${describeDependencyNode(graph, node.id)} depends on ${describeDependencyNode(graph, dependsOnId)}, but Epics can only depend on Epics.`
+            : `${describeDependencyNode(graph, node.id)} depends on ${dependsOnId}, which does not exist.`
+        });
+      }
+    }
+  }
+
+  // Depth-first search; reaching an item that is still on the stack closes a cycle
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const seenCycles = new Set<string>();
+  const visit = (id: string): void => {
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const next of graph.get(id)?.dependencies ?? []) {
+      if (next === id || !graph.has(next)) {
+        continue; // Reported above
+      }
+      if (state.get(next) === 'visiting') {
+        const path = [...stack.slice(stack.indexOf(next)), next];
+        const key = getCycleKey(path);
+        if (!seenCycles.has(key)) {
+          seenCycles.add(key);
+          issues.push({ type: 'cycle', path, message: `Dependency cycle: ${formatDependencyPath(graph, path)}` });
+        }
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(id, 'done');
+  };
+  for (const id of graph.keys()) {
+    if (!state.has(id)) {
+      visit(id);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Ensures replacing `before` with `after` doesn't introduce new dependency issues.
+ * Problems already present in `before` are left for auditDependencies to report, and so are
+ * dependencies on items the change removes (e.g. a trashed Task others depend on).
+ * @throws InvalidDependencyError for the first new issue
+ */
+export function validateDependencyChanges(before: Epic[], after: Epic[]): void {
+  const existing = new Set(auditDependencies(before).map(getIssueKey));
+  const beforeIds = new Set(buildDependencyGraph(before).keys());
+  const afterIds = new Set(buildDependencyGraph(after).keys());
+  const removed = (id: string) => beforeIds.has(id) && !afterIds.has(id);
+  const issue = auditDependencies(after).find(candidate =>
+    !existing.has(getIssueKey(candidate)) && !(candidate.type === 'dangling' && removed(candidate.dependsOnId)));
+  if (issue) {
+    throw new InvalidDependencyError(issue.message, issue.type === 'cycle' ? issue.path : undefined);
+  }
+}
+
+// A cycle is the same whichever item it is entered from
+function getCycleKey(path: string[]): string {
+  return [...new Set(path)].sort().join(',');
+}
+
+function getIssueKey(issue: DependencyIssue): string {
+  switch (issue.type) {
+    case 'self': return `self:${issue.itemId}`;
+    case 'dangling': return `dangling:${issue.itemId}:${issue.dependsOnId}`;
+    case 'trashed': return `trashed:${issue.itemId}:${issue.dependsOnId}`;
+    case 'cycle': return `cycle:${getCycleKey(issue.path)}`;
+  }
+}
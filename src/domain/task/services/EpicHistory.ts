@@ -0,0 +1,180 @@
+import type { Epic } from '../entities/Task.js';
+import type { EpicChange, HistoryEntry, HistoryItemChange, HistoryItemKind } from '../entities/HistoryEntry.js';
+import { HistoryConflictError } from '../errors/HistoryConflictError.js';
+import { flattenSubtasks } from './SubtaskTree.js';
+
+// A work item of any kind, compared field by field
+type HistoryItem = { id: string; description: string } & Record<string, unknown>;
+
+/**
+ * Item changes found between two sets of Epics, and full snapshots of the Epics that changed
+ */
+export interface EpicsDiff {
+  epics: EpicChange[];
+  items: HistoryItemChange[];
+}
+
+// JSON with object keys sorted, so equal items compare equal whatever order their fields were set in
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested
+  ) ?? 'undefined';
+}
+
+function getChangedFields(before: HistoryItem, after: HistoryItem, ignored: string[]): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .filter(key => !ignored.includes(key) && canonicalJson(before[key]) !== canonicalJson(after[key]))
+    .sort();
+}
+
+function getTitle(item: HistoryItem): string {
+  const title = item.description.split('\n')[0];
+  return title.length > 60 ? `${title.substring(0, 57)}...` : title;
+}
+
+// Compares two lists of items of the same kind by ID
+function diffItems(
+  kind: HistoryItemKind,
+  epicId: string,
+  before: HistoryItem[],
+  after: HistoryItem[],
+  ignored: string[]
+): HistoryItemChange[] {
+  const changes: HistoryItemChange[] = [];
+  const afterById = new Map(after.map(item => [item.id, item]));
+  const beforeIds = new Set(before.map(item => item.id));
+  for (const item of before) {
+    const updated = afterById.get(item.id);
+    if (!updated) {
+      changes.push({ kind, id: item.id, epicId, action: 'delete', description: getTitle(item) });
+      continue;
+    }
+    const fields = getChangedFields(item, updated, ignored);
+    if (fields.length > 0) {
+      changes.push({ kind, id: item.id, epicId, action: 'update', description: getTitle(updated), fields });
+    }
+  }
+  for (const item of after) {
+    if (!beforeIds.has(item.id)) {
+      changes.push({ kind, id: item.id, epicId, action: 'create', description: getTitle(item) });
+    }
+  }
+  return changes;
+}
+
+function asItems(values: object[]): HistoryItem[] {
+  return values as HistoryItem[];
+}
+
+/**
+ * Finds the Epics, Tasks and Subtasks created, updated or deleted between two sets of Epics.
+ * Changes that only touch timestamps or versions are ignored, unless nothing else changed in that Epic.
+ */
+export function diffEpics(before: Epic[], after: Epic[]): EpicsDiff {
+  const diff: EpicsDiff = { epics: [], items: [] };
+  const beforeById = new Map(before.map(epic => [epic.id, epic]));
+  const afterById = new Map(after.map(epic => [epic.id, epic]));
+
+  for (const epicId of new Set([...beforeById.keys(), ...afterById.keys()])) {
+    const oldEpic = beforeById.get(epicId);
+    const newEpic = afterById.get(epicId);
+    if (oldEpic && newEpic && canonicalJson({ ...oldEpic, version: undefined }) === canonicalJson({ ...newEpic, version: undefined })) {
+      continue;
+    }
+
+    const oldTasks = oldEpic?.tasks ?? [];
+    const newTasks = newEpic?.tasks ?? [];
+    const items = [
+      ...diffItems('Epic', epicId, asItems(oldEpic ? [oldEpic] : []), asItems(newEpic ? [newEpic] : []), ['tasks', 'updatedAt', 'version', 'statusHistory']),
+      ...diffItems('Task', epicId, asItems(oldTasks), asItems(newTasks), ['subtasks', 'updatedAt', 'statusHistory']),
+      ...diffItems(
+        'Subtask',
+        epicId,
+        asItems(oldTasks.flatMap(task => flattenSubtasks(task.subtasks ?? []))),
+        asItems(newTasks.flatMap(task => flattenSubtasks(task.subtasks ?? []))),
+        ['subtasks', 'updatedAt']
+      )
+    ];
+    if (items.length === 0) {
+      // Only timestamps changed
+      items.push({ kind: 'Epic', id: epicId, epicId, action: 'update', description: getTitle(newEpic as unknown as HistoryItem), fields: ['updatedAt'] });
+    }
+
+    diff.epics.push({
+      epicId,
+      before: oldEpic ? structuredClone(oldEpic) : undefined,
+      after: newEpic ? structuredClone(newEpic) : undefined
+    });
+    diff.items.push(...items);
+  }
+  return diff;
+}
+
+/**
+ * One-line summary of an operation, e.g. Deleted Task "Login form" (+2 more changes)
+ */
+export function summarizeChanges(items: HistoryItemChange[]): string {
+  if (items.length === 0) {
+    return 'No changes';
+  }
+  const verbs = { create: 'Created', update: 'Updated', delete: 'Deleted' };
+  const [first, ...rest] = items;
+  const more = rest.length > 0 ? ` (+${rest.length} more change${rest.length === 1 ? '' : 's'})` : '';
+  return `${verbs[first.action]} ${first.kind} "${first.description}"${more}`;
+}
+
+/**
+ * Replays undo and redo entries to find the operations that can be undone and redone.
+ * Both lists end with the operation that would be reverted next.
+ */
+export function getUndoRedoStacks(entries: HistoryEntry[]): { undo: HistoryEntry[]; redo: HistoryEntry[] } {
+  const byId = new Map(entries.map(entry => [entry.id, entry]));
+  const undo: HistoryEntry[] = [];
+  let redo: HistoryEntry[] = [];
+  for (const entry of entries) {
+    const target = entry.targetId ? byId.get(entry.targetId) : undefined;
+    if (entry.type === 'change') {
+      undo.push(entry);
+      redo = []; // A new change discards what was undone before it
+    } else if (entry.type === 'undo' && target && undo[undo.length - 1]?.id === target.id) {
+      redo.push(undo.pop()!);
+    } else if (entry.type === 'redo' && target && redo[redo.length - 1]?.id === target.id) {
+      undo.push(redo.pop()!);
+    }
+  }
+  return { undo, redo };
+}
+
+/**
+ * Entries that touched an Epic, Task or Subtask, oldest first
+ */
+export function getItemHistory(entries: HistoryEntry[], itemId: string): HistoryEntry[] {
+  return entries.filter(entry => entry.items.some(item => item.id === itemId) || entry.epics.some(change => change.epicId === itemId));
+}
+
+/**
+ * Ensures the Epics an entry touched are still as the journal last recorded them,
+ * so reverting it can't overwrite changes made without history
+ * @throws HistoryConflictError naming the first Epic that was changed since
+ */
+export function assertRevertible(entries: HistoryEntry[], currentEpics: Epic[], entry: HistoryEntry): void {
+  for (const { epicId } of entry.epics) {
+    let lastKnown: Epic | undefined;
+    for (const recorded of entries) {
+      const change = recorded.epics.find(candidate => candidate.epicId === epicId);
+      if (change) {
+        lastKnown = change.after;
+      }
+    }
+    const current = currentEpics.find(epic => epic.id === epicId);
+    const unchanged = lastKnown && current
+      ? (lastKnown.version ?? lastKnown.updatedAt) === (current.version ?? current.updatedAt)
+      : !lastKnown && !current;
+    if (!unchanged) {
+      throw new HistoryConflictError(entry.id, epicId);
+    }
+  }
+}
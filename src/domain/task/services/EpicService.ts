@@ -1,47 +1,129 @@
-import type { EpicRepository } from '../repositories/EpicRepository.js';
+import type { EpicRepository, EpicQuery } from '../repositories/EpicRepository.js';
+import type { EpicHistoryRepository } from '../repositories/EpicHistoryRepository.js';
+import type { TrashRepository } from '../repositories/TrashRepository.js';
+import type { MilestoneRepository } from '../repositories/MilestoneRepository.js';
 import type { Epic, Task, Subtask, Priority, Status, AssociatedFile } from '../entities/Task.js';
+import type { HistoryEntry, EpicChange } from '../entities/HistoryEntry.js';
+import type { TrashEntry } from '../entities/TrashEntry.js';
+import type { Milestone, MilestoneKind } from '../entities/Milestone.js';
 import { v4 as uuidv4 } from 'uuid';
+import { findSubtask, assertWithinMaxDepth, getTreeDepth, SUBTASK_LEVEL } from './SubtaskTree.js';
+import { validateEpicDependency, validateTaskDependency, validateDependencyChanges } from './DependencyGraph.js';
+import { InvalidDependencyError } from '../errors/InvalidDependencyError.js';
+import { diffEpics, summarizeChanges, getUndoRedoStacks, getItemHistory, assertRevertible } from './EpicHistory.js';
+import { validateMilestone } from './Milestones.js';
+import { toDay } from './CalendarDays.js';
+import { recordStatusChanges } from './StatusHistory.js';
+
+/**
+ * Resolves the EpicService for a workspace, backed by whichever repository the app is configured with
+ */
+export type EpicServiceResolver = (basePath: string) => Promise<EpicService>;
+
+/**
+ * Called after a save, undo or redo changes stored Epics, with every Epic it touched
+ */
+export type EpicChangeListener = (changes: EpicChange[]) => void;
 
 /**
  * Service layer for managing Epics, Tasks, and Subtasks
  */
 export class EpicService {
-  constructor(private epicRepository: EpicRepository) {}
+  // Epics as last loaded or saved, to find what the next save changes
+  private snapshot?: Epic[];
+
+  /**
+   * @param history Journal every save is recorded in; without it there is no history, undo or redo
+   * @param trash Where deleted items are kept; without it nothing can be trashed, so deletions can't go unnoticed as final
+   * @param milestones Where Milestones and Sprints are kept; without it they can't be used
+   * @param onChange Told which Epics each save changed, e.g. to notify clients reading them
+   */
+  constructor(
+    private epicRepository: EpicRepository,
+    private history?: EpicHistoryRepository,
+    private trash?: TrashRepository,
+    private milestones?: MilestoneRepository,
+    private onChange?: EpicChangeListener
+  ) {}
+
+  // --- Storage Operations --- 
+
+  /**
+   * Loads the latest Epics from the repository
+   */
+  async load(): Promise<void> {
+    await this.epicRepository.loadEpics();
+    this.snapshot = structuredClone(await this.epicRepository.getAllEpics());
+  }
+
+  /**
+   * Runs a load-modify-save cycle without other clients of the same storage interleaving
+   */
+  withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return this.epicRepository.withLock(fn);
+  }
 
   // --- Epic Operations --- 
 
-  getAllEpics(): Epic[] {
+  async getAllEpics(): Promise<Epic[]> {
     return this.epicRepository.getAllEpics();
   }
 
-  getEpicById(epicId: string): Epic | undefined {
+  async getEpicById(epicId: string): Promise<Epic | undefined> {
     return this.epicRepository.getEpicById(epicId);
   }
 
-  createEpic(params: { 
+  /**
+   * Finds the Epics matching all given criteria, through the repository's indexes when it has them
+   */
+  async findEpics(query: EpicQuery): Promise<Epic[]> {
+    if (this.epicRepository.findEpics) {
+      return this.epicRepository.findEpics(query);
+    }
+    return (await this.epicRepository.getAllEpics()).filter(epic =>
+      (!query.status || epic.status === query.status) &&
+      (!query.priority || epic.priority === query.priority) &&
+      (!query.tag || (epic.tags ?? []).includes(query.tag)));
+  }
+
+  /**
+   * Adds a fully built Epic, e.g. one assembled together with its Tasks
+   */
+  async addEpic(epic: Epic): Promise<boolean> {
+    return this.epicRepository.addEpic(epic);
+  }
+
+  async createEpic(params: { 
     description: string, 
     priority?: Priority,
+    tags?: string[],
     // Add other Epic fields as needed
-  }): Epic {
+  }): Promise<Epic | undefined> {
     const now = new Date().toISOString();
     const newEpic: Epic = {
       id: uuidv4(),
       description: params.description,
       status: 'todo',
       priority: params.priority,
+      tags: params.tags,
       createdAt: now,
       updatedAt: now,
       files: [],
       tasks: [],
       // ... initialize other fields
     };
-    this.epicRepository.addEpic(newEpic);
+    const added = await this.epicRepository.addEpic(newEpic);
     // Note: saveEpics() needs to be called separately
-    return newEpic;
+    return added ? newEpic : undefined;
   }
 
-  updateEpic(epicId: string, updates: Partial<Epic>): Epic | undefined {
-    const epic = this.epicRepository.getEpicById(epicId);
+  /**
+   * Merges the updates into the Epic.
+   * Dependencies are checked against the Epics as of the last load() or save, so call load() first.
+   * @throws InvalidDependencyError if the updated dependencies of the Epic or its Tasks are missing or would close a cycle
+   */
+  async updateEpic(epicId: string, updates: Partial<Epic>): Promise<Epic | undefined> {
+    const epic = await this.epicRepository.getEpicById(epicId);
     if (!epic) {
       return undefined;
     }
@@ -56,24 +138,422 @@ export class EpicService {
       updatedAt: new Date().toISOString() 
     };
     
-    const success = this.epicRepository.updateEpic(epicId, updatedEpic);
+    if (updates.dependencies || updates.tasks) {
+      // Callers often change the stored Epics in place before updating, so compare with the last load or save
+      const current = await this.getAllEpics();
+      const after = current.map(other => other.id === epicId ? updatedEpic : other);
+      validateDependencyChanges(this.snapshot ?? current, after);
+    }
+    
+    const success = await this.epicRepository.updateEpic(epicId, updatedEpic);
     return success ? updatedEpic : undefined;
   }
 
   async deleteEpic(epicId: string): Promise<boolean> {
-    const result = await Promise.resolve(this.epicRepository.deleteEpic(epicId));
-    return result;
+    return this.epicRepository.deleteEpic(epicId);
   }
   
+  /**
+   * Saves all changes, recording the status changes of Epics and Tasks and journaling them in the history, if there is one
+   */
   async saveAll(): Promise<void> {
+      if (this.snapshot) {
+        recordStatusChanges(this.snapshot, await this.epicRepository.getAllEpics());
+      }
+      await this.epicRepository.saveEpics();
+      await this.recordHistory('change');
+  }
+
+  // --- History Operations ---
+
+  /**
+   * Lists journaled operations, oldest first, optionally only those touching one Epic, Task or Subtask
+   */
+  async getHistory(itemId?: string): Promise<HistoryEntry[]> {
+    if (!this.history) {
+      return [];
+    }
+    const entries = await this.history.getEntries();
+    return itemId ? getItemHistory(entries, itemId) : entries;
+  }
+
+  /**
+   * Lists the operations undo and redo would revert, the next one last
+   */
+  async getUndoRedoStacks(): Promise<{ undo: HistoryEntry[]; redo: HistoryEntry[] }> {
+    return getUndoRedoStacks(this.history ? await this.history.getEntries() : []);
+  }
+
+  /**
+   * Restores the Epics touched by the last `count` operations to how they were before, newest first.
+   * Call within withLock after load().
+   * @returns the operations undone; fewer than `count` if the history runs out
+   * @throws HistoryConflictError if an Epic was changed without being journaled since
+   */
+  async undo(count: number = 1): Promise<HistoryEntry[]> {
+    return this.revert('undo', count);
+  }
+
+  /**
+   * Re-applies the last `count` undone operations, as long as nothing else was changed after undoing them
+   * @returns the operations redone
+   * @throws HistoryConflictError if an Epic was changed without being journaled since
+   */
+  async redo(count: number = 1): Promise<HistoryEntry[]> {
+    return this.revert('redo', count);
+  }
+
+  private async revert(direction: 'undo' | 'redo', count: number): Promise<HistoryEntry[]> {
+    if (!this.history) {
+      throw new Error('History is not recorded for this storage.');
+    }
+    if (!this.snapshot) {
+      await this.load();
+    }
+
+    const reverted: HistoryEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const entries = await this.history.getEntries();
+      const stack = getUndoRedoStacks(entries)[direction];
+      const target = stack[stack.length - 1];
+      if (!target) {
+        break;
+      }
+      assertRevertible(entries, await this.getAllEpics(), target);
+
+      for (const change of target.epics) {
+        const state = direction === 'undo' ? change.before : change.after;
+        const exists = await this.epicRepository.getEpicById(change.epicId);
+        if (!state) {
+          if (exists) await this.epicRepository.deleteEpic(change.epicId);
+        } else if (exists) {
+          await this.epicRepository.updateEpic(change.epicId, structuredClone(state));
+        } else {
+          await this.epicRepository.addEpic(structuredClone(state));
+        }
+      }
       await this.epicRepository.saveEpics();
+      await this.recordHistory(direction, target);
+      reverted.push(target);
+    }
+    return reverted;
+  }
+
+  // Journals what changed since the last load or save and tells the change listener
+  private async recordHistory(type: HistoryEntry['type'], target?: HistoryEntry): Promise<void> {
+    if (!this.snapshot) {
+      return;
+    }
+    const current = await this.epicRepository.getAllEpics();
+    const { epics, items } = diffEpics(this.snapshot, current);
+    this.snapshot = structuredClone(current);
+    if (epics.length === 0) {
+      return;
+    }
+    this.onChange?.(epics);
+    if (!this.history) {
+      return;
+    }
+
+    await this.history.append({
+      id: uuidv4(),
+      type,
+      targetId: target?.id,
+      createdAt: new Date().toISOString(),
+      summary: target ? `${type === 'undo' ? 'Undid' : 'Redid'}: ${target.summary}` : summarizeChanges(items),
+      epics,
+      items
+    });
+  }
+
+  // --- Trash Operations ---
+  // Deleted items are moved to the trash before being removed; callers save afterwards as for any other change
+
+  /**
+   * Moves an Epic, with all its Tasks, to the trash and removes it
+   * @throws Error if the service has no trash
+   */
+  async trashEpic(epicId: string): Promise<boolean> {
+    const trash = this.requireTrash();
+    const epic = await this.getEpicById(epicId);
+    if (!epic) return false;
+
+    await trash.add({ kind: 'Epic', item: structuredClone(epic), epicId, deletedAt: new Date().toISOString() });
+    return this.epicRepository.deleteEpic(epicId);
+  }
+
+  /**
+   * Moves a Task, with its Subtasks, to the trash and removes it from its Epic
+   * @throws Error if the service has no trash
+   */
+  async trashTask(epicId: string, taskId: string): Promise<boolean> {
+    const trash = this.requireTrash();
+    const epic = await this.getEpicById(epicId);
+    const position = epic?.tasks.findIndex(t => t.id === taskId) ?? -1;
+    if (!epic || position === -1) return false;
+
+    const [task] = epic.tasks.splice(position, 1);
+    await trash.add({ kind: 'Task', item: structuredClone(task), epicId, position, deletedAt: new Date().toISOString() });
+    return await this.updateEpic(epicId, epic) !== undefined;
+  }
+
+  /**
+   * Moves a Subtask, with everything nested under it, to the trash and removes it from its Task
+   * @throws Error if the service has no trash
+   */
+  async trashSubtask(epicId: string, taskId: string, subtaskId: string): Promise<boolean> {
+    const trash = this.requireTrash();
+    const epic = await this.getEpicById(epicId);
+    const task = epic?.tasks.find(t => t.id === taskId);
+    const location = task ? findSubtask(task.subtasks, subtaskId) : undefined;
+    if (!epic || !location) return false;
+
+    const position = location.siblings.indexOf(location.subtask);
+    location.siblings.splice(position, 1);
+    await trash.add({
+      kind: 'Subtask',
+      item: structuredClone(location.subtask),
+      epicId,
+      taskId,
+      parentSubtaskId: location.parent?.id,
+      position,
+      deletedAt: new Date().toISOString()
+    });
+    return await this.updateEpic(epicId, epic) !== undefined;
+  }
+
+  /**
+   * Lists the trash, oldest first. Items that are back in storage (e.g. through undo) are left out.
+   */
+  async getTrash(): Promise<TrashEntry[]> {
+    const entries: TrashEntry[] = [];
+    for (const entry of await this.trash?.getEntries() ?? []) {
+      if (!await this.findItem(entry.item.id)) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * IDs of every trashed item, including the Tasks of trashed Epics
+   */
+  async getTrashedItemIds(): Promise<Set<string>> {
+    const ids = new Set<string>();
+    for (const entry of await this.getTrash()) {
+      ids.add(entry.item.id);
+      if (entry.kind === 'Epic') {
+        entry.item.tasks.forEach(task => ids.add(task.id));
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Puts a trashed item back where it was and saves.
+   * Tasks need their Epic and Subtasks their Task to exist; a Subtask whose parent Subtask is gone goes directly under its Task.
+   */
+  async restoreFromTrash(itemId: string): Promise<{ success: boolean, message: string }> {
+    const entry = (await this.getTrash()).find(candidate => candidate.item.id === itemId);
+    if (!entry) return { success: false, message: `Error: ${itemId} is not in the trash.` };
+
+    const item = structuredClone(entry.item);
+    const trashedIds = await this.getTrashedItemIds();
+    const epic = await this.getEpicById(entry.epicId);
+    let message = `${entry.kind} ${itemId} restored.`;
+
+    if (entry.kind === 'Epic') {
+      if (!await this.epicRepository.addEpic(item as Epic)) {
+        return { success: false, message: `Error: Epic ${itemId} could not be restored.` };
+      }
+    } else if (!epic) {
+      const hint = trashedIds.has(entry.epicId) ? ` Restore the Epic first.` : '';
+      return { success: false, message: `Error: Epic ${entry.epicId} no longer exists.${hint}` };
+    } else if (entry.kind === 'Task') {
+      epic.tasks.splice(Math.min(entry.position ?? epic.tasks.length, epic.tasks.length), 0, item as Task);
+      await this.updateEpic(epic.id, epic);
+    } else {
+      const task = epic.tasks.find(t => t.id === entry.taskId);
+      if (!task) {
+        const hint = trashedIds.has(entry.taskId) ? ` Restore the Task first.` : '';
+        return { success: false, message: `Error: Task ${entry.taskId} no longer exists.${hint}` };
+      }
+      const parent = entry.parentSubtaskId ? findSubtask(task.subtasks, entry.parentSubtaskId) : undefined;
+      if (entry.parentSubtaskId && !parent) {
+        message += ` Its parent Subtask ${entry.parentSubtaskId} no longer exists, so it was added directly under Task ${task.id}.`;
+      }
+      const subtask = item as Subtask;
+      assertWithinMaxDepth(epic, (parent ? parent.level + 1 : SUBTASK_LEVEL) + getTreeDepth(subtask.subtasks ?? []));
+      const siblings = parent ? parent.subtask.subtasks : task.subtasks;
+      siblings.splice(Math.min(entry.position ?? siblings.length, siblings.length), 0, subtask);
+      await this.updateEpic(epic.id, epic);
+    }
+
+    await this.saveAll();
+    await this.trash!.remove([itemId]);
+    return { success: true, message };
+  }
+
+  /**
+   * Permanently deletes one item from the trash, or everything in it
+   * @returns the number of entries purged
+   */
+  async purgeTrash(itemId?: string): Promise<number> {
+    const entries = await this.getTrash();
+    const purged = itemId ? entries.filter(entry => entry.item.id === itemId) : entries;
+    // Emptying the trash also drops entries for items that are back in storage
+    const removed = itemId ? [itemId] : (await this.trash?.getEntries() ?? []).map(entry => entry.item.id);
+    await this.trash?.remove(removed);
+    return purged.length;
+  }
+
+  // The trash, so trashing never silently deletes for good
+  private requireTrash(): TrashRepository {
+    if (!this.trash) {
+      throw new Error('There is no trash for this storage, so items cannot be moved to it.');
+    }
+    return this.trash;
+  }
+
+  // Whether an Epic, Task or Subtask with this ID is stored
+  private async findItem(itemId: string): Promise<boolean> {
+    return !!(await this.getEpicById(itemId) || await this.getTaskById(itemId) || await this.getSubtaskById(itemId));
+  }
+
+  // --- Milestone Operations ---
+  // Milestones are saved as soon as they change and aren't part of the history journal; call these within withLock
+
+  /**
+   * Lists Milestones and Sprints by start date
+   */
+  async getMilestones(): Promise<Milestone[]> {
+    const milestones = await this.milestones?.getMilestones() ?? [];
+    return milestones.sort((a, b) => a.startDate.localeCompare(b.startDate) || a.name.localeCompare(b.name));
+  }
+
+  async getMilestoneById(milestoneId: string): Promise<Milestone | undefined> {
+    return (await this.getMilestones()).find(m => m.id === milestoneId);
+  }
+
+  /**
+   * Creates a Milestone or Sprint
+   * @throws Error if its dates are invalid, a Sprint overlaps another or a member doesn't exist
+   */
+  async createMilestone(params: {
+    kind: MilestoneKind,
+    name: string,
+    description?: string,
+    startDate: string,
+    endDate: string,
+    itemIds?: string[], // Epic and Task IDs
+  }): Promise<Milestone> {
+    const milestones = await this.requireMilestones().getMilestones();
+    const now = new Date().toISOString();
+    const milestone: Milestone = {
+      id: uuidv4(),
+      kind: params.kind,
+      name: params.name,
+      description: params.description,
+      startDate: toDay(params.startDate),
+      endDate: toDay(params.endDate),
+      epicIds: [],
+      taskIds: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.addMembers(milestone, params.itemIds ?? []);
+    validateMilestone(milestone, milestones);
+    await this.requireMilestones().saveMilestones([...milestones, milestone]);
+    return milestone;
+  }
+
+  /**
+   * Updates a Milestone's name, description, kind or dates
+   * @throws Error if the new dates are invalid or make a Sprint overlap another
+   */
+  async updateMilestone(
+    milestoneId: string,
+    updates: Partial<Pick<Milestone, 'kind' | 'name' | 'description' | 'startDate' | 'endDate'>>
+  ): Promise<Milestone | undefined> {
+    const milestones = await this.requireMilestones().getMilestones();
+    const index = milestones.findIndex(m => m.id === milestoneId);
+    if (index === -1) return undefined;
+
+    const updated: Milestone = { ...milestones[index], ...updates, updatedAt: new Date().toISOString() };
+    updated.startDate = toDay(updated.startDate);
+    updated.endDate = toDay(updated.endDate);
+    validateMilestone(updated, milestones);
+    milestones[index] = updated;
+    await this.requireMilestones().saveMilestones(milestones);
+    return updated;
+  }
+
+  async deleteMilestone(milestoneId: string): Promise<boolean> {
+    const milestones = await this.requireMilestones().getMilestones();
+    const remaining = milestones.filter(m => m.id !== milestoneId);
+    if (remaining.length === milestones.length) return false;
+    await this.requireMilestones().saveMilestones(remaining);
+    return true;
+  }
+
+  /**
+   * Adds Epics and Tasks to a Milestone, or removes them
+   * @returns the Milestone and the IDs that were actually added or removed
+   * @throws Error if an ID to add is neither an Epic nor a Task
+   */
+  async changeMilestoneMembers(
+    milestoneId: string,
+    change: 'add' | 'remove',
+    itemIds: string[]
+  ): Promise<{ milestone: Milestone, changed: string[] } | undefined> {
+    const milestones = await this.requireMilestones().getMilestones();
+    const milestone = milestones.find(m => m.id === milestoneId);
+    if (!milestone) return undefined;
+
+    let changed: string[];
+    if (change === 'add') {
+      changed = await this.addMembers(milestone, itemIds);
+    } else {
+      changed = itemIds.filter(id => milestone.epicIds.includes(id) || milestone.taskIds.includes(id));
+      milestone.epicIds = milestone.epicIds.filter(id => !itemIds.includes(id));
+      milestone.taskIds = milestone.taskIds.filter(id => !itemIds.includes(id));
+    }
+    if (changed.length > 0) {
+      milestone.updatedAt = new Date().toISOString();
+      await this.requireMilestones().saveMilestones(milestones);
+    }
+    return { milestone, changed };
+  }
+
+  // Adds each ID to the Milestone's Epics or Tasks, skipping members it already has
+  private async addMembers(milestone: Milestone, itemIds: string[]): Promise<string[]> {
+    const added: string[] = [];
+    for (const id of new Set(itemIds)) {
+      if (milestone.epicIds.includes(id) || milestone.taskIds.includes(id)) continue;
+      if (await this.getEpicById(id)) {
+        milestone.epicIds.push(id);
+      } else if (await this.getTaskById(id)) {
+        milestone.taskIds.push(id);
+      } else {
+        throw new Error(`${id} is neither an Epic nor a Task.`);
+      }
+      added.push(id);
+    }
+    return added;
+  }
+
+  private requireMilestones(): MilestoneRepository {
+    if (!this.milestones) {
+      throw new Error('Milestones are not available for this storage.');
+    }
+    return this.milestones;
   }
 
   // --- Task Operations --- 
 
-  getTaskById(taskId: string): { epic: Epic; task: Task } | undefined {
+  async getTaskById(taskId: string): Promise<{ epic: Epic; task: Task } | undefined> {
       // This requires searching through all epics
-      for (const epic of this.getAllEpics()) {
+      for (const epic of await this.getAllEpics()) {
           const task = epic.tasks.find(t => t.id === taskId);
           if (task) {
               return { epic, task };
@@ -81,47 +561,103 @@ export class EpicService {
       }
       return undefined;
   }
+
+  async getSubtaskById(subtaskId: string): Promise<{ epic: Epic; task: Task; subtask: Subtask } | undefined> {
+      for (const epic of await this.getAllEpics()) {
+          for (const task of epic.tasks) {
+              const location = findSubtask(task.subtasks, subtaskId);
+              if (location) {
+                  return { epic, task, subtask: location.subtask };
+              }
+          }
+      }
+      return undefined;
+  }
   
-  addTaskToEpic(epicId: string, params: { 
+  /**
+   * Adds a Task to an Epic
+   * @throws InvalidDependencyError if one of its dependencies is missing or would close a cycle
+   */
+  async addTaskToEpic(epicId: string, params: { 
+      id?: string, // Callers that already generated an ID (e.g. remote clients) can keep it
       description: string, 
       priority?: Priority,
-      // Add other Task fields as needed
-  }): Task | undefined {
-    const epic = this.getEpicById(epicId);
+      complexity?: number,
+      testStrategy?: string,
+      implementationPlan?: string,
+      dependencies?: string[],
+      tags?: string[],
+      details?: string,
+      startDate?: string,
+      dueDate?: string,
+      assignee?: string,
+      estimatedHours?: number,
+      storyPoints?: number,
+  }): Promise<Task | undefined> {
+    const epic = await this.getEpicById(epicId);
     if (!epic) {
       return undefined;
     }
+    if (params.id && epic.tasks.some(t => t.id === params.id)) {
+      return undefined; // Duplicate task ID
+    }
+    
+    const taskId = params.id || uuidv4();
+    const allEpics = await this.getAllEpics();
+    for (const dependsOnId of params.dependencies ?? []) {
+      validateTaskDependency(allEpics, taskId, dependsOnId);
+    }
     
     const now = new Date().toISOString();
     const newTask: Task = {
-      id: uuidv4(),
+      id: taskId,
       description: params.description,
       status: 'todo',
       priority: params.priority,
+      complexity: params.complexity,
       createdAt: now,
       updatedAt: now,
       files: [],
       subtasks: [],
-      // ... initialize other Task fields
+      dependencies: params.dependencies,
+      testStrategy: params.testStrategy,
+      implementationPlan: params.implementationPlan,
+      tags: params.tags,
+      details: params.details,
+      startDate: params.startDate,
+      dueDate: params.dueDate,
+      assignee: params.assignee,
+      estimatedHours: params.estimatedHours,
+      storyPoints: params.storyPoints,
     };
     
     // Add task to the epic's task list
     epic.tasks.push(newTask);
     
     // Update the epic in the repository
-    const updated = this.updateEpic(epicId, epic);
+    const updated = await this.updateEpic(epicId, epic);
     
     return updated ? newTask : undefined;
   }
 
-  updateTaskInEpic(epicId: string, taskId: string, updates: Partial<Task>): Task | undefined {
-    const epic = this.getEpicById(epicId);
+  /**
+   * Updates a Task, replacing its dependencies if given
+   * @throws InvalidDependencyError if a new dependency is missing or would close a cycle
+   */
+  async updateTaskInEpic(epicId: string, taskId: string, updates: Partial<Task>): Promise<Task | undefined> {
+    const epic = await this.getEpicById(epicId);
     if (!epic) return undefined;
     
     const taskIndex = epic.tasks.findIndex(t => t.id === taskId);
     if (taskIndex === -1) return undefined;
     
     const existingTask = epic.tasks[taskIndex];
+    const allEpics = await this.getAllEpics();
+    for (const dependsOnId of updates.dependencies ?? []) {
+      if (!existingTask.dependencies?.includes(dependsOnId)) {
+        validateTaskDependency(allEpics, taskId, dependsOnId);
+      }
+    }
     const updatedTask = {
       ...existingTask,
       ...updates,
@@ -133,13 +669,13 @@ export class EpicService {
     };
     
     epic.tasks[taskIndex] = updatedTask;
-    const updated = this.updateEpic(epicId, epic);
+    const updated = await this.updateEpic(epicId, epic);
     
     return updated ? updatedTask : undefined;
   }
 
-  deleteTaskFromEpic(epicId: string, taskId: string): boolean {
-    const epic = this.getEpicById(epicId);
+  async deleteTaskFromEpic(epicId: string, taskId: string): Promise<boolean> {
+    const epic = await this.getEpicById(epicId);
     if (!epic) return false;
     
     const initialLength = epic.tasks.length;
@@ -147,68 +683,98 @@ export class EpicService {
     
     if (epic.tasks.length === initialLength) return false; // Task not found
         
-    return this.updateEpic(epicId, epic) !== undefined;
+    return await this.updateEpic(epicId, epic) !== undefined;
   }
 
   // --- Subtask Operations --- 
   
-  addSubtaskToTask(epicId: string, taskId: string, params: { description: string }): Subtask | undefined {
-      const epic = this.getEpicById(epicId);
+  /**
+   * Adds a Subtask to a Task, or nested under another of the Task's Subtasks
+   * @throws MaxDepthExceededError if the new Subtask would exceed the Epic's maxDepth
+   */
+  async addSubtaskToTask(epicId: string, taskId: string, params: {
+      id?: string,
+      description: string,
+      parentSubtaskId?: string,
+      priority?: Priority,
+      complexity?: number,
+  }): Promise<Subtask | undefined> {
+      const epic = await this.getEpicById(epicId);
       if (!epic) return undefined;
       
       const task = epic.tasks.find(t => t.id === taskId);
       if (!task) return undefined;
+      if (params.id && findSubtask(task.subtasks, params.id)) return undefined; // Duplicate subtask ID
+      
+      let siblings = task.subtasks;
+      let level = SUBTASK_LEVEL;
+      if (params.parentSubtaskId) {
+          const parent = findSubtask(task.subtasks, params.parentSubtaskId);
+          if (!parent) return undefined;
+          siblings = parent.subtask.subtasks;
+          level = parent.level + 1;
+      }
+      assertWithinMaxDepth(epic, level);
       
       const now = new Date().toISOString();
       const newSubtask: Subtask = {
-          id: uuidv4(),
+          id: params.id || uuidv4(),
           description: params.description,
           status: 'todo',
+          priority: params.priority,
+          complexity: params.complexity,
           createdAt: now,
+          updatedAt: now,
+          files: [],
+          subtasks: [],
       };
       
-      task.subtasks.push(newSubtask);
-      const updated = this.updateEpic(epicId, epic);
+      siblings.push(newSubtask);
+      const updated = await this.updateEpic(epicId, epic);
       
       return updated ? newSubtask : undefined;
   }
   
-  updateSubtaskInTask(epicId: string, taskId: string, subtaskId: string, updates: Partial<Subtask>): Subtask | undefined {
-      const epic = this.getEpicById(epicId);
+  async updateSubtaskInTask(epicId: string, taskId: string, subtaskId: string, updates: Partial<Subtask>): Promise<Subtask | undefined> {
+      const epic = await this.getEpicById(epicId);
       if (!epic) return undefined;
       
       const task = epic.tasks.find(t => t.id === taskId);
       if (!task) return undefined;
       
-      const subtaskIndex = task.subtasks.findIndex(s => s.id === subtaskId);
-      if (subtaskIndex === -1) return undefined;
+      const location = findSubtask(task.subtasks, subtaskId);
+      if (!location) return undefined;
       
-      const existingSubtask = task.subtasks[subtaskIndex];
+      const existingSubtask = location.subtask;
       const updatedSubtask = {
           ...existingSubtask,
           ...updates,
-          // No nested arrays in Subtask currently
+          // Ensure nested arrays aren't overwritten if not provided in updates
+          subtasks: updates.subtasks || existingSubtask.subtasks,
+          files: updates.files || existingSubtask.files,
+          updatedAt: new Date().toISOString()
       };
       
-      task.subtasks[subtaskIndex] = updatedSubtask;
-      const updated = this.updateEpic(epicId, epic);
+      location.siblings[location.siblings.indexOf(existingSubtask)] = updatedSubtask;
+      const updated = await this.updateEpic(epicId, epic);
       
       return updated ? updatedSubtask : undefined;
   }
   
-  deleteSubtaskFromTask(epicId: string, taskId: string, subtaskId: string): boolean {
-      const epic = this.getEpicById(epicId);
+  async deleteSubtaskFromTask(epicId: string, taskId: string, subtaskId: string): Promise<boolean> {
+      const epic = await this.getEpicById(epicId);
       if (!epic) return false;
       
       const task = epic.tasks.find(t => t.id === taskId);
       if (!task) return false;
       
-      const initialLength = task.subtasks.length;
-      task.subtasks = task.subtasks.filter(s => s.id !== subtaskId);
+      const location = findSubtask(task.subtasks, subtaskId);
+      if (!location) return false; // Subtask not found
       
-      if (task.subtasks.length === initialLength) return false; // Subtask not found
+      // Removes the Subtask together with everything nested under it
+      location.siblings.splice(location.siblings.indexOf(location.subtask), 1);
           
-      return this.updateEpic(epicId, epic) !== undefined;
+      return await this.updateEpic(epicId, epic) !== undefined;
   }
   
   // --- File Operations (Example for Epic) --- 
@@ -216,7 +782,7 @@ export class EpicService {
   // Need similar functions for adding/removing files from Tasks
   
   async addFileToEpic(epicId: string, filePath: string, description?: string): Promise<{ success: boolean, message: string }> {
-      const epic = this.getEpicById(epicId);
+      const epic = await this.getEpicById(epicId);
       if (!epic) {
           return { success: false, message: `Error: Epic ${epicId} not found.` };
       }
@@ -232,7 +798,7 @@ export class EpicService {
       };
       
       epic.files.push(newFile);
-      const updated = this.updateEpic(epicId, epic);
+      const updated = await this.updateEpic(epicId, epic);
       
       if (!updated) {
           return { success: false, message: `Error adding file to epic ${epicId}.` };
@@ -243,7 +809,7 @@ export class EpicService {
   }
 
   async removeFileFromEpic(epicId: string, filePath: string): Promise<{ success: boolean, message: string }> {
-      const epic = this.getEpicById(epicId);
+      const epic = await this.getEpicById(epicId);
       if (!epic) {
           return { success: false, message: `Error: Epic ${epicId} not found.` };
       }
@@ -255,7 +821,7 @@ export class EpicService {
           return { success: true, message: `File ${filePath} not found in epic ${epicId}.` };
       }
       
-      const updated = this.updateEpic(epicId, epic);
+      const updated = await this.updateEpic(epicId, epic);
       
       if (!updated) {
           return { success: false, message: `Error removing file from epic ${epicId}.` };
@@ -265,25 +831,28 @@ export class EpicService {
       return { success: true, message: `File ${filePath} removed from epic ${epicId}.` };
   }
 
-  // --- Dependency Operations (Example for Epic) --- 
-  
-  // Need similar functions for Task dependencies
+  // --- Dependency Operations --- 
+  // New dependencies are rejected when they point at the item itself, at nothing, or close a cycle
 
   async addEpicDependency(epicId: string, dependsOnEpicId: string): Promise<{ success: boolean, message: string }> {
-      const epic = this.getEpicById(epicId);
-      const dependsOnEpic = this.getEpicById(dependsOnEpicId);
-
+      const epic = await this.getEpicById(epicId);
       if (!epic) return { success: false, message: `Error: Epic ${epicId} not found.` };
-      if (!dependsOnEpic) return { success: false, message: `Error: Dependency Epic ${dependsOnEpicId} not found.` };
-      if (epicId === dependsOnEpicId) return { success: false, message: `Error: Epic cannot depend on itself.` };
 
       if (!epic.dependencies) epic.dependencies = [];
       if (epic.dependencies.includes(dependsOnEpicId)) {
           return { success: true, message: `Epic ${epicId} already depends on ${dependsOnEpicId}.` };
       }
+      try {
+          validateEpicDependency(await this.getAllEpics(), epicId, dependsOnEpicId);
+      } catch (error) {
+          if (error instanceof InvalidDependencyError) {
+              return { success: false, message: `Error: ${error.message}` };
+          }
+          throw error;
+      }
 
       epic.dependencies.push(dependsOnEpicId);
-      const updated = this.updateEpic(epicId, epic);
+      const updated = await this.updateEpic(epicId, epic);
 
       if (!updated) {
           return { success: false, message: `Error adding dependency to epic ${epicId}.` };
@@ -294,14 +863,14 @@ export class EpicService {
   }
 
   async removeEpicDependency(epicId: string, dependsOnEpicId: string): Promise<{ success: boolean, message: string }> {
-      const epic = this.getEpicById(epicId);
+      const epic = await this.getEpicById(epicId);
       if (!epic) return { success: false, message: `Error: Epic ${epicId} not found.` };
       if (!epic.dependencies || !epic.dependencies.includes(dependsOnEpicId)) {
           return { success: true, message: `Epic ${epicId} does not depend on ${dependsOnEpicId}.` };
       }
 
       epic.dependencies = epic.dependencies.filter(depId => depId !== dependsOnEpicId);
-      const updated = this.updateEpic(epicId, epic);
+      const updated = await this.updateEpic(epicId, epic);
 
       if (!updated) {
           return { success: false, message: `Error removing dependency from epic ${epicId}.` };
@@ -310,4 +879,56 @@ export class EpicService {
       await this.saveAll();
       return { success: true, message: `Dependency ${dependsOnEpicId} removed from epic ${epicId}.` };
   }
+
+  async addTaskDependency(epicId: string, taskId: string, dependsOnId: string): Promise<{ success: boolean, message: string }> {
+      const epic = await this.getEpicById(epicId);
+      if (!epic) return { success: false, message: `Error: Epic ${epicId} not found.` };
+      const task = epic.tasks.find(t => t.id === taskId);
+      if (!task) return { success: false, message: `Error: Task ${taskId} not found in epic ${epicId}.` };
+
+      if (!task.dependencies) task.dependencies = [];
+      if (task.dependencies.includes(dependsOnId)) {
+          return { success: true, message: `Task ${taskId} already depends on ${dependsOnId}.` };
+      }
+      try {
+          validateTaskDependency(await this.getAllEpics(), taskId, dependsOnId);
+      } catch (error) {
+          if (error instanceof InvalidDependencyError) {
+              return { success: false, message: `Error: ${error.message}` };
+          }
+          throw error;
+      }
+
+      task.dependencies.push(dependsOnId);
+      task.updatedAt = new Date().toISOString();
+      const updated = await this.updateEpic(epicId, epic);
+
+      if (!updated) {
+          return { success: false, message: `Error adding dependency to task ${taskId}.` };
+      }
+      
+      await this.saveAll();
+      return { success: true, message: `${dependsOnId} added as dependency to task ${taskId}.` };
+  }
+
+  async removeTaskDependency(epicId: string, taskId: string, dependsOnId: string): Promise<{ success: boolean, message: string }> {
+      const epic = await this.getEpicById(epicId);
+      if (!epic) return { success: false, message: `Error: Epic ${epicId} not found.` };
+      const task = epic.tasks.find(t => t.id === taskId);
+      if (!task) return { success: false, message: `Error: Task ${taskId} not found in epic ${epicId}.` };
+      if (!task.dependencies || !task.dependencies.includes(dependsOnId)) {
+          return { success: true, message: `Task ${taskId} does not depend on ${dependsOnId}.` };
+      }
+
+      task.dependencies = task.dependencies.filter(depId => depId !== dependsOnId);
+      task.updatedAt = new Date().toISOString();
+      const updated = await this.updateEpic(epicId, epic);
+
+      if (!updated) {
+          return { success: false, message: `Error removing dependency from task ${taskId}.` };
+      }
+      
+      await this.saveAll();
+      return { success: true, message: `Dependency ${dependsOnId} removed from task ${taskId}.` };
+  }
 }
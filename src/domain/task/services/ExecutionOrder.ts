@@ -0,0 +1,138 @@
+import type { Epic } from '../entities/Task.js';
+import { InvalidDependencyError } from '../errors/InvalidDependencyError.js';
+import { auditDependencies, buildDependencyGraph } from './DependencyGraph.js';
+import type { DependencyGraph, DependencyNode } from './DependencyGraph.js';
+
+/**
+ * Weight of an item without a complexity score when computing the critical path
+ */
+export const DEFAULT_COMPLEXITY_WEIGHT = 1;
+
+/**
+ * An unfinished item in an execution plan
+ */
+export interface ExecutionStep {
+  node: DependencyNode;
+  external: boolean; // Belongs to another Epic, or is an Epic the planned Epic waits for
+  wave: number; // 0-based; items in the same wave can be worked on in parallel
+  prerequisites: string[]; // Unfinished items that must be done first
+  finish: number; // Total weight of the heaviest chain ending with this item
+}
+
+/**
+ * Order in which the unfinished Tasks of an Epic can be worked on
+ */
+export interface ExecutionPlan {
+  epicId: string;
+  waves: ExecutionStep[][];
+  criticalPath: ExecutionStep[];
+  criticalPathWeight: number;
+  missingDependencies: { itemId: string; dependsOnId: string }[];
+}
+
+/**
+ * Weight of an item on the critical path: its complexity, or DEFAULT_COMPLEXITY_WEIGHT
+ */
+export function getComplexityWeight(node: DependencyNode): number {
+  return node.complexity ?? DEFAULT_COMPLEXITY_WEIGHT;
+}
+
+// Unfinished items that must be done before this one; a Task also waits for its Epic's dependencies
+function getPrerequisites(graph: DependencyGraph, node: DependencyNode): { ids: string[]; missing: string[] } {
+  const references = [...node.dependencies];
+  if (node.kind === 'Task') {
+    references.push(...(graph.get(node.epicId)?.dependencies ?? []));
+  }
+
+  const ids: string[] = [];
+  const missing: string[] = [];
+  for (const id of new Set(references)) {
+    const target = graph.get(id);
+    if (!target) {
+      missing.push(id);
+    } else if (target.status !== 'done' && id !== node.id) {
+      ids.push(id);
+    }
+  }
+  return { ids, missing };
+}
+
+/**
+ * Topologically sorts the unfinished Tasks of an Epic into waves of Tasks that can run in parallel,
+ * and finds the critical path - the chain of dependent items with the highest total complexity.
+ * Unfinished items in other Epics that the Tasks depend on, directly or transitively, are planned too.
+ * Dependencies on items that don't exist are reported and otherwise ignored.
+ * @throws Error if the Epic doesn't exist
+ * @throws InvalidDependencyError if the items to plan contain a dependency cycle
+ */
+export function planExecutionOrder(epics: Epic[], epicId: string): ExecutionPlan {
+  const epic = epics.find(e => e.id === epicId);
+  if (!epic) {
+    throw new Error(`Epic ${epicId} not found.`);
+  }
+  const graph = buildDependencyGraph(epics);
+
+  // Collect the unfinished Tasks and everything unfinished they wait for
+  const prerequisites = new Map<string, string[]>();
+  const missingDependencies: ExecutionPlan['missingDependencies'] = [];
+  const pending = epic.tasks.filter(t => t.status !== 'done').map(t => t.id);
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (prerequisites.has(id)) {
+      continue;
+    }
+    const { ids, missing } = getPrerequisites(graph, graph.get(id)!);
+    prerequisites.set(id, ids);
+    missing.forEach(dependsOnId => missingDependencies.push({ itemId: id, dependsOnId }));
+    pending.push(...ids);
+  }
+
+  // Kahn's algorithm, one wave at a time
+  const steps = new Map<string, ExecutionStep>();
+  const waves: ExecutionStep[][] = [];
+  let remaining = [...prerequisites.keys()];
+  while (remaining.length > 0) {
+    const ready = remaining.filter(id => prerequisites.get(id)!.every(prerequisite => steps.has(prerequisite)));
+    if (ready.length === 0) {
+      const cycle = auditDependencies(epics).find(issue => issue.type === 'cycle' && issue.path.every(id => remaining.includes(id)));
+      throw new InvalidDependencyError(
+        `Cannot order the Tasks of Epic ${epicId}: ${cycle?.message ?? 'their dependencies contain a cycle.'}`,
+        cycle?.type === 'cycle' ? cycle.path : undefined
+      );
+    }
+
+    const wave = ready.map(id => {
+      const node = graph.get(id)!;
+      const ids = prerequisites.get(id)!;
+      const step: ExecutionStep = {
+        node,
+        external: node.kind === 'Epic' || node.epicId !== epicId,
+        wave: waves.length,
+        prerequisites: ids,
+        finish: getComplexityWeight(node) + Math.max(0, ...ids.map(prerequisite => steps.get(prerequisite)!.finish))
+      };
+      return step;
+    });
+    wave.forEach(step => steps.set(step.node.id, step));
+    waves.push(wave);
+    remaining = remaining.filter(id => !steps.has(id));
+  }
+
+  // Walk back from the heaviest item along its heaviest prerequisites
+  const criticalPath: ExecutionStep[] = [];
+  let current = [...steps.values()].sort((a, b) => b.finish - a.finish)[0];
+  while (current) {
+    criticalPath.unshift(current);
+    current = current.prerequisites
+      .map(id => steps.get(id)!)
+      .sort((a, b) => b.finish - a.finish)[0];
+  }
+
+  return {
+    epicId,
+    waves,
+    criticalPath,
+    criticalPathWeight: criticalPath.length > 0 ? criticalPath[criticalPath.length - 1].finish : 0,
+    missingDependencies
+  };
+}
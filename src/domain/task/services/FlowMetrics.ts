@@ -0,0 +1,147 @@
+import type { Task } from '../entities/Task.js';
+import { DEFAULT_COMPLEXITY_WEIGHT } from './ExecutionOrder.js';
+import { toDay, addDays } from './CalendarDays.js';
+import { getStatusAt, getCompletedAt, getStartedAt } from './StatusHistory.js';
+
+/**
+ * Burndown, burnup, throughput and cycle time of a set of Tasks, measured from their status history.
+ * Work is counted in complexity points; Tasks without a complexity score weigh DEFAULT_COMPLEXITY_WEIGHT.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scope and done work at the end of one day. Burnup plots scope and done; burndown plots remaining.
+ */
+export interface FlowPoint {
+  date: string; // YYYY-MM-DD
+  scope: number; // Points of the Tasks that existed
+  done: number;
+  remaining: number;
+  doneTasks: number;
+  totalTasks: number;
+}
+
+/**
+ * Tasks completed in one week, Monday to Sunday
+ */
+export interface ThroughputWeek {
+  weekStart: string; // YYYY-MM-DD, a Monday
+  tasks: number;
+  points: number;
+}
+
+/**
+ * Average days from starting to finishing the done Tasks of a complexity range
+ */
+export interface CycleTimeBucket {
+  bucket: string;
+  minComplexity?: number; // Undefined for Tasks without a complexity score
+  maxComplexity?: number;
+  tasks: number;
+  averageDays?: number; // Undefined when no Task in the range is done
+}
+
+export const COMPLEXITY_BUCKETS = [
+  { bucket: 'low (1-3)', minComplexity: 1, maxComplexity: 3 },
+  { bucket: 'medium (4-6)', minComplexity: 4, maxComplexity: 6 },
+  { bucket: 'high (7-10)', minComplexity: 7, maxComplexity: 10 }
+] as const;
+
+function getWeight(task: Task): number {
+  return task.complexity ?? DEFAULT_COMPLEXITY_WEIGHT;
+}
+
+/**
+ * Scope and done work at the end of each day from `from` to `to`, both YYYY-MM-DD
+ */
+export function getFlowSeries(tasks: Task[], from: string, to: string): FlowPoint[] {
+  const series: FlowPoint[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    const endOfDay = `${day}T23:59:59.999Z`;
+    const point: FlowPoint = { date: day, scope: 0, done: 0, remaining: 0, doneTasks: 0, totalTasks: 0 };
+    for (const task of tasks) {
+      const status = getStatusAt(task, endOfDay);
+      if (!status) continue;
+      point.scope += getWeight(task);
+      point.totalTasks++;
+      if (status === 'done') {
+        point.done += getWeight(task);
+        point.doneTasks++;
+      }
+    }
+    point.remaining = point.scope - point.done;
+    series.push(point);
+  }
+  return series;
+}
+
+/**
+ * The first day of the series: when the first of the Tasks was created
+ */
+export function getFirstDay(tasks: Task[], fallback: string): string {
+  return tasks.map(task => toDay(task.createdAt)).sort()[0] ?? fallback;
+}
+
+/**
+ * The last day worth plotting: today, or the day the last Task was completed if all of them are done
+ */
+export function getLastDay(tasks: Task[], now: Date = new Date()): string {
+  const completed = tasks.map(getCompletedAt);
+  if (tasks.length === 0 || completed.some(at => !at)) {
+    return toDay(now);
+  }
+  return completed.map(at => toDay(at!)).sort()[completed.length - 1];
+}
+
+/**
+ * Tasks completed in each of the last `weeks` weeks, the current week last
+ */
+export function getWeeklyThroughput(tasks: Task[], weeks: number, now: Date = new Date()): ThroughputWeek[] {
+  const today = toDay(now);
+  const monday = addDays(today, -((now.getUTCDay() + 6) % 7));
+  const completions = tasks
+    .map(task => ({ task, day: getCompletedAt(task) }))
+    .filter((entry): entry is { task: Task; day: string } => !!entry.day)
+    .map(({ task, day }) => ({ task, day: toDay(day) }));
+
+  const throughput: ThroughputWeek[] = [];
+  for (let index = weeks - 1; index >= 0; index--) {
+    const weekStart = addDays(monday, -7 * index);
+    const weekEnd = addDays(weekStart, 6);
+    const completed = completions.filter(({ day }) => weekStart <= day && day <= weekEnd);
+    throughput.push({
+      weekStart,
+      tasks: completed.length,
+      points: completed.reduce((sum, { task }) => sum + getWeight(task), 0)
+    });
+  }
+  return throughput;
+}
+
+/**
+ * Average cycle time of done Tasks per complexity range, from their first move to in-progress
+ * (or their creation) to when they were last marked done, in days rounded to one decimal
+ */
+export function getCycleTimes(tasks: Task[]): CycleTimeBucket[] {
+  const buckets: CycleTimeBucket[] = [
+    ...COMPLEXITY_BUCKETS.map(bucket => ({ ...bucket, tasks: 0 })),
+    { bucket: 'unrated', tasks: 0 }
+  ];
+  const totals = buckets.map(() => 0);
+  for (const task of tasks) {
+    const completedAt = getCompletedAt(task);
+    if (!completedAt) continue;
+    // Buckets are in ascending order, so the first one reaching the complexity holds it
+    const index = task.complexity === undefined
+      ? buckets.length - 1
+      : buckets.findIndex(bucket => bucket.maxComplexity !== undefined && task.complexity! <= bucket.maxComplexity);
+    if (index === -1) continue;
+    buckets[index].tasks++;
+    totals[index] += Math.max(0, Date.parse(completedAt) - Date.parse(getStartedAt(task))) / DAY_MS;
+  }
+  return buckets.map((bucket, index) => ({
+    ...bucket,
+    averageDays: bucket.tasks > 0 ? Math.round((totals[index] / bucket.tasks) * 10) / 10 : undefined
+  }));
+}
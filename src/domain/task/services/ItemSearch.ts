@@ -0,0 +1,207 @@
+import type { Epic, Priority, Status, Subtask, Task } from '../entities/Task.js';
+import { buildDependencyGraph } from './DependencyGraph.js';
+import { hasAllTags } from './Tags.js';
+import type { DependencyGraph } from './DependencyGraph.js';
+
+/**
+ * Kinds of items a search can return
+ */
+export type SearchItemKind = 'Epic' | 'Task' | 'Subtask';
+
+/**
+ * Text fields a query is matched against, with the weight a match in each adds to the score
+ */
+export const SEARCH_FIELD_WEIGHTS = {
+  description: 5,
+  tags: 4,
+  details: 3,
+  implementationPlan: 2,
+  testStrategy: 2,
+  files: 2
+} as const;
+
+export type SearchField = keyof typeof SEARCH_FIELD_WEIGHTS;
+
+/**
+ * Criteria an item must meet to be returned; criteria left out match every item
+ */
+export interface SearchFilters {
+  query?: string; // Every word must appear in at least one searched field
+  kinds?: SearchItemKind[];
+  epicId?: string; // Only search this Epic
+  statuses?: Status[];
+  priorities?: Priority[];
+  minComplexity?: number; // Items without a complexity score never match a complexity range
+  maxComplexity?: number;
+  tags?: string[]; // Items must carry every tag, their own or inherited (see Tags)
+  hasFiles?: boolean;
+  blocked?: boolean; // Waiting for an unfinished or missing dependency, its Epic's included
+  updatedSince?: string; // ISO date; items never updated are compared by their creation date
+}
+
+/**
+ * An item that met the search criteria, with the Epic, Task and Subtasks it is nested in
+ */
+export interface SearchResult {
+  kind: SearchItemKind;
+  item: Epic | Task | Subtask;
+  epic: Epic;
+  task?: Task; // The Task holding a Subtask
+  parents: Subtask[]; // Subtasks between the Task and a nested Subtask, outermost first
+  blocked: boolean;
+  score: number; // 0 when there is no query
+  matchedFields: SearchField[];
+}
+
+interface Candidate {
+  kind: SearchItemKind;
+  item: Epic | Task | Subtask;
+  epic: Epic;
+  task?: Task;
+  parents: Subtask[];
+}
+
+// Splits a query into lowercase words, keeping "quoted phrases" together
+function getQueryTerms(query: string): string[] {
+  const terms: string[] = [];
+  for (const match of query.toLowerCase().matchAll(/"([^"]+)"|(\S+)/g)) {
+    const term = (match[1] ?? match[2]).trim();
+    if (term) terms.push(term);
+  }
+  return terms;
+}
+
+function getFieldText(item: Epic | Task | Subtask, field: SearchField): string {
+  if (field === 'files') {
+    return item.files.map(file => `${file.filePath} ${file.description ?? ''}`).join('\n');
+  }
+  if (field === 'tags') {
+    return (item.tags ?? []).join(' ');
+  }
+  const value = (item as Partial<Record<SearchField, unknown>>)[field];
+  return typeof value === 'string' ? value : '';
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Scores an item against the query terms: each field weight counts once per term found in it,
+ * plus a point per extra occurrence (up to 3), and the description weight again when the whole
+ * query appears in the description's first line.
+ * Returns undefined if a term is found in none of the fields.
+ */
+function scoreItem(item: Epic | Task | Subtask, terms: string[], query: string): { score: number; matchedFields: SearchField[] } | undefined {
+  const texts = (Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[]).map(field => ({ field, text: getFieldText(item, field).toLowerCase() }));
+  const matchedFields = new Set<SearchField>();
+  let score = 0;
+
+  for (const term of terms) {
+    let found = false;
+    for (const { field, text } of texts) {
+      const occurrences = countOccurrences(text, term);
+      if (occurrences > 0) {
+        found = true;
+        matchedFields.add(field);
+        score += SEARCH_FIELD_WEIGHTS[field] + Math.min(occurrences - 1, 3);
+      }
+    }
+    if (!found) {
+      return undefined;
+    }
+  }
+
+  const title = item.description.split('\n')[0].toLowerCase();
+  if (terms.length > 1 && title.includes(query.trim().toLowerCase())) {
+    score += SEARCH_FIELD_WEIGHTS.description;
+  }
+  return { score, matchedFields: [...matchedFields] };
+}
+
+// Whether an Epic or Task waits for a dependency that is unfinished or doesn't exist
+function hasUnmetDependencies(graph: DependencyGraph, dependencies: string[]): boolean {
+  return dependencies.some(id => graph.get(id)?.status !== 'done');
+}
+
+function isBlocked(graph: DependencyGraph, candidate: Candidate): boolean {
+  const epicBlocked = hasUnmetDependencies(graph, candidate.epic.dependencies ?? []);
+  if (candidate.kind === 'Epic') {
+    return epicBlocked;
+  }
+  // Subtasks wait for whatever their Task waits for
+  const task = candidate.kind === 'Task' ? candidate.item as Task : candidate.task!;
+  return epicBlocked || hasUnmetDependencies(graph, task.dependencies ?? []);
+}
+
+// Lists every Epic, Task and Subtask with the items it is nested in
+function collectCandidates(epics: Epic[]): Candidate[] {
+  const candidates: Candidate[] = [];
+  const addSubtasks = (epic: Epic, task: Task, subtasks: Subtask[], parents: Subtask[]): void => {
+    for (const subtask of subtasks) {
+      candidates.push({ kind: 'Subtask', item: subtask, epic, task, parents });
+      addSubtasks(epic, task, subtask.subtasks ?? [], [...parents, subtask]);
+    }
+  };
+  for (const epic of epics) {
+    candidates.push({ kind: 'Epic', item: epic, epic, parents: [] });
+    for (const task of epic.tasks) {
+      candidates.push({ kind: 'Task', item: task, epic, parents: [] });
+      addSubtasks(epic, task, task.subtasks ?? [], []);
+    }
+  }
+  return candidates;
+}
+
+// The item's own tags and those it inherits from its Epic, Task and parent Subtasks
+function getInheritedTags(candidate: Candidate): string[] {
+  const owners: { tags?: string[] }[] = [candidate.epic, ...(candidate.task ? [candidate.task] : []), ...candidate.parents];
+  if (candidate.kind !== 'Epic') owners.push(candidate.item);
+  return owners.flatMap(owner => owner.tags ?? []);
+}
+
+function matchesFilters(candidate: Candidate, filters: SearchFilters, blocked: boolean): boolean {
+  const { item } = candidate;
+  if (filters.kinds?.length && !filters.kinds.includes(candidate.kind)) return false;
+  if (filters.epicId && candidate.epic.id !== filters.epicId) return false;
+  if (filters.statuses?.length && !filters.statuses.includes(item.status)) return false;
+  if (filters.priorities?.length && (!item.priority || !filters.priorities.includes(item.priority))) return false;
+  if (filters.minComplexity !== undefined && (item.complexity === undefined || item.complexity < filters.minComplexity)) return false;
+  if (filters.maxComplexity !== undefined && (item.complexity === undefined || item.complexity > filters.maxComplexity)) return false;
+  if (filters.tags?.length && !hasAllTags(getInheritedTags(candidate), filters.tags)) return false;
+  if (filters.hasFiles !== undefined && (item.files.length > 0) !== filters.hasFiles) return false;
+  if (filters.blocked !== undefined && blocked !== filters.blocked) return false;
+  if (filters.updatedSince !== undefined) {
+    const changedAt = Date.parse(item.updatedAt ?? item.createdAt);
+    if (isNaN(changedAt) || changedAt < Date.parse(filters.updatedSince)) return false;
+  }
+  return true;
+}
+
+/**
+ * Finds the Epics, Tasks and Subtasks that meet every filter and contain every word of the query.
+ * Results are ranked by score, then by most recently updated.
+ */
+export function searchItems(epics: Epic[], filters: SearchFilters): SearchResult[] {
+  const graph = buildDependencyGraph(epics);
+  const terms = filters.query ? getQueryTerms(filters.query) : [];
+  const results: SearchResult[] = [];
+
+  for (const candidate of collectCandidates(epics)) {
+    const blocked = isBlocked(graph, candidate);
+    if (!matchesFilters(candidate, filters, blocked)) {
+      continue;
+    }
+    const match = terms.length > 0 ? scoreItem(candidate.item, terms, filters.query!) : { score: 0, matchedFields: [] };
+    if (match) {
+      results.push({ ...candidate, blocked, ...match });
+    }
+  }
+
+  const changedAt = (result: SearchResult) => Date.parse(result.item.updatedAt ?? result.item.createdAt) || 0;
+  return results.sort((a, b) => b.score - a.score || changedAt(b) - changedAt(a));
+}
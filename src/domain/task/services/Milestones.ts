@@ -0,0 +1,135 @@
+import type { Epic, Task } from '../entities/Task.js';
+import type { Milestone } from '../entities/Milestone.js';
+import { DEFAULT_COMPLEXITY_WEIGHT } from './ExecutionOrder.js';
+import { toDay, addDays, daysBetween } from './CalendarDays.js';
+import { getCompletedAt } from './StatusHistory.js';
+
+/**
+ * Done and remaining work in a Milestone, counted in Tasks and in complexity points
+ * (Tasks without a complexity score weigh DEFAULT_COMPLEXITY_WEIGHT)
+ */
+export interface MilestoneProgress {
+  tasks: { epic: Epic; task: Task }[];
+  missingIds: string[]; // Member Epics and Tasks that no longer exist
+  totalTasks: number;
+  doneTasks: number;
+  inProgressTasks: number;
+  totalPoints: number;
+  donePoints: number;
+  percentage: number; // Done points out of all points, 0-100
+  totalDays: number;
+  elapsedDays: number; // Days from the start up to and including today, within the Milestone
+}
+
+/**
+ * Remaining work at the end of one day of a Milestone
+ */
+export interface BurndownPoint {
+  date: string; // YYYY-MM-DD
+  remaining: number; // Complexity points not yet done
+  ideal: number; // Points that would remain if work were done at a steady pace
+}
+
+/**
+ * Ensures the Milestone ends on or after the day it starts, and that a Sprint doesn't overlap another Sprint
+ * @throws Error naming the problem
+ */
+export function validateMilestone(milestone: Milestone, others: Milestone[]): void {
+  if (milestone.endDate < milestone.startDate) {
+    throw new Error(`${milestone.name} ends (${milestone.endDate}) before it starts (${milestone.startDate}).`);
+  }
+  if (milestone.kind !== 'sprint') {
+    return;
+  }
+  const overlapping = others.find(other =>
+    other.id !== milestone.id && other.kind === 'sprint' &&
+    other.startDate <= milestone.endDate && milestone.startDate <= other.endDate
+  );
+  if (overlapping) {
+    throw new Error(`Sprint "${milestone.name}" overlaps Sprint "${overlapping.name}" (${overlapping.startDate} to ${overlapping.endDate}). Sprints can't overlap.`);
+  }
+}
+
+/**
+ * The Sprint running on the given day, if any
+ */
+export function getActiveSprint(milestones: Milestone[], now: Date = new Date()): Milestone | undefined {
+  const today = toDay(now);
+  return milestones.find(m => m.kind === 'sprint' && m.startDate <= today && today <= m.endDate);
+}
+
+/**
+ * Whether the Task belongs to the Milestone, itself or through its Epic
+ */
+export function isInMilestone(milestone: Milestone, epicId: string, taskId: string): boolean {
+  return milestone.epicIds.includes(epicId) || milestone.taskIds.includes(taskId);
+}
+
+/**
+ * Counts the Milestone's Tasks by status and complexity, and how far through its dates we are
+ */
+export function getMilestoneProgress(milestone: Milestone, epics: Epic[], now: Date = new Date()): MilestoneProgress {
+  const tasks: { epic: Epic; task: Task }[] = [];
+  for (const epic of epics) {
+    for (const task of epic.tasks) {
+      if (isInMilestone(milestone, epic.id, task.id)) {
+        tasks.push({ epic, task });
+      }
+    }
+  }
+  const epicIds = new Set(epics.map(epic => epic.id));
+  const taskIds = new Set(tasks.map(({ task }) => task.id));
+  const missingIds = [
+    ...milestone.epicIds.filter(id => !epicIds.has(id)),
+    ...milestone.taskIds.filter(id => !taskIds.has(id))
+  ];
+
+  const weight = (task: Task) => task.complexity ?? DEFAULT_COMPLEXITY_WEIGHT;
+  const done = tasks.filter(({ task }) => task.status === 'done');
+  const totalPoints = tasks.reduce((sum, { task }) => sum + weight(task), 0);
+  const donePoints = done.reduce((sum, { task }) => sum + weight(task), 0);
+  const totalDays = daysBetween(milestone.startDate, milestone.endDate) + 1;
+  const elapsedDays = Math.min(Math.max(daysBetween(milestone.startDate, toDay(now)) + 1, 0), totalDays);
+
+  return {
+    tasks,
+    missingIds,
+    totalTasks: tasks.length,
+    doneTasks: done.length,
+    inProgressTasks: tasks.filter(({ task }) => task.status === 'in-progress').length,
+    totalPoints,
+    donePoints,
+    percentage: totalPoints > 0 ? Math.round((donePoints / totalPoints) * 100) : 0,
+    totalDays,
+    elapsedDays
+  };
+}
+
+/**
+ * Remaining complexity points at the end of each day from the Milestone's start up to today or its end,
+ * whichever comes first. Done Tasks count as done on the day they were last marked done.
+ */
+export function getBurndown(milestone: Milestone, progress: MilestoneProgress, now: Date = new Date()): BurndownPoint[] {
+  const lastDay = [milestone.endDate, toDay(now)].sort()[0];
+  if (lastDay < milestone.startDate) {
+    return [];
+  }
+
+  // Day on which each done Task was completed
+  const doneOn = progress.tasks.flatMap(({ task }) => {
+    const completedAt = getCompletedAt(task); // Undefined unless done
+    return completedAt ? [{ day: toDay(completedAt), points: task.complexity ?? DEFAULT_COMPLEXITY_WEIGHT }] : [];
+  });
+
+  const points: BurndownPoint[] = [];
+  const steps = Math.max(progress.totalDays - 1, 1);
+  for (let index = 0, day = milestone.startDate; day <= lastDay; index++, day = addDays(day, 1)) {
+    const burned = doneOn.filter(done => done.day <= day).reduce((sum, done) => sum + done.points, 0);
+    points.push({
+      date: day,
+      remaining: progress.totalPoints - burned,
+      ideal: Math.round((progress.totalPoints * (1 - Math.min(index, steps) / steps)) * 10) / 10
+    });
+  }
+  return points;
+}
@@ -0,0 +1,194 @@
+import type { Epic, Subtask, Task } from '../entities/Task.js';
+import { DEFAULT_COMPLEXITY_WEIGHT } from './ExecutionOrder.js';
+import { toDay, addDays, daysBetween } from './CalendarDays.js';
+
+/**
+ * Projects when Epics and Tasks will start and finish from their dependencies and estimated effort,
+ * and compares that with their due dates. Tasks run in parallel unless a dependency orders them;
+ * the capacity of assignees isn't modelled.
+ */
+
+export const HOURS_PER_DAY = 8;
+export const DAYS_PER_COMPLEXITY_POINT = 0.5; // Used when a Task has no estimatedHours
+
+/**
+ * - done: finished, whatever its dates
+ * - overdue: its due date has passed
+ * - at-risk: projected to finish after its due date
+ * - on-track: projected to finish on or before its due date
+ * - unscheduled: no due date
+ */
+export type ScheduleStatus = 'done' | 'overdue' | 'at-risk' | 'on-track' | 'unscheduled';
+
+/**
+ * Projected dates of an Epic or Task, as YYYY-MM-DD calendar days.
+ * Done items keep the day they were created or started and the day they were last updated.
+ */
+export interface ScheduledItem {
+  kind: 'Epic' | 'Task';
+  id: string;
+  epic: Epic;
+  task?: Task;
+  start: string;
+  finish: string; // Last day of work, inclusive
+  dueDate?: string;
+  durationDays: number; // Remaining working days for unfinished items
+  status: ScheduleStatus;
+  slackDays?: number; // Days between the projected finish and the due date; negative when late
+}
+
+/**
+ * Projected dates of every Epic and Task, by ID
+ */
+export type Schedule = Map<string, ScheduledItem>;
+
+/**
+ * Ensures an item doesn't fall due before it starts
+ * @throws Error naming the item and both dates
+ */
+export function validateItemDates(item: { startDate?: string; dueDate?: string }, label: string): void {
+  if (item.startDate && item.dueDate && toDay(item.dueDate) < toDay(item.startDate)) {
+    throw new Error(`${label} is due (${toDay(item.dueDate)}) before it starts (${toDay(item.startDate)}).`);
+  }
+}
+
+// Share of a Task's Subtasks (nested ones included) that are done, 0-1
+function getDoneFraction(subtasks: Subtask[]): number {
+  let total = 0;
+  let done = 0;
+  const visit = (items: Subtask[]): void => {
+    for (const subtask of items) {
+      total++;
+      if (subtask.status === 'done') done++;
+      visit(subtask.subtasks ?? []);
+    }
+  };
+  visit(subtasks);
+  return total > 0 ? done / total : 0;
+}
+
+/**
+ * Working days an item still needs: its estimated hours, or its complexity when it has no estimate,
+ * less the share of its Subtasks that are done. At least one day.
+ */
+export function getRemainingDays(item: { estimatedHours?: number; complexity?: number; subtasks?: Subtask[] }): number {
+  const days = item.estimatedHours !== undefined
+    ? item.estimatedHours / HOURS_PER_DAY
+    : (item.complexity ?? DEFAULT_COMPLEXITY_WEIGHT) * DAYS_PER_COMPLEXITY_POINT;
+  return Math.max(1, Math.ceil(days * (1 - getDoneFraction(item.subtasks ?? []))));
+}
+
+function getStatus(done: boolean, finish: string, dueDate: string | undefined, today: string): ScheduleStatus {
+  if (done) return 'done';
+  if (!dueDate) return 'unscheduled';
+  if (dueDate < today) return 'overdue';
+  return finish > dueDate ? 'at-risk' : 'on-track';
+}
+
+/**
+ * Projects the start and finish of every Epic and Task. Unfinished work starts no earlier than today,
+ * its own and its Epic's start dates, and the day after its unfinished dependencies (the Epic's included) finish.
+ * An Epic spans its Tasks; one without Tasks is scheduled from its own estimate.
+ * Dependencies that are missing or part of a cycle are ignored.
+ */
+export function buildSchedule(epics: Epic[], now: Date = new Date()): Schedule {
+  const today = toDay(now);
+  const schedule: Schedule = new Map();
+  const epicsById = new Map(epics.map(epic => [epic.id, epic]));
+  const tasksById = new Map(epics.flatMap(epic => epic.tasks.map(task => [task.id, { epic, task }] as const)));
+  const visiting = new Set<string>();
+
+  // Last day of an unfinished dependency; undefined if it is done or doesn't exist
+  const finishOf = (id: string): string | undefined => {
+    const epic = epicsById.get(id);
+    const entry = tasksById.get(id);
+    const item = epic ? scheduleEpic(epic) : entry ? scheduleTask(entry.epic, entry.task) : undefined;
+    return item && item.status !== 'done' ? item.finish : undefined;
+  };
+
+  // First day unfinished work may start
+  const getEarliestStart = (dates: (string | undefined)[], dependencies: string[]): string => {
+    const days = [today, ...dates.filter((date): date is string => !!date).map(toDay)];
+    for (const id of dependencies) {
+      const finish = visiting.has(id) ? undefined : finishOf(id);
+      if (finish) days.push(addDays(finish, 1));
+    }
+    return days.sort().at(-1)!;
+  };
+
+  const scheduleTask = (epic: Epic, task: Task): ScheduledItem => {
+    const existing = schedule.get(task.id);
+    if (existing) return existing;
+    visiting.add(task.id);
+
+    const done = task.status === 'done';
+    let start: string;
+    let finish: string;
+    let durationDays = 0;
+    if (done) {
+      finish = toDay(task.updatedAt);
+      start = [toDay(task.startDate ?? task.createdAt), finish].sort()[0];
+    } else {
+      start = getEarliestStart([task.startDate, epic.startDate], [...(epic.dependencies ?? []), ...(task.dependencies ?? [])]);
+      durationDays = getRemainingDays(task);
+      finish = addDays(start, durationDays - 1);
+    }
+    const dueDate = task.dueDate ? toDay(task.dueDate) : undefined;
+    const item: ScheduledItem = {
+      kind: 'Task', id: task.id, epic, task, start, finish, dueDate, durationDays,
+      status: getStatus(done, finish, dueDate, today),
+      slackDays: dueDate && !done ? daysBetween(finish, dueDate) : undefined
+    };
+    visiting.delete(task.id);
+    schedule.set(task.id, item);
+    return item;
+  };
+
+  const scheduleEpic = (epic: Epic): ScheduledItem => {
+    const existing = schedule.get(epic.id);
+    if (existing) return existing;
+    visiting.add(epic.id);
+
+    // An Epic whose Tasks are all done is finished even if nobody closed it
+    const done = epic.status === 'done' || (epic.tasks.length > 0 && epic.tasks.every(task => task.status === 'done'));
+    let start: string;
+    let finish: string;
+    let durationDays = 0;
+    if (epic.tasks.length > 0) {
+      const tasks = epic.tasks.map(task => scheduleTask(epic, task));
+      start = tasks.map(task => task.start).sort()[0];
+      finish = tasks.map(task => task.finish).sort().at(-1)!;
+      durationDays = Math.max(0, ...tasks.map(task => task.status === 'done' ? 0 : daysBetween(today, task.finish) + 1));
+    } else if (done) {
+      finish = toDay(epic.updatedAt);
+      start = [toDay(epic.startDate ?? epic.createdAt), finish].sort()[0];
+    } else {
+      start = getEarliestStart([epic.startDate], epic.dependencies ?? []);
+      durationDays = getRemainingDays(epic);
+      finish = addDays(start, durationDays - 1);
+    }
+    const dueDate = epic.dueDate ? toDay(epic.dueDate) : undefined;
+    const item: ScheduledItem = {
+      kind: 'Epic', id: epic.id, epic, start, finish, dueDate, durationDays,
+      status: getStatus(done, finish, dueDate, today),
+      slackDays: dueDate && !done ? daysBetween(finish, dueDate) : undefined
+    };
+    visiting.delete(epic.id);
+    schedule.set(epic.id, item);
+    return item;
+  };
+
+  for (const epic of epics) {
+    scheduleEpic(epic);
+  }
+  return schedule;
+}
+
+/**
+ * Overdue and at-risk items, most overdue first
+ */
+export function getScheduleIssues(schedule: Schedule, epicId?: string): ScheduledItem[] {
+  return [...schedule.values()]
+    .filter(item => (item.status === 'overdue' || item.status === 'at-risk') && (!epicId || item.epic.id === epicId))
+    .sort((a, b) => a.dueDate!.localeCompare(b.dueDate!) || a.finish.localeCompare(b.finish));
+}
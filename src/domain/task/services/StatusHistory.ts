@@ -0,0 +1,86 @@
+import type { Epic, Status, StatusChange, Task } from '../entities/Task.js';
+
+/**
+ * Epics and Tasks keep every status they enter, with when they entered it, so completion
+ * and cycle times can be measured later. Changes are picked up when Epics are saved.
+ */
+
+type TrackedItem = Epic | Task;
+
+// Appends a change if the item's status differs from the last one recorded
+function recordItem(item: TrackedItem, previous: TrackedItem | undefined, changedAt: string): void {
+  const history = item.statusHistory ?? [];
+  const last = history[history.length - 1];
+  let change: StatusChange | undefined;
+  if (last) {
+    change = last.to !== item.status ? { from: last.to, to: item.status, changedAt } : undefined;
+  } else if (!previous) {
+    change = { to: item.status, changedAt: item.createdAt }; // New item: the status it was created with
+  } else if (previous.status !== item.status) {
+    change = { from: previous.status, to: item.status, changedAt }; // First change recorded for an older item
+  }
+  if (change) {
+    item.statusHistory = [...history, change];
+  }
+}
+
+/**
+ * Appends the status changes between the Epics as last loaded and as about to be saved.
+ * Items created since are recorded with the status they were created with, at their creation time.
+ */
+export function recordStatusChanges(before: Epic[], after: Epic[], now: Date = new Date()): void {
+  const changedAt = now.toISOString();
+  const previousEpics = new Map(before.map(epic => [epic.id, epic]));
+  const previousTasks = new Map(before.flatMap(epic => epic.tasks.map(task => [task.id, task] as const)));
+  for (const epic of after) {
+    recordItem(epic, previousEpics.get(epic.id), changedAt);
+    for (const task of epic.tasks) {
+      recordItem(task, previousTasks.get(task.id), changedAt);
+    }
+  }
+}
+
+/**
+ * The item's status changes, oldest first, starting with the status it was created with.
+ * Items saved before changes were recorded are assumed to have kept the status they had then since
+ * their creation; if they are done and have no recorded changes, they are taken as done when last updated.
+ */
+export function getStatusChanges(item: TrackedItem): StatusChange[] {
+  const history = item.statusHistory ?? [];
+  if (history.length > 0) {
+    return history[0].from ? [{ to: history[0].from, changedAt: item.createdAt }, ...history] : history;
+  }
+  return item.status === 'done' && item.updatedAt !== item.createdAt
+    ? [{ to: 'todo', changedAt: item.createdAt }, { from: 'todo', to: 'done', changedAt: item.updatedAt }]
+    : [{ to: item.status, changedAt: item.createdAt }];
+}
+
+/**
+ * The item's status at the given time; undefined if it didn't exist yet
+ */
+export function getStatusAt(item: TrackedItem, time: string): Status | undefined {
+  let status: Status | undefined;
+  for (const change of getStatusChanges(item)) {
+    if (Date.parse(change.changedAt) > Date.parse(time)) break;
+    status = change.to;
+  }
+  return status;
+}
+
+/**
+ * When the item was last marked done, if it is done
+ */
+export function getCompletedAt(item: TrackedItem): string | undefined {
+  if (item.status !== 'done') {
+    return undefined;
+  }
+  const changes = getStatusChanges(item);
+  return [...changes].reverse().find(change => change.to === 'done')?.changedAt ?? item.updatedAt;
+}
+
+/**
+ * When work on the item first started: its first move to in-progress, or its creation if it went straight to done
+ */
+export function getStartedAt(item: TrackedItem): string {
+  return getStatusChanges(item).find(change => change.to === 'in-progress')?.changedAt ?? item.createdAt;
+}
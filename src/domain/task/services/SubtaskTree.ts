@@ -0,0 +1,84 @@
+import type { Epic, Subtask } from '../entities/Task.js';
+import { MaxDepthExceededError } from '../errors/MaxDepthExceededError.js';
+
+/**
+ * Levels of work items allowed below an Epic that doesn't set maxDepth:
+ * Tasks (level 1), their Subtasks (level 2) and one level of nested Subtasks (level 3)
+ */
+export const DEFAULT_MAX_DEPTH = 3;
+
+/**
+ * Level of the direct Subtasks of a Task
+ */
+export const SUBTASK_LEVEL = 2;
+
+/**
+ * Where a Subtask sits within a Task's tree
+ */
+export interface SubtaskLocation {
+  subtask: Subtask;
+  parent?: Subtask; // Undefined for direct Subtasks of the Task
+  siblings: Subtask[]; // The list holding the Subtask
+  level: number;
+}
+
+/**
+ * Levels of Tasks and Subtasks the Epic allows
+ */
+export function getMaxDepth(epic: Epic): number {
+  return epic.maxDepth ?? DEFAULT_MAX_DEPTH;
+}
+
+/**
+ * Finds a Subtask at any level below a Task
+ */
+export function findSubtask(
+  subtasks: Subtask[],
+  subtaskId: string,
+  level: number = SUBTASK_LEVEL,
+  parent?: Subtask
+): SubtaskLocation | undefined {
+  for (const subtask of subtasks) {
+    if (subtask.id === subtaskId) {
+      return { subtask, parent, siblings: subtasks, level };
+    }
+    const nested = findSubtask(subtask.subtasks ?? [], subtaskId, level + 1, subtask);
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists every Subtask at any level, parents before their children
+ */
+export function flattenSubtasks(subtasks: Subtask[]): Subtask[] {
+  return subtasks.flatMap(subtask => [subtask, ...flattenSubtasks(subtask.subtasks ?? [])]);
+}
+
+/**
+ * Counts Subtasks at every level and how many of them are done
+ */
+export function countSubtasks(subtasks: Subtask[]): { total: number; done: number } {
+  const all = flattenSubtasks(subtasks);
+  return { total: all.length, done: all.filter(s => s.status === 'done').length };
+}
+
+/**
+ * Number of levels in a Subtask tree (0 when there are no Subtasks)
+ */
+export function getTreeDepth(subtasks: Subtask[]): number {
+  return subtasks.reduce((depth, subtask) => Math.max(depth, 1 + getTreeDepth(subtask.subtasks ?? [])), 0);
+}
+
+/**
+ * Ensures an item at the given level fits within the Epic's maxDepth
+ * @throws MaxDepthExceededError if it would be nested too deeply
+ */
+export function assertWithinMaxDepth(epic: Epic, level: number): void {
+  const maxDepth = getMaxDepth(epic);
+  if (level > maxDepth) {
+    throw new MaxDepthExceededError(epic.id, level, maxDepth);
+  }
+}
@@ -0,0 +1,144 @@
+import type { Epic, Subtask, Task } from '../entities/Task.js';
+
+/**
+ * Tags group Epics, Tasks and Subtasks by area (e.g. frontend, infra, security).
+ * They compare case-insensitively and are inherited downwards: a Task carries its Epic's tags,
+ * and a Subtask carries those of its Task and of the Subtasks it is nested in.
+ */
+
+/**
+ * Share of the Tasks and Subtasks carrying a tag that are done
+ */
+export interface TagProgress {
+  tag: string;
+  epics: number; // Epics tagged directly
+  tasks: number;
+  doneTasks: number;
+  subtasks: number;
+  doneSubtasks: number;
+  percentage: number; // Done Tasks and Subtasks out of all of them, 0-100
+}
+
+function tagKey(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+/**
+ * Trims tags and drops empty and duplicate ones, keeping the first spelling of each
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  for (const tag of tags.map(t => t.trim())) {
+    if (tag && !seen.has(tagKey(tag))) {
+      seen.add(tagKey(tag));
+      normalized.push(tag);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Whether the tags include every required tag
+ */
+export function hasAllTags(tags: string[] | undefined, required: string[]): boolean {
+  const keys = new Set((tags ?? []).map(tagKey));
+  return required.every(tag => keys.has(tagKey(tag)));
+}
+
+/**
+ * Adds tags the item doesn't have yet
+ * @returns The tags that were added
+ */
+export function addTags(item: { tags?: string[] }, tags: string[]): string[] {
+  const added = normalizeTags(tags).filter(tag => !hasAllTags(item.tags, [tag]));
+  if (added.length > 0) {
+    item.tags = [...(item.tags ?? []), ...added];
+  }
+  return added;
+}
+
+/**
+ * Removes tags from the item, ignoring ones it doesn't have
+ * @returns The tags that were removed, as they were spelled on the item
+ */
+export function removeTags(item: { tags?: string[] }, tags: string[]): string[] {
+  const keys = new Set(tags.map(tagKey));
+  const removed = (item.tags ?? []).filter(tag => keys.has(tagKey(tag)));
+  if (removed.length > 0) {
+    item.tags = item.tags!.filter(tag => !keys.has(tagKey(tag)));
+  }
+  return removed;
+}
+
+// Visits every Subtask with the tags it inherits and its own
+function forEachSubtask(subtasks: Subtask[], inherited: string[], visit: (subtask: Subtask, tags: string[]) => void): void {
+  for (const subtask of subtasks) {
+    const tags = [...inherited, ...(subtask.tags ?? [])];
+    visit(subtask, tags);
+    forEachSubtask(subtask.subtasks ?? [], tags, visit);
+  }
+}
+
+/**
+ * Whether the Task carries every required tag, itself or through its Epic, or has a Subtask that does
+ */
+export function taskMatchesTags(epic: Epic, task: Task, required: string[]): boolean {
+  const tags = [...(epic.tags ?? []), ...(task.tags ?? [])];
+  if (hasAllTags(tags, required)) {
+    return true;
+  }
+  let found = false;
+  forEachSubtask(task.subtasks ?? [], tags, (_subtask, subtaskTags) => {
+    found = found || hasAllTags(subtaskTags, required);
+  });
+  return found;
+}
+
+/**
+ * Whether the Epic carries every required tag or has a Task that matches them
+ */
+export function epicMatchesTags(epic: Epic, required: string[]): boolean {
+  return hasAllTags(epic.tags, required) || epic.tasks.some(task => taskMatchesTags(epic, task, required));
+}
+
+/**
+ * Progress of the Tasks and Subtasks carrying each tag, including inherited tags, sorted by tag
+ */
+export function getTagProgress(epics: Epic[]): TagProgress[] {
+  const progress = new Map<string, TagProgress>();
+  const entryFor = (tag: string): TagProgress => {
+    let entry = progress.get(tagKey(tag));
+    if (!entry) {
+      entry = { tag, epics: 0, tasks: 0, doneTasks: 0, subtasks: 0, doneSubtasks: 0, percentage: 0 };
+      progress.set(tagKey(tag), entry);
+    }
+    return entry;
+  };
+
+  for (const epic of epics) {
+    normalizeTags(epic.tags ?? []).forEach(tag => entryFor(tag).epics++);
+    for (const task of epic.tasks) {
+      const taskTags = [...(epic.tags ?? []), ...(task.tags ?? [])];
+      for (const tag of normalizeTags(taskTags)) {
+        const entry = entryFor(tag);
+        entry.tasks++;
+        if (task.status === 'done') entry.doneTasks++;
+      }
+      forEachSubtask(task.subtasks ?? [], taskTags, (subtask, subtaskTags) => {
+        for (const tag of normalizeTags(subtaskTags)) {
+          const entry = entryFor(tag);
+          entry.subtasks++;
+          if (subtask.status === 'done') entry.doneSubtasks++;
+        }
+      });
+    }
+  }
+
+  return [...progress.values()]
+    .map(entry => {
+      const total = entry.tasks + entry.subtasks;
+      return { ...entry, percentage: total > 0 ? Math.round(((entry.doneTasks + entry.doneSubtasks) / total) * 100) : 0 };
+    })
+    .sort((a, b) => a.tag.localeCompare(b.tag));
+}
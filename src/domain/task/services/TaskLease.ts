@@ -0,0 +1,93 @@
+import type { Task } from '../entities/Task.js';
+import { TaskLeaseConflictError } from '../errors/TaskLeaseConflictError.js';
+
+/**
+ * A lease is an agent's temporary, exclusive claim on a Task: the agent is recorded as the
+ * Task's assignee and leaseExpiresAt says until when. Other agents skip leased Tasks, and
+ * anyone may claim a Task again once its lease has expired. The assignee the Task was planned
+ * for is kept in plannedAssignee meanwhile and given back when the lease ends.
+ */
+
+/**
+ * Lease length used when the caller doesn't ask for one
+ */
+export const DEFAULT_LEASE_MINUTES = 30;
+
+/**
+ * Whether the Task is currently claimed by someone
+ */
+export function hasActiveLease(task: Task, now: Date = new Date()): boolean {
+  return !!task.assignee && !!task.leaseExpiresAt && Date.parse(task.leaseExpiresAt) > now.getTime();
+}
+
+/**
+ * Whether the Task is currently claimed by someone other than the given agent.
+ * Callers without an agentId are "someone else" for every active lease.
+ */
+export function isLeasedToOther(task: Task, agentId: string | undefined, now: Date = new Date()): boolean {
+  return hasActiveLease(task, now) && task.assignee !== agentId;
+}
+
+/**
+ * Claims the Task for the agent, or extends the agent's existing lease
+ * @throws TaskLeaseConflictError if another agent holds an active lease
+ */
+export function claimTask(task: Task, agentId: string, leaseMinutes: number = DEFAULT_LEASE_MINUTES, now: Date = new Date()): void {
+  if (isLeasedToOther(task, agentId, now)) {
+    throw new TaskLeaseConflictError(task.id, task.assignee!, task.leaseExpiresAt!);
+  }
+  // Without a lease, even an expired one, the assignee is the planned one
+  if (!task.leaseExpiresAt && task.assignee) {
+    task.plannedAssignee = task.assignee;
+  }
+  task.assignee = agentId;
+  task.leaseExpiresAt = new Date(now.getTime() + leaseMinutes * 60_000).toISOString();
+  task.updatedAt = now.toISOString();
+}
+
+/**
+ * Extends a lease the agent already holds. An expired lease can still be renewed
+ * as long as no one else has claimed the Task since.
+ * @throws TaskLeaseConflictError if another agent holds an active lease
+ * @throws Error if the agent doesn't hold the lease
+ */
+export function renewLease(task: Task, agentId: string, leaseMinutes: number = DEFAULT_LEASE_MINUTES, now: Date = new Date()): void {
+  if (isLeasedToOther(task, agentId, now)) {
+    throw new TaskLeaseConflictError(task.id, task.assignee!, task.leaseExpiresAt!);
+  }
+  if (task.assignee !== agentId || !task.leaseExpiresAt) {
+    throw new Error(`Task ${task.id} is not leased to ${agentId}. Claim it with executeItem first.`);
+  }
+  claimTask(task, agentId, leaseMinutes, now);
+}
+
+/**
+ * Gives up the lease so other agents can pick the Task up.
+ * Without an agentId the lease is released whoever holds it.
+ * @throws TaskLeaseConflictError if another agent holds an active lease
+ */
+export function releaseLease(task: Task, agentId?: string, now: Date = new Date()): void {
+  if (agentId !== undefined && isLeasedToOther(task, agentId, now)) {
+    throw new TaskLeaseConflictError(task.id, task.assignee!, task.leaseExpiresAt!);
+  }
+  if (task.leaseExpiresAt) {
+    endLease(task);
+    task.updatedAt = now.toISOString();
+  }
+}
+
+/**
+ * Drops the lease, whoever holds it, giving the Task back its planned assignee, if any
+ */
+export function endLease(task: Task): void {
+  if (!task.leaseExpiresAt) {
+    return;
+  }
+  if (task.plannedAssignee) {
+    task.assignee = task.plannedAssignee;
+  } else {
+    delete task.assignee; // The assignee was the lease holder
+  }
+  delete task.plannedAssignee;
+  delete task.leaseExpiresAt;
+}
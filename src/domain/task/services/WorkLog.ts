@@ -0,0 +1,113 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Epic, Task, WorkLogEntry, WorkLogEntryType } from '../entities/Task.js';
+
+/**
+ * Work sessions are recorded as sessionStart/sessionEnd entries in a Task's work log.
+ * A session belongs to the agent that started it and stays open until the same agent ends it;
+ * elapsed time adds up every session, so parallel sessions by different agents count separately.
+ */
+
+/**
+ * Appends an entry to the Task's work log. Existing entries are never changed.
+ */
+export function appendWorkLogEntry(
+  task: Task,
+  type: WorkLogEntryType,
+  options: { message?: string; agentId?: string } = {},
+  now: Date = new Date()
+): WorkLogEntry {
+  const entry: WorkLogEntry = {
+    id: uuidv4(),
+    type,
+    message: options.message,
+    agentId: options.agentId,
+    createdAt: now.toISOString()
+  };
+  task.workLog = [...(task.workLog ?? []), entry];
+  return entry;
+}
+
+/**
+ * Finds the agent's session that hasn't been ended yet
+ */
+export function getOpenSession(task: Task, agentId?: string): WorkLogEntry | undefined {
+  let open: WorkLogEntry | undefined;
+  for (const entry of task.workLog ?? []) {
+    if (entry.agentId !== agentId) continue;
+    if (entry.type === 'sessionStart') open = open ?? entry;
+    if (entry.type === 'sessionEnd') open = undefined;
+  }
+  return open;
+}
+
+/**
+ * Starts a session for the agent unless one is already open
+ * @returns the new sessionStart entry, or undefined if a session was already open
+ */
+export function startSession(task: Task, agentId?: string, message?: string, now: Date = new Date()): WorkLogEntry | undefined {
+  if (getOpenSession(task, agentId)) {
+    return undefined;
+  }
+  return appendWorkLogEntry(task, 'sessionStart', { message, agentId }, now);
+}
+
+/**
+ * Ends the agent's open session
+ * @returns the sessionEnd entry, or undefined if the agent had no open session
+ */
+export function endSession(task: Task, agentId?: string, message?: string, now: Date = new Date()): WorkLogEntry | undefined {
+  if (!getOpenSession(task, agentId)) {
+    return undefined;
+  }
+  return appendWorkLogEntry(task, 'sessionEnd', { message, agentId }, now);
+}
+
+/**
+ * Ends every open session on the Task, e.g. when it is completed
+ */
+export function endAllSessions(task: Task, message?: string, now: Date = new Date()): void {
+  const agents = new Set((task.workLog ?? []).map(entry => entry.agentId));
+  for (const agentId of agents) {
+    endSession(task, agentId, message, now);
+  }
+}
+
+/**
+ * Milliseconds spent in the Task's sessions; open sessions count until `now`
+ */
+export function getElapsedTime(task: Task, now: Date = new Date()): number {
+  const openSince = new Map<string | undefined, number>();
+  let elapsed = 0;
+  for (const entry of task.workLog ?? []) {
+    const time = Date.parse(entry.createdAt);
+    if (entry.type === 'sessionStart' && !openSince.has(entry.agentId)) {
+      openSince.set(entry.agentId, time);
+    } else if (entry.type === 'sessionEnd' && openSince.has(entry.agentId)) {
+      elapsed += time - openSince.get(entry.agentId)!;
+      openSince.delete(entry.agentId);
+    }
+  }
+  for (const start of openSince.values()) {
+    elapsed += Math.max(0, now.getTime() - start);
+  }
+  return elapsed;
+}
+
+/**
+ * Milliseconds spent in the sessions of all the Epic's Tasks
+ */
+export function getEpicElapsedTime(epic: Epic, now: Date = new Date()): number {
+  return epic.tasks.reduce((total, task) => total + getElapsedTime(task, now), 0);
+}
+
+/**
+ * Formats a duration as e.g. "2h 05m", "12m" or "<1m"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) {
+    return '<1m';
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${String(minutes % 60).padStart(2, '0')}m` : `${minutes}m`;
+}
@@ -1,26 +1,39 @@
 import { IntelliPlanApp } from "./core/app.js";
 import type { IntelliPlanConfig } from "./core/app.js";
 
+/**
+ * Splits a comma-separated environment variable into its entries
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  return value ? value.split(',').map(entry => entry.trim()).filter(Boolean) : undefined;
+}
+
 /**
  * Application entry point
  */
 async function main(): Promise<void> {
   // Get configuration from environment variables
   const config: Partial<IntelliPlanConfig> = {
-    storageMode: (process.env.STORAGE_MODE === 'remote') ? 'remote' : 'local',
+    storageMode: (process.env.STORAGE_MODE === 'remote' || process.env.STORAGE_MODE === 'sqlite') ? process.env.STORAGE_MODE : 'local',
     localBasePath: process.env.LOCAL_STORAGE_PATH,
     remoteApiUrl: process.env.REMOTE_API_URL,
-    remoteApiKey: process.env.REMOTE_API_KEY
+    remoteApiKey: process.env.REMOTE_API_KEY,
+    transport: process.env.MCP_TRANSPORT === 'http' ? 'http' : 'stdio',
+    httpPort: process.env.MCP_HTTP_PORT ? parseInt(process.env.MCP_HTTP_PORT, 10) : undefined,
+    httpHost: process.env.MCP_HTTP_HOST,
+    httpAllowedHosts: parseList(process.env.MCP_ALLOWED_HOSTS),
+    httpAllowedOrigins: parseList(process.env.MCP_ALLOWED_ORIGINS)
   };
   
   // Log the configuration
   console.log(`Storage mode: ${config.storageMode}`);
-  if (config.storageMode === 'local' && config.localBasePath) {
+  if ((config.storageMode === 'local' || config.storageMode === 'sqlite') && config.localBasePath) {
     console.log(`Local storage path: ${config.localBasePath}`);
   } else if (config.storageMode === 'remote') {
     const apiUrl = config.remoteApiUrl || 'http://localhost:4007';
     console.log(`Remote API URL: ${apiUrl} (default: http://localhost:4007)`);
   }
+  console.error(`MCP transport: ${config.transport}`);
   
   // Create and initialize the app with the configuration
   const app = new IntelliPlanApp(config);
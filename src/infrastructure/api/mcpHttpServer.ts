@@ -0,0 +1,284 @@
+import express from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import bodyParser from 'body-parser';
+import { randomUUID } from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { applySecurityMiddleware } from './securityMiddleware.js';
+
+// Requests per IP per 15 minutes; every MCP message is a request, so this is well above the REST API's limit
+const MCP_MAX_REQUESTS = 1000;
+
+// Sessions without a request or open stream for this long are closed, so abandoned clients don't keep their server
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Names the server can always be reached by from the machine it runs on
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Options for the MCP HTTP endpoint
+ */
+export interface McpHttpOptions {
+  /**
+   * Interface to listen on (default: 127.0.0.1, so only local clients can connect)
+   */
+  host?: string;
+
+  /**
+   * Host names clients may address the server by, besides the loopback names and the host listened on
+   */
+  allowedHosts?: string[];
+
+  /**
+   * Origins of browser clients allowed to connect; requests from any other origin are rejected
+   */
+  allowedOrigins?: string[];
+
+  /**
+   * Milliseconds a session may go without requests before it is closed (default: 30 minutes)
+   */
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * An MCP session: its transport, the streams it holds open and the timer closing it once idle
+ */
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  openStreams: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp, so many clients can share one IntelliPlan instance.
+ * Each session gets its own MCP server from createServer, kept until the client ends the session
+ * or stops using it.
+ */
+export class McpHttpServer {
+  private app: express.Application;
+  private port: number;
+  private host: string;
+  private allowedHosts: Set<string>;
+  private allowedOrigins: string[];
+  private sessionIdleTimeoutMs: number;
+  private createServer: () => McpServer;
+  private sessions = new Map<string, McpSession>();
+
+  constructor(port: number, createServer: () => McpServer, options: McpHttpOptions = {}) {
+    this.app = express();
+    this.port = port;
+    this.host = options.host ?? '127.0.0.1';
+    this.allowedHosts = new Set([...LOOPBACK_HOSTS, formatHost(this.host), ...(options.allowedHosts ?? []).map(formatHost)]);
+    this.allowedOrigins = options.allowedOrigins ?? [];
+    this.sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    this.createServer = createServer;
+    this.setupMiddleware();
+    this.setupRoutes();
+  }
+
+  private setupMiddleware(): void {
+    // Clients read the session ID from the response headers
+    applySecurityMiddleware(this.app, {
+      maxRequests: MCP_MAX_REQUESTS,
+      exposedHeaders: ['Mcp-Session-Id'],
+      origins: this.allowedOrigins
+    });
+
+    // Guard against DNS rebinding and cross-site requests from web pages the user visits
+    this.app.use('/mcp', (req: Request, res: Response, next: NextFunction) => this.validateRequestSource(req, res, next));
+
+    // Parse JSON bodies
+    this.app.use(bodyParser.json());
+  }
+
+  private setupRoutes(): void {
+    // Health check
+    this.app.get('/health', (req: Request, res: Response) => {
+      res.status(200).json({ status: 'ok', sessions: this.sessions.size });
+    });
+
+    // Client messages; an initialize request without a session starts a new one
+    this.app.post('/mcp', async (req: Request, res: Response) => {
+      let newTransport: StreamableHTTPServerTransport | undefined;
+      try {
+        let transport = this.getTransport(req);
+        if (!transport) {
+          if (req.get('mcp-session-id') || !isInitializeRequest(req.body)) {
+            return this.sendSessionError(req, res);
+          }
+          transport = newTransport = await this.startSession();
+        }
+        await transport.handleRequest(req, res, req.body);
+      } catch (error) {
+        console.error('Error handling MCP request:', error);
+        if (!res.headersSent) {
+          res.status(500).json({ jsonrpc: '2.0', error: { code: -32603, message: 'Internal server error' }, id: null });
+        }
+      } finally {
+        // Without a session ID the initialize was rejected, so nothing can reach this transport again
+        if (newTransport && !newTransport.sessionId) {
+          await newTransport.close();
+        }
+      }
+    });
+
+    // Server-to-client stream (GET) and session end (DELETE)
+    const handleSessionRequest = async (req: Request, res: Response) => {
+      const transport = this.getTransport(req);
+      if (!transport) {
+        return this.sendSessionError(req, res);
+      }
+      if (req.method === 'GET') {
+        this.trackStream(transport.sessionId!, res);
+      }
+      try {
+        await transport.handleRequest(req, res);
+      } catch (error) {
+        console.error(`Error handling MCP ${req.method} request:`, error);
+        if (!res.headersSent) {
+          res.status(500).json({ jsonrpc: '2.0', error: { code: -32603, message: 'Internal server error' }, id: null });
+        }
+      }
+    };
+    this.app.get('/mcp', handleSessionRequest);
+    this.app.delete('/mcp', handleSessionRequest);
+  }
+
+  /**
+   * Reject requests addressed to a host name or coming from an origin that isn't allowed
+   */
+  private validateRequestSource(req: Request, res: Response, next: NextFunction): void {
+    const hostHeader = req.get('host');
+    const hostname = hostHeader ? parseHostname(hostHeader) : undefined;
+    if (!hostname || !this.allowedHosts.has(hostname)) {
+      res.status(403).json({ jsonrpc: '2.0', error: { code: -32000, message: `Host ${hostHeader ?? '(missing)'} is not allowed` }, id: null });
+      return;
+    }
+
+    // Clients other than browsers send no Origin
+    const origin = req.get('origin');
+    if (origin && !this.allowedOrigins.includes(origin)) {
+      res.status(403).json({ jsonrpc: '2.0', error: { code: -32000, message: `Origin ${origin} is not allowed` }, id: null });
+      return;
+    }
+    next();
+  }
+
+  /**
+   * Connect a new MCP server to a new transport, which is registered once the client is initialized
+   */
+  private async startSession(): Promise<StreamableHTTPServerTransport> {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, { transport, openStreams: 0 });
+        this.resetIdleTimer(sessionId);
+      }
+    });
+    const server = this.createServer();
+    await server.connect(transport);
+
+    // Connecting takes over the transport's onclose, so hear about the session ending from the server
+    const onServerClose = server.server.onclose;
+    server.server.onclose = () => {
+      onServerClose?.();
+      const session = transport.sessionId ? this.sessions.get(transport.sessionId) : undefined;
+      if (session) {
+        clearTimeout(session.idleTimer);
+        this.sessions.delete(transport.sessionId!);
+      }
+    };
+    return transport;
+  }
+
+  /**
+   * The transport of the session named in the Mcp-Session-Id header, whose idle time starts over
+   */
+  private getTransport(req: Request): StreamableHTTPServerTransport | undefined {
+    const sessionId = req.get('mcp-session-id');
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session) {
+      return undefined;
+    }
+    this.resetIdleTimer(sessionId!);
+    return session.transport;
+  }
+
+  /**
+   * Keep a session open while a client listens on its stream, counting idle time from when the stream ends
+   */
+  private trackStream(sessionId: string, res: Response): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    session.openStreams++;
+    this.resetIdleTimer(sessionId);
+    res.on('close', () => {
+      session.openStreams--;
+      this.resetIdleTimer(sessionId);
+    });
+  }
+
+  /**
+   * Restart the countdown to closing a session, unless a stream of it is open
+   */
+  private resetIdleTimer(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    clearTimeout(session.idleTimer);
+    session.idleTimer = undefined;
+    if (session.openStreams > 0) {
+      return;
+    }
+    session.idleTimer = setTimeout(() => {
+      console.error(`Closing MCP session ${sessionId} after ${Math.round(this.sessionIdleTimeoutMs / 1000)}s without requests`);
+      session.transport.close().catch(error => console.error(`Failed to close MCP session ${sessionId}:`, error));
+    }, this.sessionIdleTimeoutMs);
+    session.idleTimer.unref(); // Don't keep the process alive for it
+  }
+
+  /**
+   * Respond to a request without a usable session: 404 for an unknown or ended session, so clients
+   * start a new one, and 400 when the session ID is missing
+   */
+  private sendSessionError(req: Request, res: Response): void {
+    const sessionId = req.get('mcp-session-id');
+    res.status(sessionId ? 404 : 400).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message: sessionId ? `Session ${sessionId} not found` : 'Bad Request: No valid session ID provided' },
+      id: null
+    });
+  }
+
+  public async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.app.listen(this.port, this.host, () => {
+        console.error(`MCP server listening on http://${formatHost(this.host)}:${this.port}/mcp`);
+        resolve();
+      }).on('error', reject);
+    });
+  }
+}
+
+/**
+ * A host as it appears in URLs and Host headers, with IPv6 addresses in brackets
+ */
+function formatHost(host: string): string {
+  const lower = host.toLowerCase();
+  return lower.includes(':') && !lower.startsWith('[') ? `[${lower}]` : lower;
+}
+
+/**
+ * The host name of a Host header, without its port
+ */
+function parseHostname(hostHeader: string): string | undefined {
+  try {
+    return new URL(`http://${hostHeader}`).hostname;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,44 @@
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import rateLimit from 'express-rate-limit';
+
+/**
+ * Options for the security middleware shared by the HTTP servers
+ */
+export interface SecurityOptions {
+  /**
+   * Requests each IP may make per 15 minutes (default: 100)
+   */
+  maxRequests?: number;
+
+  /**
+   * Response headers browsers may read in cross-origin requests
+   */
+  exposedHeaders?: string[];
+
+  /**
+   * Origins browsers may make cross-origin requests from (default: any)
+   */
+  origins?: string[];
+}
+
+/**
+ * Adds security headers, CORS and per-IP rate limiting to an Express app
+ */
+export function applySecurityMiddleware(app: express.Application, options: SecurityOptions = {}): void {
+  app.use(helmet());
+  app.use(cors({
+    ...(options.exposedHeaders && { exposedHeaders: options.exposedHeaders }),
+    ...(options.origins && { origin: options.origins })
+  }));
+
+  // Rate limiting to prevent abuse
+  const limiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: options.maxRequests ?? 100, // Limit each IP to this many requests per window
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+  app.use(limiter);
+}
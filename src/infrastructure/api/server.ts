@@ -1,41 +1,51 @@
 import express from 'express';
 import type { Request, Response } from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
-import { json } from 'body-parser';
-import type { Epic } from '../../domain/task/entities/Task.js';
+import bodyParser from 'body-parser';
+import { z } from 'zod';
+import type { Epic, Task, Subtask } from '../../domain/task/entities/Task.js';
 import { FileEpicRepository } from '../persistence/FileEpicRepository.js';
+import { FileTrashRepository } from '../persistence/FileTrashRepository.js';
+import { applySecurityMiddleware } from './securityMiddleware.js';
+import { EpicService } from '../../domain/task/services/EpicService.js';
+import {
+  epicSchema,
+  createTaskSchema,
+  updateTaskSchema,
+  createSubtaskSchema,
+  updateSubtaskSchema,
+  formatSchemaIssues
+} from '../../domain/task/schemas/epicSchemas.js';
+import { findSubtask } from '../../domain/task/services/SubtaskTree.js';
+import { validateDependencyChanges } from '../../domain/task/services/DependencyGraph.js';
+import { MaxDepthExceededError } from '../../domain/task/errors/MaxDepthExceededError.js';
+import { InvalidDependencyError } from '../../domain/task/errors/InvalidDependencyError.js';
+import { StorageLockTimeoutError } from '../storage/FileLock.js';
 
 export class ApiServer {
   private app: express.Application;
   private port: number;
   private epicRepository: FileEpicRepository;
+  private epicService: EpicService;
   
   constructor(port: number = 3000, basePath: string = process.cwd()) {
     this.app = express();
     this.port = port;
     this.epicRepository = new FileEpicRepository(basePath);
+    // Deleted items go to the same trash the MCP tools use, so they can be restored
+    this.epicService = new EpicService(this.epicRepository, undefined, new FileTrashRepository(basePath));
     this.setupMiddleware();
     this.setupRoutes();
   }
   
   private setupMiddleware(): void {
-    // Security middleware
-    this.app.use(helmet());
-    this.app.use(cors());
-    
-    // Rate limiting to prevent abuse
-    const limiter = rateLimit({
-      windowMs: 15 * 60 * 1000, // 15 minutes
-      max: 100, // Limit each IP to 100 requests per window
-      standardHeaders: true,
-      legacyHeaders: false,
-    });
-    this.app.use(limiter);
+    // Security headers, CORS and rate limiting
+    applySecurityMiddleware(this.app);
     
     // Parse JSON bodies
-    this.app.use(json());
+    this.app.use(bodyParser.json());
+    
+    // ETags carry Epic versions (see sendEpicVersion), so disable Express's content-hash ETags
+    this.app.set('etag', false);
   }
   
   private setupRoutes(): void {
@@ -47,7 +57,7 @@ export class ApiServer {
     // Get all epics
     this.app.get('/epics', async (req: Request, res: Response) => {
       try {
-        const epics = this.epicRepository.getAllEpics();
+        const epics = await this.epicRepository.getAllEpics();
         res.status(200).json(epics);
       } catch (error) {
         console.error('Error getting epics:', error);
@@ -56,12 +66,13 @@ export class ApiServer {
     });
     
     // Get epic by ID
-    this.app.get('/epics/:id', (req: Request, res: Response) => {
+    this.app.get('/epics/:id', async (req: Request, res: Response) => {
       try {
-        const epic = this.epicRepository.getEpicById(req.params.id);
+        const epic = await this.epicRepository.getEpicById(req.params.id);
         if (!epic) {
           return res.status(404).json({ error: 'Epic not found' });
         }
+        this.sendEpicVersion(res, epic);
         res.status(200).json(epic);
       } catch (error) {
         console.error('Error getting epic:', error);
@@ -70,67 +81,102 @@ export class ApiServer {
     });
     
     // Create a new epic
-    this.app.post('/epics', (req: Request, res: Response) => {
+    this.app.post('/epics', async (req: Request, res: Response) => {
       try {
-        const epic = req.body as Epic;
-        const success = this.epicRepository.addEpic(epic);
-        if (!success) {
-          return res.status(400).json({ error: 'Failed to add epic' });
+        const epic = this.parseBody(epicSchema, req, res);
+        if (!epic) {
+          return;
         }
-        
-        // Save changes to disk
-        this.epicRepository.saveEpics()
-          .catch(err => console.error('Error saving epics after add:', err));
+        await this.withStorage(async () => {
+          if (!await this.checkDependencies([epic], res)) {
+            return;
+          }
+          const success = await this.epicRepository.addEpic(epic);
+          if (!success) {
+            return res.status(400).json({ error: 'Failed to add epic' });
+          }
+          
+          // Save changes to disk
+          await this.epicService.saveAll();
           
-        res.status(201).json(epic);
+          this.sendEpicVersion(res, epic);
+          res.status(201).json(epic);
+        });
       } catch (error) {
+        if (this.sendLockTimeout(res, error)) {
+          return;
+        }
         console.error('Error adding epic:', error);
         res.status(500).json({ error: 'Failed to add epic' });
       }
     });
     
     // Update an epic
-    this.app.put('/epics/:id', (req: Request, res: Response) => {
+    this.app.put('/epics/:id', async (req: Request, res: Response) => {
       try {
         const id = req.params.id;
-        const epic = req.body as Epic;
+        const epic = this.parseBody(epicSchema, req, res);
+        if (!epic) {
+          return;
+        }
         
         if (id !== epic.id) {
           return res.status(400).json({ error: 'Epic ID mismatch' });
         }
         
-        const success = this.epicRepository.updateEpic(id, epic);
-        if (!success) {
-          return res.status(404).json({ error: 'Epic not found' });
-        }
-        
-        // Save changes to disk
-        this.epicRepository.saveEpics()
-          .catch(err => console.error('Error saving epics after update:', err));
+        await this.withStorage(async () => {
+          const existing = await this.epicRepository.getEpicById(id);
+          if (!existing) {
+            return res.status(404).json({ error: 'Epic not found' });
+          }
+          if (!this.checkEpicVersion(req, res, existing)) {
+            return;
+          }
+          if (!await this.checkDependencies([epic], res)) {
+            return;
+          }
           
-        res.status(200).json(epic);
+          await this.epicRepository.updateEpic(id, epic);
+          
+          // Save changes to disk
+          await this.epicService.saveAll();
+          
+          this.sendEpicVersion(res, epic);
+          res.status(200).json(epic);
+        });
       } catch (error) {
+        if (this.sendLockTimeout(res, error)) {
+          return;
+        }
         console.error('Error updating epic:', error);
         res.status(500).json({ error: 'Failed to update epic' });
       }
     });
     
     // Delete an epic
-    this.app.delete('/epics/:id', (req: Request, res: Response) => {
+    this.app.delete('/epics/:id', async (req: Request, res: Response) => {
       try {
         const id = req.params.id;
-        const success = this.epicRepository.deleteEpic(id);
-        
-        if (!success) {
-          return res.status(404).json({ error: 'Epic not found' });
-        }
-        
-        // Save changes to disk
-        this.epicRepository.saveEpics()
-          .catch(err => console.error('Error saving epics after delete:', err));
+        await this.withStorage(async () => {
+          const existing = await this.epicRepository.getEpicById(id);
+          if (!existing) {
+            return res.status(404).json({ error: 'Epic not found' });
+          }
+          if (!this.checkEpicVersion(req, res, existing)) {
+            return;
+          }
           
-        res.status(204).send();
+          await this.epicService.trashEpic(id);
+          
+          // Save changes to disk
+          await this.epicService.saveAll();
+          
+          res.status(204).send();
+        });
       } catch (error) {
+        if (this.sendLockTimeout(res, error)) {
+          return;
+        }
         console.error('Error deleting epic:', error);
         res.status(500).json({ error: 'Failed to delete epic' });
       }
@@ -139,27 +185,433 @@ export class ApiServer {
     // Batch update epics
     this.app.post('/epics/batch', async (req: Request, res: Response) => {
       try {
-        const epics = req.body as Epic[];
+        const epics = this.parseBody(z.array(epicSchema), req, res);
+        if (!epics) {
+          return;
+        }
+        await this.withStorage(async () => {
+          if (!await this.checkDependencies(epics, res)) {
+            return;
+          }
+          
+          // Replace all epics with the new batch
+          for (const epic of epics) {
+            if (await this.epicRepository.getEpicById(epic.id)) {
+              await this.epicRepository.updateEpic(epic.id, epic);
+            } else {
+              await this.epicRepository.addEpic(epic);
+            }
+          }
+          
+          // Save changes to disk
+          await this.epicService.saveAll();
+          
+          res.status(200).json({ success: true });
+        });
+      } catch (error) {
+        if (this.sendLockTimeout(res, error)) {
+          return;
+        }
+        console.error('Error in batch update:', error);
+        res.status(500).json({ error: 'Failed to process batch update' });
+      }
+    });
+    
+    this.setupTaskRoutes();
+    this.setupSubtaskRoutes();
+  }
+  
+  /**
+   * Routes for Tasks nested under an Epic
+   */
+  private setupTaskRoutes(): void {
+    // List tasks of an epic
+    this.app.get('/epics/:id/tasks', async (req: Request, res: Response) => {
+      try {
+        const epic = await this.epicService.getEpicById(req.params.id);
+        if (!epic) {
+          return res.status(404).json({ error: 'Epic not found' });
+        }
+        res.status(200).json(epic.tasks);
+      } catch (error) {
+        console.error('Error getting tasks:', error);
+        res.status(500).json({ error: 'Failed to get tasks' });
+      }
+    });
+    
+    // Get a task by ID
+    this.app.get('/epics/:id/tasks/:taskId', async (req: Request, res: Response) => {
+      try {
+        const task = await this.findTask(req.params.id, req.params.taskId);
+        if (!task) {
+          return res.status(404).json({ error: 'Task not found' });
+        }
+        res.status(200).json(task);
+      } catch (error) {
+        console.error('Error getting task:', error);
+        res.status(500).json({ error: 'Failed to get task' });
+      }
+    });
+    
+    // Create a task in an epic
+    this.app.post('/epics/:id/tasks', async (req: Request, res: Response) => {
+      try {
+        const body = this.parseBody(createTaskSchema, req, res);
+        if (!body) {
+          return;
+        }
+        await this.withStorage(async () => {
+          const epic = await this.epicService.getEpicById(req.params.id);
+          if (!epic) {
+            return res.status(404).json({ error: 'Epic not found' });
+          }
+          if (!this.checkEpicVersion(req, res, epic)) {
+            return;
+          }
         
-        // Replace all epics with the new batch
-        // This is a simple implementation - in a real system, you might want more validation
-        for (const epic of epics) {
-          if (this.epicRepository.getEpicById(epic.id)) {
-            this.epicRepository.updateEpic(epic.id, epic);
-          } else {
-            this.epicRepository.addEpic(epic);
+          const task = await this.epicService.addTaskToEpic(req.params.id, {
+            id: body.id,
+            description: body.description,
+            priority: body.priority,
+            complexity: body.complexity,
+            testStrategy: body.testStrategy,
+            implementationPlan: body.implementationPlan,
+            dependencies: body.dependencies,
+            tags: body.tags,
+            details: body.details,
+            startDate: body.startDate,
+            dueDate: body.dueDate,
+            assignee: body.assignee,
+            estimatedHours: body.estimatedHours,
+            storyPoints: body.storyPoints,
+          });
+          if (!task) {
+            return res.status(400).json({ error: 'Failed to add task' });
+          }
+        
+          await this.epicService.saveAll();
+          this.sendEpicVersion(res, await this.epicService.getEpicById(req.params.id));
+          res.status(201).json(task);
+        });
+      } catch (error) {
+        if (this.sendLockTimeout(res, error)) {
+          return;
+        }
+        if (error instanceof InvalidDependencyError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error('Error adding task:', error);
+        res.status(500).json({ error: 'Failed to add task' });
+      }
+    });
+    
+    // Partially update a task
+    this.app.patch('/epics/:id/tasks/:taskId', async (req: Request, res: Response) => {
+      try {
+        const { id, taskId } = req.params;
+        // Identity and creation time are not updatable
+        const updates = this.parseBody(updateTaskSchema, req, res);
+        if (!updates) {
+          return;
+        }
+        await this.withStorage(async () => {
+          if (!await this.findTask(id, taskId)) {
+            return res.status(404).json({ error: 'Task not found' });
+          }
+          if (!this.checkEpicVersion(req, res, await this.epicService.getEpicById(id))) {
+            return;
+          }
+          
+          const task = await this.epicService.updateTaskInEpic(id, taskId, updates);
+          if (!task) {
+            return res.status(400).json({ error: 'Failed to update task' });
+          }
+          
+          await this.epicService.saveAll();
+          this.sendEpicVersion(res, await this.epicService.getEpicById(id));
+          res.status(200).json(task);
+        });
+      } catch (error) {
+        if (this.sendLockTimeout(res, error)) {
+          return;
+        }
+        if (error instanceof InvalidDependencyError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error('Error updating task:', error);
+        res.status(500).json({ error: 'Failed to update task' });
+      }
+    });
+    
+    // Delete a task
+    this.app.delete('/epics/:id/tasks/:taskId', async (req: Request, res: Response) => {
+      try {
+        const { id, taskId } = req.params;
+        await this.withStorage(async () => {
+          if (!await this.findTask(id, taskId)) {
+            return res.status(404).json({ error: 'Task not found' });
+          }
+          if (!this.checkEpicVersion(req, res, await this.epicService.getEpicById(id))) {
+            return;
           }
+          
+          await this.epicService.trashTask(id, taskId);
+          
+          await this.epicService.saveAll();
+          this.sendEpicVersion(res, await this.epicService.getEpicById(id));
+          res.status(204).send();
+        });
+      } catch (error) {
+        if (this.sendLockTimeout(res, error)) {
+          return;
+        }
+        console.error('Error deleting task:', error);
+        res.status(500).json({ error: 'Failed to delete task' });
+      }
+    });
+  }
+  
+  /**
+   * Routes for Subtasks nested under a Task
+   */
+  private setupSubtaskRoutes(): void {
+    // List subtasks of a task
+    this.app.get('/epics/:id/tasks/:taskId/subtasks', async (req: Request, res: Response) => {
+      try {
+        const task = await this.findTask(req.params.id, req.params.taskId);
+        if (!task) {
+          return res.status(404).json({ error: 'Task not found' });
+        }
+        res.status(200).json(task.subtasks);
+      } catch (error) {
+        console.error('Error getting subtasks:', error);
+        res.status(500).json({ error: 'Failed to get subtasks' });
+      }
+    });
+    
+    // Get a subtask by ID
+    this.app.get('/epics/:id/tasks/:taskId/subtasks/:subtaskId', async (req: Request, res: Response) => {
+      try {
+        const subtask = await this.findSubtask(req.params.id, req.params.taskId, req.params.subtaskId);
+        if (!subtask) {
+          return res.status(404).json({ error: 'Subtask not found' });
+        }
+        res.status(200).json(subtask);
+      } catch (error) {
+        console.error('Error getting subtask:', error);
+        res.status(500).json({ error: 'Failed to get subtask' });
+      }
+    });
+    
+    // Create a subtask in a task
+    this.app.post('/epics/:id/tasks/:taskId/subtasks', async (req: Request, res: Response) => {
+      try {
+        const { id, taskId } = req.params;
+        const body = this.parseBody(createSubtaskSchema, req, res);
+        if (!body) {
+          return;
         }
+        await this.withStorage(async () => {
+          if (!await this.findTask(id, taskId)) {
+            return res.status(404).json({ error: 'Task not found' });
+          }
+          if (!this.checkEpicVersion(req, res, await this.epicService.getEpicById(id))) {
+            return;
+          }
         
-        // Save changes to disk
-        await this.epicRepository.saveEpics();
+          const subtask = await this.epicService.addSubtaskToTask(id, taskId, {
+            id: body.id,
+            description: body.description,
+            parentSubtaskId: body.parentSubtaskId,
+            priority: body.priority,
+            complexity: body.complexity,
+          });
+          if (!subtask) {
+            return res.status(400).json({ error: 'Failed to add subtask' });
+          }
         
-        res.status(200).json({ success: true });
+          await this.epicService.saveAll();
+          this.sendEpicVersion(res, await this.epicService.getEpicById(id));
+          res.status(201).json(subtask);
+        });
       } catch (error) {
-        console.error('Error in batch update:', error);
-        res.status(500).json({ error: 'Failed to process batch update' });
+        if (this.sendLockTimeout(res, error)) {
+          return;
+        }
+        if (error instanceof MaxDepthExceededError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error('Error adding subtask:', error);
+        res.status(500).json({ error: 'Failed to add subtask' });
       }
     });
+    
+    // Partially update a subtask
+    this.app.patch('/epics/:id/tasks/:taskId/subtasks/:subtaskId', async (req: Request, res: Response) => {
+      try {
+        const { id, taskId, subtaskId } = req.params;
+        const updates = this.parseBody(updateSubtaskSchema, req, res);
+        if (!updates) {
+          return;
+        }
+        await this.withStorage(async () => {
+          if (!await this.findSubtask(id, taskId, subtaskId)) {
+            return res.status(404).json({ error: 'Subtask not found' });
+          }
+          if (!this.checkEpicVersion(req, res, await this.epicService.getEpicById(id))) {
+            return;
+          }
+          
+          const subtask = await this.epicService.updateSubtaskInTask(id, taskId, subtaskId, updates);
+          if (!subtask) {
+            return res.status(400).json({ error: 'Failed to update subtask' });
+          }
+          
+          await this.epicService.saveAll();
+          this.sendEpicVersion(res, await this.epicService.getEpicById(id));
+          res.status(200).json(subtask);
+        });
+      } catch (error) {
+        if (this.sendLockTimeout(res, error)) {
+          return;
+        }
+        console.error('Error updating subtask:', error);
+        res.status(500).json({ error: 'Failed to update subtask' });
+      }
+    });
+    
+    // Delete a subtask
+    this.app.delete('/epics/:id/tasks/:taskId/subtasks/:subtaskId', async (req: Request, res: Response) => {
+      try {
+        const { id, taskId, subtaskId } = req.params;
+        await this.withStorage(async () => {
+          if (!await this.findSubtask(id, taskId, subtaskId)) {
+            return res.status(404).json({ error: 'Subtask not found' });
+          }
+          if (!this.checkEpicVersion(req, res, await this.epicService.getEpicById(id))) {
+            return;
+          }
+          
+          await this.epicService.trashSubtask(id, taskId, subtaskId);
+          
+          await this.epicService.saveAll();
+          this.sendEpicVersion(res, await this.epicService.getEpicById(id));
+          res.status(204).send();
+        });
+      } catch (error) {
+        if (this.sendLockTimeout(res, error)) {
+          return;
+        }
+        console.error('Error deleting subtask:', error);
+        res.status(500).json({ error: 'Failed to delete subtask' });
+      }
+    });
+  }
+  
+  /**
+   * Run a request's changes under the storage lock, on Epics reloaded from disk, so changes
+   * saved meanwhile by other processes sharing the storage are kept rather than overwritten
+   */
+  private withStorage<T>(fn: () => Promise<T>): Promise<T> {
+    return this.epicService.withLock(async () => {
+      await this.epicService.load();
+      return fn();
+    });
+  }
+  
+  /**
+   * Respond with 503 when the storage stayed locked by another process, so the client can retry.
+   * Returns false for any other error.
+   */
+  private sendLockTimeout(res: Response, error: unknown): boolean {
+    if (!(error instanceof StorageLockTimeoutError)) {
+      return false;
+    }
+    res.status(503).json({ error: error.message });
+    return true;
+  }
+  
+  /**
+   * Find a task within a specific epic
+   */
+  private async findTask(epicId: string, taskId: string): Promise<Task | undefined> {
+    return (await this.epicService.getEpicById(epicId))?.tasks.find(t => t.id === taskId);
+  }
+  
+  /**
+   * Find a subtask at any level within a specific task
+   */
+  private async findSubtask(epicId: string, taskId: string, subtaskId: string): Promise<Subtask | undefined> {
+    const task = await this.findTask(epicId, taskId);
+    return task ? findSubtask(task.subtasks, subtaskId)?.subtask : undefined;
+  }
+  
+  /**
+   * Check that storing the given Epics doesn't add dangling or cyclic dependencies.
+   * Responds with 400 describing the problem and returns false when it would.
+   */
+  private async checkDependencies(epics: Epic[], res: Response): Promise<boolean> {
+    const before = await this.epicRepository.getAllEpics();
+    const replacedIds = new Set(epics.map(epic => epic.id));
+    const after = [...before.filter(epic => !replacedIds.has(epic.id)), ...epics];
+    try {
+      validateDependencyChanges(before, after);
+      return true;
+    } catch (error) {
+      if (error instanceof InvalidDependencyError) {
+        res.status(400).json({ error: error.message, cyclePath: error.cyclePath });
+        return false;
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Validate a request body against a schema.
+   * Responds with 400 listing the invalid fields and returns undefined when it does not match.
+   */
+  private parseBody<S extends z.ZodTypeAny>(schema: S, req: Request, res: Response): z.output<S> | undefined {
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({ error: `Invalid request body: ${formatSchemaIssues(result.error)}` });
+      return undefined;
+    }
+    return result.data;
+  }
+  
+  /**
+   * Expose the Epic's version as the response ETag
+   */
+  private sendEpicVersion(res: Response, epic: Epic | undefined): void {
+    if (epic) {
+      res.set('ETag', `"${epic.version ?? 0}"`);
+    }
+  }
+  
+  /**
+   * Enforce an optional If-Match header against the Epic's current version.
+   * Responds with 409 and returns false when the client's copy is stale.
+   */
+  private checkEpicVersion(req: Request, res: Response, epic: Epic | undefined): boolean {
+    const ifMatch = req.get('If-Match');
+    if (!epic || !ifMatch || ifMatch.trim() === '*') {
+      return true;
+    }
+    
+    const currentTag = `"${epic.version ?? 0}"`;
+    const matches = ifMatch.split(',')
+      .map(tag => tag.trim().replace(/^W\//, ''))
+      .includes(currentTag);
+    if (matches) {
+      return true;
+    }
+    
+    this.sendEpicVersion(res, epic);
+    res.status(409).json({
+      error: 'Epic was modified by another client; reload it and retry',
+      currentVersion: epic.version ?? 0
+    });
+    return false;
   }
   
   public async start(): Promise<void> {
@@ -0,0 +1,76 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { HistoryEntry } from '../../domain/task/entities/HistoryEntry.js';
+import type { EpicHistoryRepository } from '../../domain/task/repositories/EpicHistoryRepository.js';
+
+const HISTORY_DIR_NAME = 'history';
+const JOURNAL_FILE_NAME = 'journal.jsonl';
+const ROTATED_JOURNAL_FILE_NAME = 'journal.1.jsonl';
+const MAX_JOURNAL_BYTES = 5 * 1024 * 1024; // Size at which the journal is rotated
+
+/**
+ * File-based implementation of the EpicHistoryRepository
+ * Appends one JSON line per operation to intelliplan/history/journal.jsonl.
+ * Appends happen while the caller holds the storage lock, so lines from different clients never interleave.
+ * Once the journal reaches MAX_JOURNAL_BYTES it is moved to journal.1.jsonl, replacing the one rotated before,
+ * so the history keeps between one and two journals' worth of the latest operations.
+ */
+export class FileEpicHistoryRepository implements EpicHistoryRepository {
+  private journalFile: string;
+  private rotatedJournalFile: string;
+
+  /**
+   * Creates a new FileEpicHistoryRepository instance
+   * @param basePath Base directory path where the intelliplan directory is located (required)
+   */
+  constructor(basePath: string) {
+    if (!basePath) {
+      throw new Error('Base path is required for storage configuration');
+    }
+    this.journalFile = path.join(basePath, 'intelliplan', HISTORY_DIR_NAME, JOURNAL_FILE_NAME);
+    this.rotatedJournalFile = path.join(path.dirname(this.journalFile), ROTATED_JOURNAL_FILE_NAME);
+  }
+
+  /**
+   * Appends an entry as a single line, rotating the journal first if it is full
+   */
+  async append(entry: HistoryEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.journalFile), { recursive: true });
+    const size = await fs.stat(this.journalFile).then(stats => stats.size, () => 0);
+    if (size >= MAX_JOURNAL_BYTES) {
+      await fs.rename(this.journalFile, this.rotatedJournalFile);
+    }
+    await fs.appendFile(this.journalFile, `${JSON.stringify(entry)}\n`, 'utf-8');
+  }
+
+  /**
+   * Reads every entry still kept, from the rotated journal and then the current one
+   */
+  async getEntries(): Promise<HistoryEntry[]> {
+    return [...await this.readJournal(this.rotatedJournalFile), ...await this.readJournal(this.journalFile)];
+  }
+
+  // Reads one journal file, skipping lines that can't be parsed (e.g. cut off by a crash mid-append)
+  private async readJournal(journalFile: string): Promise<HistoryEntry[]> {
+    let data: string;
+    try {
+      data = await fs.readFile(journalFile, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: HistoryEntry[] = [];
+    data.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        entries.push(JSON.parse(line) as HistoryEntry);
+      } catch {
+        console.error(`Skipping unreadable line ${index + 1} of ${journalFile}`);
+      }
+    });
+    return entries;
+  }
+}
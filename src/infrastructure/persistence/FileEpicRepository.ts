@@ -14,7 +14,9 @@ import {
     deleteEpicFromStore as deleteEpicFromService,
     getStoragePath, 
     getBaseDir, 
-    getEpicFolder
+    getEpicFolder,
+    inWorkspace,
+    withStorageLock
 } from '../../infrastructure/storage/TaskStorageService.js';
 
 /**
@@ -23,8 +25,8 @@ import {
  */
 export class FileEpicRepository implements EpicRepository {
   
-  // Note: The storage service now manages the in-memory store (`epicStore`).
-  // This repository acts as a bridge and ensures the correct storage service functions are called.
+  // Note: The storage service manages the in-memory store of every workspace.
+  // This repository acts as a bridge, running the storage service functions against its own basePath.
 
   /**
    * Creates a new FileEpicRepository instance
@@ -34,45 +36,41 @@ export class FileEpicRepository implements EpicRepository {
     if (!basePath) {
       throw new Error('Base path is required for storage configuration');
     }
-    // Configuration happens via the storage service, typically called by a tool or app init.
-    // We might store basePath here if needed for repository-specific logic, but configuration
-    // primarily lives in the TaskStorageService.
-    configureStorage(basePath);
   }
   
   /**
    * Loads Epics from storage using the service
    */
   async loadEpics(): Promise<void> {
-    await loadEpicsFromService();
+    await inWorkspace(this.basePath, loadEpicsFromService);
   }
   
   /**
    * Saves Epics to storage using the service
    */
   async saveEpics(): Promise<void> {
-    await saveEpicsToService();
+    await inWorkspace(this.basePath, saveEpicsToService);
   }
   
   /**
    * Get all Epics using the service
    */
-  getAllEpics(): Epic[] {
-    return getEpicsFromService();
+  async getAllEpics(): Promise<Epic[]> {
+    return inWorkspace(this.basePath, getEpicsFromService);
   }
   
   /**
    * Get Epic by ID using the service
    */
-  getEpicById(id: string): Epic | undefined {
-    return getEpicByIdFromService(id);
+  async getEpicById(id: string): Promise<Epic | undefined> {
+    return inWorkspace(this.basePath, () => getEpicByIdFromService(id));
   }
   
   /**
    * Add a new Epic using the service
    */
-  addEpic(epic: Epic): boolean {
-    const success = addEpicToService(epic);
+  async addEpic(epic: Epic): Promise<boolean> {
+    const success = inWorkspace(this.basePath, () => addEpicToService(epic));
     // Consider immediate save or rely on explicit save call?
     // For now, rely on explicit save call like before.
     return success;
@@ -81,18 +79,25 @@ export class FileEpicRepository implements EpicRepository {
   /**
    * Update an existing Epic using the service
    */
-  updateEpic(id: string, epic: Epic): boolean {
-    const success = updateEpicInService(id, epic);
+  async updateEpic(id: string, epic: Epic): Promise<boolean> {
+    const success = inWorkspace(this.basePath, () => updateEpicInService(id, epic));
     return success;
   }
   
   /**
    * Delete an Epic using the service
    */
-  deleteEpic(id: string): boolean {
-    const success = deleteEpicFromService(id);
+  async deleteEpic(id: string): Promise<boolean> {
+    const success = inWorkspace(this.basePath, () => deleteEpicFromService(id));
     return success;
   }
+  
+  /**
+   * Run a load-modify-save cycle while holding the workspace's storage lock file
+   */
+  withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return withStorageLock(this.basePath, fn);
+  }
 
   // --- Methods specific to this implementation (if any) or potentially deprecated ---
 
@@ -108,20 +113,20 @@ export class FileEpicRepository implements EpicRepository {
    * Get path to a specific Epic folder (delegated to service)
    */
   getEpicFolder(epicId: string): string {
-    return getEpicFolder(epicId);
+    return inWorkspace(this.basePath, () => getEpicFolder(epicId));
   }
   
   /**
    * Get current storage path (delegated to service)
    */
   getStoragePath(): string {
-    return getStoragePath();
+    return inWorkspace(this.basePath, getStoragePath);
   }
   
   /**
    * Get base directory (delegated to service)
    */
   getBaseDir(): string {
-    return getBaseDir();
+    return inWorkspace(this.basePath, getBaseDir);
   }
 } 
\ No newline at end of file
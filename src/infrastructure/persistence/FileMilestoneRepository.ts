@@ -0,0 +1,51 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Milestone } from '../../domain/task/entities/Milestone.js';
+import type { MilestoneRepository } from '../../domain/task/repositories/MilestoneRepository.js';
+
+const EPICS_DIR_NAME = 'epics';
+const MILESTONES_FILE_NAME = 'milestones.json';
+
+/**
+ * File-based implementation of the MilestoneRepository
+ * Keeps every Milestone in intelliplan/epics/milestones.json, next to epics.json.
+ * Callers hold the storage lock, so read-modify-write cycles from different clients don't interleave.
+ */
+export class FileMilestoneRepository implements MilestoneRepository {
+  private milestonesFile: string;
+
+  /**
+   * Creates a new FileMilestoneRepository instance
+   * @param basePath Base directory path where the intelliplan directory is located (required)
+   */
+  constructor(basePath: string) {
+    if (!basePath) {
+      throw new Error('Base path is required for storage configuration');
+    }
+    this.milestonesFile = path.join(basePath, 'intelliplan', EPICS_DIR_NAME, MILESTONES_FILE_NAME);
+  }
+
+  /**
+   * Reads every Milestone
+   */
+  async getMilestones(): Promise<Milestone[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.milestonesFile, 'utf-8')) as Milestone[];
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the Milestones to a uniquely named temp file first so a crash never leaves a half-written file
+   */
+  async saveMilestones(milestones: Milestone[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.milestonesFile), { recursive: true });
+    const tempPath = `${this.milestonesFile}.${process.pid}-${Math.random().toString(36).slice(2)}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(milestones, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.milestonesFile);
+  }
+}
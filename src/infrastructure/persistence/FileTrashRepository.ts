@@ -0,0 +1,68 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { TrashEntry } from '../../domain/task/entities/TrashEntry.js';
+import type { TrashRepository } from '../../domain/task/repositories/TrashRepository.js';
+
+const TRASH_DIR_NAME = 'trash';
+const TRASH_FILE_NAME = 'trash.json';
+
+/**
+ * File-based implementation of the TrashRepository
+ * Keeps every trashed item in intelliplan/trash/trash.json. Callers hold the storage lock,
+ * so read-modify-write cycles from different clients don't interleave.
+ */
+export class FileTrashRepository implements TrashRepository {
+  private trashFile: string;
+
+  /**
+   * Creates a new FileTrashRepository instance
+   * @param basePath Base directory path where the intelliplan directory is located (required)
+   */
+  constructor(basePath: string) {
+    if (!basePath) {
+      throw new Error('Base path is required for storage configuration');
+    }
+    this.trashFile = path.join(basePath, 'intelliplan', TRASH_DIR_NAME, TRASH_FILE_NAME);
+  }
+
+  /**
+   * Reads every entry, oldest first
+   */
+  async getEntries(): Promise<TrashEntry[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.trashFile, 'utf-8')) as TrashEntry[];
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Adds an entry, replacing an older one for the same item
+   */
+  async add(entry: TrashEntry): Promise<void> {
+    const entries = (await this.getEntries()).filter(existing => existing.item.id !== entry.item.id);
+    await this.write([...entries, entry]);
+  }
+
+  /**
+   * Removes the entries holding the given items
+   */
+  async remove(itemIds: string[]): Promise<void> {
+    const entries = await this.getEntries();
+    const remaining = entries.filter(entry => !itemIds.includes(entry.item.id));
+    if (remaining.length !== entries.length) {
+      await this.write(remaining);
+    }
+  }
+
+  // Writes to a uniquely named temp file first so a crash never leaves a half-written trash
+  private async write(entries: TrashEntry[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.trashFile), { recursive: true });
+    const tempPath = `${this.trashFile}.${process.pid}-${Math.random().toString(36).slice(2)}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entries, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.trashFile);
+  }
+}
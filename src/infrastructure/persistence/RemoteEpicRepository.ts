@@ -1,6 +1,8 @@
-import type { Epic, EpicStore } from '../../domain/task/entities/Task.js';
+import type { Epic, EpicStore, Task, Subtask } from '../../domain/task/entities/Task.js';
 import type { EpicRepository } from '../../domain/task/repositories/EpicRepository.js';
+import { EpicVersionConflictError } from '../../domain/task/errors/EpicVersionConflictError.js';
 import fetch from 'node-fetch';
+import type { Response } from 'node-fetch';
 
 /**
  * Remote server-based implementation of the EpicRepository
@@ -10,6 +12,10 @@ export class RemoteEpicRepository implements EpicRepository {
   private apiUrl: string;
   private apiKey?: string;
   private epicCache: EpicStore = {};
+  // Last state acknowledged by the server, used to compute granular updates
+  private syncedEpics: EpicStore = {};
+  // Pushes run one at a time so overlapping saves never send the same change twice
+  private pushQueue: Promise<void> = Promise.resolve();
   
   /**
    * Creates a new RemoteEpicRepository instance
@@ -58,9 +64,11 @@ export class RemoteEpicRepository implements EpicRepository {
       
       // Convert array to object with ID keys
       this.epicCache = {};
+      this.syncedEpics = {};
       if (Array.isArray(data)) {
         data.forEach((epic: Epic) => {
           this.epicCache[epic.id] = epic;
+          this.syncedEpics[epic.id] = structuredClone(epic);
         });
       } else {
         console.error('Unexpected data format from server, expected array of Epics');
@@ -72,22 +80,13 @@ export class RemoteEpicRepository implements EpicRepository {
   }
   
   /**
-   * Saves all Epics to the remote server
-   * Note: This is a bulk operation - in practice, individual CRUD operations
-   * are preferred for production systems
+   * Pushes any unsynced changes in the local cache to the remote server.
+   * Only the Epics, Tasks and Subtasks that actually changed are sent.
    */
   async saveEpics(): Promise<void> {
     try {
-      const epicsArray = Object.values(this.epicCache);
-      
-      const response = await fetch(`${this.apiUrl}/epics/batch`, {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: JSON.stringify(epicsArray),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to save epics: ${response.statusText}`);
+      for (const epic of Object.values(this.epicCache)) {
+        await this.pushEpicChanges(epic);
       }
     } catch (error) {
       console.error('Error saving epics to remote server:', error);
@@ -98,14 +97,14 @@ export class RemoteEpicRepository implements EpicRepository {
   /**
    * Get all Epics
    */
-  getAllEpics(): Epic[] {
+  async getAllEpics(): Promise<Epic[]> {
     return Object.values(this.epicCache);
   }
   
   /**
    * Get Epic by ID
    */
-  getEpicById(id: string): Epic | undefined {
+  async getEpicById(id: string): Promise<Epic | undefined> {
     return this.epicCache[id];
   }
   
@@ -124,8 +123,13 @@ export class RemoteEpicRepository implements EpicRepository {
         throw new Error(`Failed to add epic: ${response.statusText}`);
       }
       
+      // Adopt the version assigned by the server
+      const created = await response.json() as Epic;
+      epic.version = created.version;
+      
       // Update local cache
       this.epicCache[epic.id] = epic;
+      this.syncedEpics[epic.id] = structuredClone(epic);
       return true;
     } catch (error) {
       console.error('Error adding epic to remote server:', error);
@@ -134,24 +138,23 @@ export class RemoteEpicRepository implements EpicRepository {
   }
   
   /**
-   * Update an existing Epic
+   * Update an existing Epic, sending only the changed parts to the server
    */
   async updateEpic(id: string, epic: Epic): Promise<boolean> {
     try {
-      const response = await fetch(`${this.apiUrl}/epics/${id}`, {
-        method: 'PUT',
-        headers: this.getHeaders(),
-        body: JSON.stringify(epic),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to update epic: ${response.statusText}`);
+      if (id !== epic.id) {
+        throw new Error('Epic ID mismatch');
       }
       
+      await this.pushEpicChanges(epic);
+      
       // Update local cache
       this.epicCache[id] = epic;
       return true;
     } catch (error) {
+      if (error instanceof EpicVersionConflictError) {
+        throw error; // Callers need to reload and retry
+      }
       console.error('Error updating epic on remote server:', error);
       return false;
     }
@@ -162,28 +165,220 @@ export class RemoteEpicRepository implements EpicRepository {
    */
   async deleteEpic(id: string): Promise<boolean> {
     try {
-      const response = await fetch(`${this.apiUrl}/epics/${id}`, {
-        method: 'DELETE',
-        headers: this.getHeaders(),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to delete epic: ${response.statusText}`);
-      }
+      await this.request('DELETE', `/epics/${id}`, id, this.syncedEpics[id]?.version);
       
       // Update local cache
       delete this.epicCache[id];
+      delete this.syncedEpics[id];
       return true;
     } catch (error) {
+      if (error instanceof EpicVersionConflictError) {
+        throw error; // Callers need to reload and retry
+      }
       console.error('Error deleting epic from remote server:', error);
       return false;
     }
   }
   
+  /**
+   * Run a load-modify-save cycle. No lock is taken: every change carries the
+   * Epic version it is based on, so concurrent edits surface as EpicVersionConflictError.
+   */
+  withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return fn();
+  }
+  
+  /**
+   * Queues a push of an Epic's unsynced changes
+   */
+  private pushEpicChanges(epic: Epic): Promise<void> {
+    const push = this.pushQueue.then(() => this.sendEpicChanges(epic));
+    this.pushQueue = push.catch(() => undefined);
+    return push;
+  }
+  
+  /**
+   * Diffs an Epic against the last synced state and issues the granular
+   * Epic/Task/Subtask calls needed to bring the server up to date.
+   * Every call carries the Epic version it is based on, so edits made by
+   * another client in the meantime surface as an EpicVersionConflictError.
+   */
+  private async sendEpicChanges(epic: Epic): Promise<void> {
+    const synced = this.syncedEpics[epic.id];
+    if (!synced) {
+      // Never synced - create it in one go
+      const created = await this.request('POST', '/epics', epic.id, undefined, epic);
+      epic.version = created.version;
+      this.syncedEpics[epic.id] = structuredClone(epic);
+      return;
+    }
+    
+    // Epic-level fields changed: replace the whole Epic, which covers its Tasks too.
+    // updatedAt and version are ignored since the server maintains them on every nested change.
+    // A PATCH can't remove a field, so a Task that dropped one (e.g. a released lease) also needs a replace.
+    const ignored = ['tasks', 'updatedAt', 'version'] as const;
+    if (!sameContent(withoutKeys(synced, ...ignored), withoutKeys(epic, ...ignored)) || hasDroppedTaskFields(synced, epic)) {
+      const replaced = await this.request('PUT', `/epics/${epic.id}`, epic.id, synced.version, epic);
+      epic.version = replaced.version;
+      this.syncedEpics[epic.id] = structuredClone(epic);
+      return;
+    }
+    
+    const epicPath = `/epics/${epic.id}`;
+    const currentTaskIds = new Set(epic.tasks.map(t => t.id));
+    let version = synced.version;
+    
+    // Sends one nested change and tracks the version the server moved the Epic to
+    const send = async (method: string, urlPath: string, body?: unknown): Promise<unknown> => {
+      const result = await this.request(method, urlPath, epic.id, version, body);
+      version = result.version ?? version;
+      return result.body;
+    };
+    
+    for (const syncedTask of synced.tasks) {
+      if (!currentTaskIds.has(syncedTask.id)) {
+        await send('DELETE', `${epicPath}/tasks/${syncedTask.id}`);
+      }
+    }
+    
+    for (const task of epic.tasks) {
+      const taskPath = `${epicPath}/tasks/${task.id}`;
+      let syncedTask = synced.tasks.find(t => t.id === task.id);
+      
+      if (!syncedTask) {
+        syncedTask = await send('POST', `${epicPath}/tasks`, withoutKeys(task, 'subtasks')) as Task;
+        syncedTask.subtasks = [];
+      }
+      if (!sameContent(withoutKeys(syncedTask, 'subtasks', 'updatedAt'), withoutKeys(task, 'subtasks', 'updatedAt'))) {
+        await send('PATCH', taskPath, withoutKeys(task, 'id', 'createdAt', 'subtasks'));
+      }
+      
+      await this.pushSubtaskChanges(taskPath, syncedTask.subtasks, task.subtasks, send);
+    }
+    
+    epic.version = version;
+    this.syncedEpics[epic.id] = structuredClone(epic);
+  }
+  
+  /**
+   * Issues the Subtask calls needed to turn the synced list into the current one,
+   * then does the same for the Subtasks nested under each of them
+   * @param parentSubtaskId Subtask the lists are nested under, if they aren't the Task's own
+   */
+  private async pushSubtaskChanges(
+    taskPath: string,
+    synced: Subtask[],
+    current: Subtask[],
+    send: (method: string, urlPath: string, body?: unknown) => Promise<unknown>,
+    parentSubtaskId?: string
+  ): Promise<void> {
+    const currentIds = new Set(current.map(s => s.id));
+    
+    for (const syncedSubtask of synced) {
+      if (!currentIds.has(syncedSubtask.id)) {
+        await send('DELETE', `${taskPath}/subtasks/${syncedSubtask.id}`);
+      }
+    }
+    
+    for (const subtask of current) {
+      let syncedSubtask = synced.find(s => s.id === subtask.id);
+      if (!syncedSubtask) {
+        syncedSubtask = await send('POST', `${taskPath}/subtasks`, { ...withoutKeys(subtask, 'subtasks'), parentSubtaskId }) as Subtask;
+        syncedSubtask.subtasks = [];
+      }
+      if (!sameContent(withoutKeys(syncedSubtask, 'subtasks', 'updatedAt'), withoutKeys(subtask, 'subtasks', 'updatedAt'))) {
+        await send('PATCH', `${taskPath}/subtasks/${subtask.id}`, withoutKeys(subtask, 'id', 'createdAt', 'subtasks'));
+      }
+      
+      await this.pushSubtaskChanges(taskPath, syncedSubtask.subtasks ?? [], subtask.subtasks ?? [], send, subtask.id);
+    }
+  }
+  
+  /**
+   * Sends a request for a change to an Epic.
+   * @param expectedVersion Epic version the change is based on (sent as If-Match)
+   * @returns Parsed JSON body (if any) and the Epic version reported via ETag
+   */
+  private async request(
+    method: string,
+    urlPath: string,
+    epicId: string,
+    expectedVersion?: number,
+    body?: unknown
+  ): Promise<{ body: unknown; version?: number }> {
+    const headers = this.getHeaders();
+    if (expectedVersion !== undefined) {
+      headers['If-Match'] = `"${expectedVersion}"`;
+    }
+    
+    const response = await fetch(`${this.apiUrl}${urlPath}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    
+    if (response.status === 409) {
+      throw new EpicVersionConflictError(epicId, expectedVersion, parseVersion(response));
+    }
+    if (!response.ok) {
+      throw new Error(`${method} ${urlPath} failed: ${response.statusText}`);
+    }
+    
+    return {
+      body: response.status === 204 ? undefined : await response.json(),
+      version: parseVersion(response)
+    };
+  }
+  
   /**
    * Get API URL
    */
   getApiUrl(): string {
     return this.apiUrl;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Shallow copy of an object without the given keys
+ */
+function withoutKeys<T extends object, K extends keyof T>(item: T, ...keys: K[]): Omit<T, K> {
+  const copy = { ...item };
+  for (const key of keys) {
+    delete copy[key];
+  }
+  return copy;
+}
+
+/**
+ * Compares two JSON-serializable values by content, ignoring key order
+ */
+function sameContent(a: unknown, b: unknown): boolean {
+  const sortKeys = (_key: string, value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([x], [y]) => x.localeCompare(y)))
+      : value;
+  return JSON.stringify(a, sortKeys) === JSON.stringify(b, sortKeys);
+}
+
+/**
+ * Whether a Task that was already synced has lost a field that the server still has
+ */
+function hasDroppedTaskFields(synced: Epic, epic: Epic): boolean {
+  return epic.tasks.some(task => {
+    const syncedTask = synced.tasks.find(t => t.id === task.id);
+    return !!syncedTask && (Object.keys(syncedTask) as (keyof Task)[])
+      .some(key => syncedTask[key] !== undefined && task[key] === undefined);
+  });
+}
+
+/**
+ * Reads the Epic version from a response's ETag header
+ */
+function parseVersion(response: Response): number | undefined {
+  const etag = response.headers.get('ETag');
+  if (!etag) {
+    return undefined;
+  }
+  const version = parseInt(etag.replace(/^W\//, '').replace(/"/g, ''), 10);
+  return Number.isNaN(version) ? undefined : version;
+}
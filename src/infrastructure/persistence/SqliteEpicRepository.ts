@@ -0,0 +1,717 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import type { Epic, EpicStore, Task, Subtask, AssociatedFile, Status, Priority } from '../../domain/task/entities/Task.js';
+import type { EpicRepository, EpicQuery } from '../../domain/task/repositories/EpicRepository.js';
+import { EpicVersionConflictError } from '../../domain/task/errors/EpicVersionConflictError.js';
+import {
+    withStorageLock,
+    loadEpics as loadEpicsFromService,
+    getEpics as getEpicsFromService
+} from '../storage/TaskStorageService.js';
+
+const DATABASE_FILE_NAME = 'intelliplan.db';
+const JSON_MIGRATION_KEY = 'json_migrated_at';
+const SCHEMA_VERSION_KEY = 'schema_version';
+const CURRENT_SCHEMA_VERSION = 2;
+
+// Columns holding Epic/Task/Subtask fields; anything else (status history, work log, lease, maxDepth) is kept in the `extra` JSON column
+const ITEM_COLUMNS = ['id', 'description', 'status', 'priority', 'complexity', 'testStrategy', 'implementationPlan', 'details', 'startDate', 'dueDate', 'assignee', 'estimatedHours', 'storyPoints', 'createdAt', 'updatedAt', 'files', 'dependencies', 'tags'];
+const EPIC_COLUMNS = [...ITEM_COLUMNS, 'version', 'tasks'];
+const TASK_COLUMNS = [...ITEM_COLUMNS, 'subtasks'];
+const SUBTASK_COLUMNS = ['id', 'description', 'status', 'priority', 'complexity', 'createdAt', 'updatedAt', 'files', 'tags', 'subtasks'];
+
+const TABLES = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS epics (
+    id TEXT PRIMARY KEY,
+    description TEXT NOT NULL,
+    status TEXT NOT NULL,
+    priority TEXT,
+    complexity INTEGER,
+    test_strategy TEXT,
+    implementation_plan TEXT,
+    details TEXT,
+    start_date TEXT,
+    due_date TEXT,
+    assignee TEXT,
+    estimated_hours REAL,
+    story_points REAL,
+    version INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    extra TEXT
+  );
+  CREATE TABLE IF NOT EXISTS tasks (
+    epic_id TEXT NOT NULL REFERENCES epics(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    description TEXT NOT NULL,
+    status TEXT NOT NULL,
+    priority TEXT,
+    complexity INTEGER,
+    test_strategy TEXT,
+    implementation_plan TEXT,
+    details TEXT,
+    start_date TEXT,
+    due_date TEXT,
+    assignee TEXT,
+    estimated_hours REAL,
+    story_points REAL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    extra TEXT,
+    PRIMARY KEY (epic_id, id)
+  );
+  -- parent_id is '' for Subtasks directly under their Task
+  CREATE TABLE IF NOT EXISTS subtasks (
+    epic_id TEXT NOT NULL,
+    task_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    parent_id TEXT NOT NULL DEFAULT '',
+    position INTEGER NOT NULL,
+    description TEXT NOT NULL,
+    status TEXT NOT NULL,
+    priority TEXT,
+    complexity INTEGER,
+    created_at TEXT NOT NULL,
+    updated_at TEXT,
+    extra TEXT,
+    PRIMARY KEY (epic_id, task_id, id),
+    FOREIGN KEY (epic_id, task_id) REFERENCES tasks(epic_id, id) ON DELETE CASCADE
+  );
+  -- task_id and subtask_id are '' for rows that belong to the Epic or Task itself
+  CREATE TABLE IF NOT EXISTS files (
+    epic_id TEXT NOT NULL REFERENCES epics(id) ON DELETE CASCADE,
+    task_id TEXT NOT NULL DEFAULT '',
+    subtask_id TEXT NOT NULL DEFAULT '',
+    position INTEGER NOT NULL,
+    file_path TEXT NOT NULL,
+    description TEXT,
+    added_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS dependencies (
+    epic_id TEXT NOT NULL REFERENCES epics(id) ON DELETE CASCADE,
+    task_id TEXT NOT NULL DEFAULT '',
+    position INTEGER NOT NULL,
+    depends_on TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS tags (
+    epic_id TEXT NOT NULL REFERENCES epics(id) ON DELETE CASCADE,
+    task_id TEXT NOT NULL DEFAULT '',
+    subtask_id TEXT NOT NULL DEFAULT '',
+    position INTEGER NOT NULL,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (epic_id, task_id, subtask_id, tag)
+  );
+`;
+
+// Created once the tables are at the current schema version
+const INDEXES = `
+  CREATE INDEX IF NOT EXISTS idx_epics_status ON epics(status);
+  CREATE INDEX IF NOT EXISTS idx_epics_priority ON epics(priority);
+  CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
+  CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority);
+  CREATE INDEX IF NOT EXISTS idx_tasks_assignee ON tasks(assignee);
+  CREATE INDEX IF NOT EXISTS idx_files_owner ON files(epic_id, task_id, subtask_id);
+  CREATE INDEX IF NOT EXISTS idx_dependencies_owner ON dependencies(epic_id, task_id);
+  CREATE INDEX IF NOT EXISTS idx_dependencies_target ON dependencies(depends_on);
+  CREATE INDEX IF NOT EXISTS idx_tags_tag ON tags(tag);
+`;
+
+// Schema version 1 kept details, dates, assignee and estimates in `extra`, Subtask files, tags and
+// nested Subtasks in the `extra` of their top-level Subtask, and tags without their order.
+// Tag rows were inserted in the user's order, so the rowid gives it back.
+const MIGRATE_TO_VERSION_2 = `
+  ALTER TABLE epics ADD COLUMN details TEXT;
+  ALTER TABLE epics ADD COLUMN start_date TEXT;
+  ALTER TABLE epics ADD COLUMN due_date TEXT;
+  ALTER TABLE epics ADD COLUMN assignee TEXT;
+  ALTER TABLE epics ADD COLUMN estimated_hours REAL;
+  ALTER TABLE epics ADD COLUMN story_points REAL;
+  ALTER TABLE tasks ADD COLUMN details TEXT;
+  ALTER TABLE tasks ADD COLUMN start_date TEXT;
+  ALTER TABLE tasks ADD COLUMN due_date TEXT;
+  ALTER TABLE tasks ADD COLUMN assignee TEXT;
+  ALTER TABLE tasks ADD COLUMN estimated_hours REAL;
+  ALTER TABLE tasks ADD COLUMN story_points REAL;
+  ALTER TABLE subtasks ADD COLUMN parent_id TEXT NOT NULL DEFAULT '';
+  ALTER TABLE subtasks ADD COLUMN priority TEXT;
+  ALTER TABLE subtasks ADD COLUMN complexity INTEGER;
+  ALTER TABLE subtasks ADD COLUMN updated_at TEXT;
+  ALTER TABLE files ADD COLUMN subtask_id TEXT NOT NULL DEFAULT '';
+  DROP INDEX IF EXISTS idx_files_owner;
+  DROP INDEX IF EXISTS idx_tags_tag;
+  ALTER TABLE tags RENAME TO tags_v1;
+  CREATE TABLE tags (
+    epic_id TEXT NOT NULL REFERENCES epics(id) ON DELETE CASCADE,
+    task_id TEXT NOT NULL DEFAULT '',
+    subtask_id TEXT NOT NULL DEFAULT '',
+    position INTEGER NOT NULL,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (epic_id, task_id, subtask_id, tag)
+  );
+  INSERT INTO tags (epic_id, task_id, subtask_id, position, tag)
+    SELECT epic_id, task_id, '', ROW_NUMBER() OVER (PARTITION BY epic_id, task_id ORDER BY rowid) - 1, tag FROM tags_v1;
+  DROP TABLE tags_v1;
+`;
+
+/**
+ * Columns shared by the epics and tasks tables
+ */
+interface ItemRow {
+  id: string;
+  description: string;
+  status: Status;
+  priority: Priority | null;
+  complexity: number | null;
+  test_strategy: string | null;
+  implementation_plan: string | null;
+  details: string | null;
+  start_date: string | null;
+  due_date: string | null;
+  assignee: string | null;
+  estimated_hours: number | null;
+  story_points: number | null;
+  created_at: string;
+  updated_at: string;
+  extra: string | null;
+}
+
+interface EpicRow extends ItemRow {
+  version: number;
+}
+
+interface TaskRow extends ItemRow {
+  epic_id: string;
+  position: number;
+}
+
+/**
+ * A row owned by an Epic ('' task_id) or Task
+ */
+interface OwnedRow {
+  epic_id: string;
+  task_id: string;
+}
+
+/**
+ * A row owned by an Epic, Task ('' subtask_id) or Subtask
+ */
+interface SubtaskOwnedRow extends OwnedRow {
+  subtask_id: string;
+}
+
+interface SubtaskRow extends OwnedRow {
+  id: string;
+  parent_id: string;
+  position: number;
+  description: string;
+  status: Status;
+  priority: Priority | null;
+  complexity: number | null;
+  created_at: string;
+  updated_at: string | null;
+  extra: string | null;
+}
+
+interface FileRow extends SubtaskOwnedRow {
+  position: number;
+  file_path: string;
+  description: string | null;
+  added_at: string;
+}
+
+interface DependencyRow extends OwnedRow {
+  position: number;
+  depends_on: string;
+}
+
+interface TagRow extends SubtaskOwnedRow {
+  position: number;
+  tag: string;
+}
+
+/**
+ * SQLite-based implementation of the EpicRepository
+ * Stores Epics, Tasks, Subtasks and their files, dependencies and tags in normalized tables
+ * of a single database file, which also makes indexed queries across workspaces possible.
+ */
+export class SqliteEpicRepository implements EpicRepository {
+  private db: Database.Database;
+  private epicCache: EpicStore = {};
+
+  /**
+   * Creates a new SqliteEpicRepository instance
+   * @param basePath Base directory path where the intelliplan directory (and database) will be created (required)
+   */
+  constructor(private basePath: string) {
+    if (!basePath) {
+      throw new Error('Base path is required for storage configuration');
+    }
+
+    const baseDir = path.join(basePath, 'intelliplan');
+    fs.mkdirSync(baseDir, { recursive: true });
+
+    this.db = new Database(path.join(baseDir, DATABASE_FILE_NAME));
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.pragma('busy_timeout = 5000'); // Wait for writers in other processes instead of failing
+    this.db.exec(TABLES);
+    this.migrateSchema();
+    this.db.exec(INDEXES);
+  }
+
+  /**
+   * Loads all Epics from the database, importing an existing epics.json store the first time
+   */
+  async loadEpics(): Promise<void> {
+    await this.migrateFromJson();
+
+    this.epicCache = {};
+    for (const epic of this.readEpics()) {
+      this.epicCache[epic.id] = epic;
+    }
+  }
+
+  /**
+   * Nothing to do: add, update and delete write through to the database, update with a version check.
+   * Rewriting the cached Epics here would overwrite changes other processes made since they were loaded.
+   */
+  async saveEpics(): Promise<void> {
+    // Intentionally empty
+  }
+
+  /**
+   * Get all Epics
+   */
+  async getAllEpics(): Promise<Epic[]> {
+    return Object.values(this.epicCache);
+  }
+
+  /**
+   * Get Epic by ID
+   */
+  async getEpicById(id: string): Promise<Epic | undefined> {
+    return this.epicCache[id];
+  }
+
+  /**
+   * Add a new Epic
+   */
+  async addEpic(epic: Epic): Promise<boolean> {
+    if (!epic || !epic.id || this.epicCache[epic.id]) {
+      return false; // Prevent adding null/duplicate IDs
+    }
+
+    const add = this.db.transaction(() => {
+      if (this.db.prepare('SELECT 1 FROM epics WHERE id = ?').get(epic.id)) {
+        return false; // Added by another process since we loaded
+      }
+      epic.version = 1;
+      this.writeEpic(epic);
+      return true;
+    });
+
+    if (!add()) {
+      return false;
+    }
+    this.epicCache[epic.id] = epic;
+    return true;
+  }
+
+  /**
+   * Update an existing Epic, bumping its version
+   * @throws EpicVersionConflictError if another process changed the Epic since it was loaded
+   */
+  async updateEpic(id: string, epic: Epic): Promise<boolean> {
+    if (id !== epic.id || !this.epicCache[id]) {
+      return false;
+    }
+
+    const expectedVersion = this.epicCache[id].version;
+    const update = this.db.transaction(() => {
+      const stored = this.db.prepare<[string], { version: number }>('SELECT version FROM epics WHERE id = ?').get(id);
+      if (!stored) {
+        return false;
+      }
+      if (expectedVersion !== undefined && stored.version !== expectedVersion) {
+        throw new EpicVersionConflictError(id, expectedVersion, stored.version);
+      }
+      epic.version = stored.version + 1;
+      this.writeEpic(epic);
+      return true;
+    });
+
+    if (!update()) {
+      return false;
+    }
+    this.epicCache[id] = epic;
+    return true;
+  }
+
+  /**
+   * Delete an Epic along with its Tasks, Subtasks, files, dependencies and tags
+   */
+  async deleteEpic(id: string): Promise<boolean> {
+    if (!this.epicCache[id]) {
+      return false;
+    }
+    this.db.prepare('DELETE FROM epics WHERE id = ?').run(id);
+    delete this.epicCache[id];
+    return true;
+  }
+
+  /**
+   * Run a load-modify-save cycle while holding the workspace's storage lock file, which also
+   * guards the history, trash and milestone files kept next to the database
+   */
+  withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return withStorageLock(this.basePath, fn);
+  }
+
+  /**
+   * Finds Epics matching all given criteria using the database indexes
+   */
+  async findEpics(query: EpicQuery = {}): Promise<Epic[]> {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+    if (query.status) {
+      conditions.push('e.status = @status');
+      params.status = query.status;
+    }
+    if (query.priority) {
+      conditions.push('e.priority = @priority');
+      params.priority = query.priority;
+    }
+    if (query.tag) {
+      conditions.push("EXISTS (SELECT 1 FROM tags g WHERE g.epic_id = e.id AND g.task_id = '' AND g.subtask_id = '' AND g.tag = @tag)");
+      params.tag = query.tag;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare<Record<string, string>, { id: string }>(`SELECT e.id FROM epics e ${where} ORDER BY e.created_at, e.id`).all(params);
+    return rows
+      .map(row => this.epicCache[row.id])
+      .filter((epic): epic is Epic => epic !== undefined);
+  }
+
+  /**
+   * Closes the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Get the database file path
+   */
+  getDatabasePath(): string {
+    return this.db.name;
+  }
+
+  /**
+   * Reads all Epics with their Tasks, Subtasks, files, dependencies and tags
+   */
+  private readEpics(): Epic[] {
+    const epicRows = this.db.prepare<[], EpicRow>('SELECT * FROM epics ORDER BY created_at, id').all();
+    const taskRows = this.db.prepare<[], TaskRow>('SELECT * FROM tasks ORDER BY epic_id, position').all();
+    const subtaskRows = this.db.prepare<[], SubtaskRow>('SELECT * FROM subtasks ORDER BY epic_id, task_id, position').all();
+    const fileRows = this.db.prepare<[], FileRow>('SELECT * FROM files ORDER BY epic_id, task_id, subtask_id, position').all();
+    const dependencyRows = this.db.prepare<[], DependencyRow>('SELECT * FROM dependencies ORDER BY epic_id, task_id, position').all();
+    const tagRows = this.db.prepare<[], TagRow>('SELECT * FROM tags ORDER BY epic_id, task_id, subtask_id, position').all();
+
+    const files = groupByOwner(fileRows, row => {
+      const file: AssociatedFile = { filePath: row.file_path, addedAt: row.added_at };
+      if (row.description !== null) file.description = row.description;
+      return file;
+    }, row => ownerKey(row.epic_id, row.task_id, row.subtask_id));
+    const dependencies = groupByOwner(dependencyRows, row => row.depends_on, row => ownerKey(row.epic_id, row.task_id));
+    const tags = groupByOwner(tagRows, row => row.tag, row => ownerKey(row.epic_id, row.task_id, row.subtask_id));
+    const subtaskRowsByParent = groupByOwner(subtaskRows, row => row, row => ownerKey(row.epic_id, row.task_id, row.parent_id));
+
+    const buildSubtasks = (epicId: string, taskId: string, parentId: string): Subtask[] =>
+      (subtaskRowsByParent.get(ownerKey(epicId, taskId, parentId)) ?? []).map(row => {
+        const key = ownerKey(epicId, taskId, row.id);
+        const subtask: Subtask = {
+          files: [],
+          subtasks: [],
+          ...parseExtra(row.extra), // Schema version 1 kept files, tags and nested Subtasks here
+          id: row.id,
+          description: row.description,
+          status: row.status,
+          createdAt: row.created_at
+        };
+        const children = buildSubtasks(epicId, taskId, row.id);
+        if (children.length > 0) subtask.subtasks = children;
+        if (files.has(key)) subtask.files = files.get(key)!;
+        if (tags.has(key)) subtask.tags = tags.get(key);
+        if (row.priority !== null) subtask.priority = row.priority;
+        if (row.complexity !== null) subtask.complexity = row.complexity;
+        if (row.updated_at !== null) subtask.updatedAt = row.updated_at;
+        return subtask;
+      });
+
+    const tasks = groupByOwner(taskRows, row => {
+      const key = ownerKey(row.epic_id, row.id);
+      const task: Task = {
+        ...parseExtra(row.extra),
+        id: row.id,
+        description: row.description,
+        status: row.status,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        subtasks: buildSubtasks(row.epic_id, row.id, ''),
+        files: files.get(key) ?? []
+      };
+      assignOptional(task, row, dependencies.get(key), tags.get(key));
+      return task;
+    }, row => row.epic_id);
+
+    return epicRows.map(row => {
+      const key = ownerKey(row.id, '');
+      const epic: Epic = {
+        ...parseExtra(row.extra),
+        id: row.id,
+        description: row.description,
+        status: row.status,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        version: row.version,
+        tasks: tasks.get(row.id) ?? [],
+        files: files.get(key) ?? []
+      };
+      assignOptional(epic, row, dependencies.get(key), tags.get(key));
+      return epic;
+    });
+  }
+
+  /**
+   * Replaces all rows of an Epic; must run inside a transaction
+   */
+  private writeEpic(epic: Epic): void {
+    this.db.prepare('DELETE FROM epics WHERE id = ?').run(epic.id);
+    this.db.prepare(`
+      INSERT INTO epics (id, description, status, priority, complexity, test_strategy, implementation_plan, details, start_date, due_date, assignee, estimated_hours, story_points, version, created_at, updated_at, extra)
+      VALUES (@id, @description, @status, @priority, @complexity, @testStrategy, @implementationPlan, @details, @startDate, @dueDate, @assignee, @estimatedHours, @storyPoints, @version, @createdAt, @updatedAt, @extra)
+    `).run({
+      ...itemColumns(epic),
+      version: epic.version ?? 1,
+      extra: extraJson(epic, EPIC_COLUMNS)
+    });
+    this.writeOwnedRows(epic.id, '', epic);
+
+    const insertTask = this.db.prepare(`
+      INSERT INTO tasks (epic_id, id, position, description, status, priority, complexity, test_strategy, implementation_plan, details, start_date, due_date, assignee, estimated_hours, story_points, created_at, updated_at, extra)
+      VALUES (@epicId, @id, @position, @description, @status, @priority, @complexity, @testStrategy, @implementationPlan, @details, @startDate, @dueDate, @assignee, @estimatedHours, @storyPoints, @createdAt, @updatedAt, @extra)
+    `);
+
+    (epic.tasks ?? []).forEach((task, position) => {
+      insertTask.run({
+        ...itemColumns(task),
+        epicId: epic.id,
+        position,
+        extra: extraJson(task, TASK_COLUMNS)
+      });
+      this.writeOwnedRows(epic.id, task.id, task);
+      this.writeSubtasks(epic.id, task.id, '', task.subtasks ?? []);
+    });
+  }
+
+  /**
+   * Inserts Subtasks under a Task ('' parentId) or parent Subtask, with their files, tags and nested Subtasks
+   */
+  private writeSubtasks(epicId: string, taskId: string, parentId: string, subtasks: Subtask[]): void {
+    const insertSubtask = this.db.prepare(`
+      INSERT INTO subtasks (epic_id, task_id, id, parent_id, position, description, status, priority, complexity, created_at, updated_at, extra)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    subtasks.forEach((subtask, position) => {
+      insertSubtask.run(
+        epicId, taskId, subtask.id, parentId, position,
+        subtask.description, subtask.status, subtask.priority ?? null, subtask.complexity ?? null,
+        subtask.createdAt, subtask.updatedAt ?? null,
+        extraJson(subtask, SUBTASK_COLUMNS)
+      );
+      this.writeFilesAndTags(epicId, taskId, subtask.id, subtask);
+      this.writeSubtasks(epicId, taskId, subtask.id, subtask.subtasks ?? []);
+    });
+  }
+
+  /**
+   * Inserts the files, dependencies and tags of an Epic ('' taskId) or Task
+   */
+  private writeOwnedRows(epicId: string, taskId: string, item: Epic | Task): void {
+    const insertDependency = this.db.prepare('INSERT INTO dependencies (epic_id, task_id, position, depends_on) VALUES (?, ?, ?, ?)');
+
+    this.writeFilesAndTags(epicId, taskId, '', item);
+    (item.dependencies ?? []).forEach((dependsOn, position) => {
+      insertDependency.run(epicId, taskId, position, dependsOn);
+    });
+  }
+
+  /**
+   * Inserts the files and tags of an Epic, Task ('' subtaskId) or Subtask, keeping their order
+   */
+  private writeFilesAndTags(epicId: string, taskId: string, subtaskId: string, item: Epic | Task | Subtask): void {
+    const insertFile = this.db.prepare('INSERT INTO files (epic_id, task_id, subtask_id, position, file_path, description, added_at) VALUES (?, ?, ?, ?, ?, ?, ?)');
+    const insertTag = this.db.prepare('INSERT OR IGNORE INTO tags (epic_id, task_id, subtask_id, position, tag) VALUES (?, ?, ?, ?, ?)');
+
+    (item.files ?? []).forEach((file, position) => {
+      insertFile.run(epicId, taskId, subtaskId, position, file.filePath, file.description ?? null, file.addedAt);
+    });
+    (item.tags ?? []).forEach((tag, position) => {
+      insertTag.run(epicId, taskId, subtaskId, position, tag);
+    });
+  }
+
+  /**
+   * Brings the tables of a database created by an older version up to the current schema,
+   * rewriting every Epic so fields kept in `extra` move to their columns and tables
+   */
+  private migrateSchema(): void {
+    const migrate = this.db.transaction(() => {
+      const stored = this.db.prepare<[string], { value: string }>('SELECT value FROM meta WHERE key = ?').get(SCHEMA_VERSION_KEY);
+      // Databases from before the version was recorded have no parent_id column
+      const hasParentColumn = this.db.prepare<[], { name: string }>('PRAGMA table_info(subtasks)').all()
+        .some(column => column.name === 'parent_id');
+      const version = stored ? Number(stored.value) : hasParentColumn ? CURRENT_SCHEMA_VERSION : 1;
+
+      if (version < 2) {
+        this.db.exec(MIGRATE_TO_VERSION_2);
+        for (const epic of this.readEpics()) {
+          this.writeEpic(epic);
+        }
+        console.error(`Migrated ${this.db.name} from schema version ${version} to ${CURRENT_SCHEMA_VERSION}`);
+      }
+      if (!stored || version < CURRENT_SCHEMA_VERSION) {
+        this.db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+      }
+    });
+    // Take the write lock up front so processes opening an old database at once migrate it only once
+    migrate.immediate();
+  }
+
+  /**
+   * Imports the Epics of an existing JSON store into an empty database, once.
+   * The store is read under the storage lock as in JSON mode, so damaged files are restored
+   * from backups and older files migrated, and no other process writes it meanwhile.
+   */
+  private async migrateFromJson(): Promise<void> {
+    const isMigrated = () => this.db.prepare('SELECT value FROM meta WHERE key = ?').get(JSON_MIGRATION_KEY) !== undefined;
+    if (isMigrated()) {
+      return;
+    }
+
+    await withStorageLock(this.basePath, async () => {
+      if (isMigrated()) {
+        return; // Imported by another process while we waited for the lock
+      }
+
+      let epics: Epic[] = [];
+      const jsonStoreFile = path.join(this.basePath, 'intelliplan', 'epics', 'epics.json');
+      if (fs.existsSync(jsonStoreFile)) {
+        await loadEpicsFromService();
+        epics = getEpicsFromService();
+      }
+
+      const migrate = this.db.transaction(() => {
+        const exists = this.db.prepare('SELECT 1 FROM epics WHERE id = ?');
+        let imported = 0;
+        for (const epic of epics) {
+          if (!exists.get(epic.id)) {
+            this.writeEpic(epic);
+            imported++;
+          }
+        }
+        this.db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(JSON_MIGRATION_KEY, new Date().toISOString());
+        return imported;
+      });
+
+      const imported = migrate();
+      if (imported > 0) {
+        console.error(`Imported ${imported} Epics from ${jsonStoreFile} into ${this.db.name}; SQLite mode no longer reads or writes the JSON store.`);
+      }
+    });
+  }
+}
+
+/**
+ * Key identifying the Epic ('' taskId), Task ('' subtaskId) or Subtask that owns a row
+ */
+function ownerKey(epicId: string, taskId: string, subtaskId: string = ''): string {
+  return `${epicId}/${taskId}/${subtaskId}`;
+}
+
+/**
+ * Groups mapped rows by owner, keeping row order within each group
+ */
+function groupByOwner<R, T>(rows: R[], map: (row: R) => T, key: (row: R) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const group = groups.get(key(row)) ?? [];
+    group.push(map(row));
+    groups.set(key(row), group);
+  }
+  return groups;
+}
+
+/**
+ * Column values shared by the epics and tasks tables
+ */
+function itemColumns(item: Epic | Task) {
+  return {
+    id: item.id,
+    description: item.description,
+    status: item.status,
+    priority: item.priority ?? null,
+    complexity: item.complexity ?? null,
+    testStrategy: item.testStrategy ?? null,
+    implementationPlan: item.implementationPlan ?? null,
+    details: item.details ?? null,
+    startDate: item.startDate ?? null,
+    dueDate: item.dueDate ?? null,
+    assignee: item.assignee ?? null,
+    estimatedHours: item.estimatedHours ?? null,
+    storyPoints: item.storyPoints ?? null,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt
+  };
+}
+
+/**
+ * Sets the optional fields of an Epic or Task that are only present when stored
+ */
+function assignOptional(item: Epic | Task, row: ItemRow, dependencies?: string[], tags?: string[]): void {
+  if (row.priority !== null) item.priority = row.priority;
+  if (row.complexity !== null) item.complexity = row.complexity;
+  if (row.test_strategy !== null) item.testStrategy = row.test_strategy;
+  if (row.implementation_plan !== null) item.implementationPlan = row.implementation_plan;
+  if (row.details !== null) item.details = row.details;
+  if (row.start_date !== null) item.startDate = row.start_date;
+  if (row.due_date !== null) item.dueDate = row.due_date;
+  if (row.assignee !== null) item.assignee = row.assignee;
+  if (row.estimated_hours !== null) item.estimatedHours = row.estimated_hours;
+  if (row.story_points !== null) item.storyPoints = row.story_points;
+  if (dependencies) item.dependencies = dependencies;
+  if (tags) item.tags = tags;
+}
+
+/**
+ * Serializes the fields of an item that have no column of their own
+ */
+function extraJson(item: object, columns: string[]): string | null {
+  const extra = Object.fromEntries(Object.entries(item).filter(([key]) => !columns.includes(key)));
+  return Object.keys(extra).length > 0 ? JSON.stringify(extra) : null;
+}
+
+/**
+ * Parses the `extra` column back into fields
+ */
+function parseExtra(extra: string | null): Record<string, unknown> {
+  return extra ? JSON.parse(extra) : {};
+}
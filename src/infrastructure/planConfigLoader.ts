@@ -1,5 +1,6 @@
 import fs from 'fs';
 import path from 'path';
+import { fileURLToPath } from 'url';
 import { z } from 'zod';
 import type { PlanConfiguration, LoadPlanConfigResult } from '../types/PlanConfigTypes.js';
 
@@ -72,6 +73,11 @@ export function loadPlanConfiguration(configPath: string): LoadPlanConfigResult
     }
 }
 
+/**
+ * Directory of the plan configurations shipped with IntelliPlan (config/planning)
+ */
+export const BUNDLED_CONFIG_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../config/planning');
+
 /**
  * Gets a list of available plan configurations in the given directory
  * 
@@ -247,7 +253,7 @@ export const DEFAULT_PLAN_CONFIGURATION: PlanConfiguration = {
                 "Is the plan comprehensive and feasible?",
                 "Have we missed anything important?"
             ],
-            nextStepPrompt: "Complete planning and create Epic using batchEpic tool",
+            nextStepPrompt: "Complete planning and create Epic using batchEpic tool. Give each task a `key` and list the keys of the tasks it depends on in its `dependencies`.",
             requiresPreviousStepData: true
         }
     ]
@@ -0,0 +1,94 @@
+/**
+ * Schema versions of stored epic.json files and the migrations between them.
+ * Files written before versioning was introduced have no schemaVersion and count as version 0.
+ */
+
+/**
+ * An Epic as read from disk, before it is migrated and validated
+ */
+export type StoredEpic = Record<string, any>;
+
+/**
+ * Upgrades a stored Epic from the previous schema version to `version`
+ */
+export interface EpicMigration {
+    version: number;
+    description: string;
+    migrate(epic: StoredEpic): StoredEpic;
+}
+
+/**
+ * Thrown for files written by a newer IntelliPlan, which must not be downgraded or overwritten
+ */
+export class UnsupportedSchemaVersionError extends Error {
+    constructor(filePath: string, schemaVersion: number) {
+        super(
+            `${filePath} uses schema version ${schemaVersion}, but this IntelliPlan only supports up to ` +
+            `version ${CURRENT_SCHEMA_VERSION}. Upgrade IntelliPlan to open this workspace.`
+        );
+        this.name = 'UnsupportedSchemaVersionError';
+    }
+}
+
+// Ordered by version; each entry upgrades from version - 1
+const MIGRATIONS: EpicMigration[] = [
+    {
+        version: 1,
+        description: "Fill in missing files, tasks and subtasks lists and updatedAt timestamps",
+        migrate: epic => ({
+            ...epic,
+            updatedAt: epic.updatedAt ?? epic.createdAt,
+            files: epic.files ?? [],
+            tasks: (epic.tasks ?? []).map((task: StoredEpic) => ({
+                ...task,
+                updatedAt: task.updatedAt ?? task.createdAt,
+                files: task.files ?? [],
+                subtasks: task.subtasks ?? []
+            }))
+        })
+    },
+    {
+        version: 2,
+        description: "Give every Subtask its own files and nested subtasks lists",
+        migrate: epic => ({
+            ...epic,
+            tasks: epic.tasks.map((task: StoredEpic) => ({
+                ...task,
+                subtasks: task.subtasks.map((subtask: StoredEpic) => ({
+                    ...subtask,
+                    files: subtask.files ?? [],
+                    subtasks: subtask.subtasks ?? []
+                }))
+            }))
+        })
+    }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Reads the schema version a stored Epic was written with
+ */
+export function getSchemaVersion(epic: StoredEpic): number {
+    return typeof epic.schemaVersion === 'number' ? epic.schemaVersion : 0;
+}
+
+/**
+ * Lists the migrations that still have to run for data at the given version
+ */
+export function getPendingMigrations(fromVersion: number): EpicMigration[] {
+    return MIGRATIONS.filter(migration => migration.version > fromVersion);
+}
+
+/**
+ * Runs every pending migration on a stored Epic.
+ * The result no longer carries a schemaVersion; it is added again when the Epic is written.
+ */
+export function migrateEpic(epic: StoredEpic): StoredEpic {
+    let migrated = epic;
+    for (const migration of getPendingMigrations(getSchemaVersion(epic))) {
+        migrated = migration.migrate(migrated);
+    }
+    const { schemaVersion: _schemaVersion, ...data } = migrated;
+    return data;
+}
@@ -0,0 +1,174 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const RETRY_INTERVAL_MS = 100;
+// Locks are only held for a single load-modify-save cycle, so anything older was abandoned
+const STALE_LOCK_MS = 60000;
+
+/**
+ * Contents of a lock file, identifying the process holding it
+ */
+interface LockOwner {
+    pid: number;
+    hostname: string;
+    acquiredAt: string;
+}
+
+/**
+ * Snapshot of an existing lock file
+ */
+interface LockState {
+    raw: string;
+    owner?: LockOwner;
+    ageMs: number;
+}
+
+/**
+ * Thrown when a lock could not be acquired before the timeout expired
+ */
+export class StorageLockTimeoutError extends Error {
+    constructor(lockPath: string, timeoutMs: number, owner?: LockOwner) {
+        const holder = owner
+            ? ` It is held by process ${owner.pid} on ${owner.hostname} since ${owner.acquiredAt}.`
+            : '';
+        super(
+            `Timed out after ${timeoutMs}ms waiting for the storage lock ${lockPath}.${holder} ` +
+            `Another IntelliPlan client is probably saving to the same basePath - retry in a moment. ` +
+            `If no other client is running, delete the lock file.`
+        );
+        this.name = 'StorageLockTimeoutError';
+    }
+}
+
+/**
+ * Advisory lock backed by a lock file that is created exclusively.
+ * Locks left behind by crashed processes are detected and broken.
+ */
+export class FileLock {
+    private held = false;
+
+    constructor(private readonly lockPath: string) {}
+
+    /**
+     * Waits until the lock file can be created
+     * @throws StorageLockTimeoutError if another process keeps holding the lock
+     */
+    async acquire(timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<void> {
+        const deadline = Date.now() + timeoutMs;
+
+        for (;;) {
+            const owner: LockOwner = {
+                pid: process.pid,
+                hostname: os.hostname(),
+                acquiredAt: new Date().toISOString()
+            };
+            try {
+                await fs.writeFile(this.lockPath, JSON.stringify(owner), { flag: 'wx' });
+                this.held = true;
+                return;
+            } catch (error: any) {
+                if (error.code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+
+            const state = await this.readState();
+            if (!state) {
+                continue; // Released in the meantime
+            }
+            if (this.isStale(state)) {
+                await this.breakLock(state);
+                continue;
+            }
+            if (Date.now() >= deadline) {
+                throw new StorageLockTimeoutError(this.lockPath, timeoutMs, state.owner);
+            }
+            await new Promise(resolve => setTimeout(resolve, RETRY_INTERVAL_MS));
+        }
+    }
+
+    /**
+     * Removes the lock file if this instance holds it
+     */
+    async release(): Promise<void> {
+        if (!this.held) {
+            return;
+        }
+        this.held = false;
+        await fs.rm(this.lockPath, { force: true });
+    }
+
+    /**
+     * Reads the current lock file, or undefined if there is none
+     */
+    private async readState(): Promise<LockState | undefined> {
+        try {
+            const [raw, stats] = await Promise.all([
+                fs.readFile(this.lockPath, 'utf-8'),
+                fs.stat(this.lockPath)
+            ]);
+            let owner: LockOwner | undefined;
+            try {
+                owner = JSON.parse(raw);
+            } catch {
+                // Still being written, or truncated by a crash - judged by age alone
+            }
+            return { raw, owner, ageMs: Date.now() - stats.mtimeMs };
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * A lock is stale when it is too old, or its owner on this host is no longer running
+     */
+    private isStale(state: LockState): boolean {
+        if (state.ageMs > STALE_LOCK_MS) {
+            return true;
+        }
+        if (!state.owner || state.owner.hostname !== os.hostname()) {
+            return false;
+        }
+        // Locks within this process are serialized before reaching the file, so one owned by us is left over
+        return state.owner.pid === process.pid || !isProcessAlive(state.owner.pid);
+    }
+
+    /**
+     * Removes a stale lock without deleting a fresh one another process may have just created
+     */
+    private async breakLock(stale: LockState): Promise<void> {
+        const claimedPath = `${this.lockPath}.stale-${process.pid}-${Math.random().toString(36).slice(2)}`;
+        try {
+            await fs.rename(this.lockPath, claimedPath);
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return; // Someone else broke or released it first
+            }
+            throw error;
+        }
+
+        const claimed = await fs.readFile(claimedPath, 'utf-8');
+        if (claimed !== stale.raw) {
+            // Another process replaced the stale lock before our rename - put its lock back
+            await fs.link(claimedPath, this.lockPath).catch(() => undefined);
+        }
+        console.error(`Removed stale storage lock ${this.lockPath} (${stale.raw || 'empty'})`);
+        await fs.rm(claimedPath, { force: true });
+    }
+}
+
+/**
+ * Checks whether a process with the given id is running on this host
+ */
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error: any) {
+        return error.code === 'EPERM'; // Exists but belongs to another user
+    }
+}
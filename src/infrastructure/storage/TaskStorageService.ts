@@ -1,7 +1,18 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { AsyncLocalStorage } from 'async_hooks';
+import { FileLock } from './FileLock.js';
 import type { Epic, EpicStore, Task, Subtask } from '../../domain/task/entities/Task.js';
+import { parseEpic } from '../../domain/task/schemas/epicSchemas.js';
+import {
+    CURRENT_SCHEMA_VERSION,
+    UnsupportedSchemaVersionError,
+    getSchemaVersion,
+    getPendingMigrations,
+    migrateEpic
+} from './EpicMigrations.js';
+import type { StoredEpic, EpicMigration } from './EpicMigrations.js';
 
 // Use home directory for storage to ensure consistent location regardless of execution directory
 const HOME_DIR = os.homedir();
@@ -9,14 +20,99 @@ const HOME_DIR = os.homedir();
 // Storage configurations
 const DEFAULT_BASE_DIR = 'intelliplan';
 const EPICS_DIR_NAME = 'epics';
+const BACKUPS_DIR_NAME = 'backups';
+const MAX_BACKUPS = 3; // Number of previous store versions kept
+const LOCK_FILE_NAME = '.lock';
 
-// Storage paths - initialized to empty, must be set with configureStorage
-let BASE_DIR = '';
-let EPICS_DIR = '';
-let EPICS_STORE_FILE = '';
 
-// Internal store, not exported directly
-let epicStore: EpicStore = {};
+/**
+ * Lightweight summary of an Epic kept in epics.json.
+ * The full Epic (with its Tasks and Subtasks) lives in its own epic.json.
+ */
+interface EpicIndexEntry {
+    id: string;
+    description: string;
+    status: Epic['status'];
+    updatedAt: string;
+}
+
+// Older stores kept every Epic in full inside epics.json
+type EpicIndex = Record<string, EpicIndexEntry | Epic>;
+
+/**
+ * Schema versions found in the Epic files of a workspace
+ */
+export interface SchemaStatus {
+    currentVersion: number;
+    epicVersions: Record<string, number>; // Epic ID -> schema version of its stored file
+    unreadableEpicIds: string[];
+    pendingMigrations: EpicMigration[];
+}
+
+/**
+ * Storage paths and in-memory store of one workspace (basePath)
+ */
+interface WorkspaceStorage {
+    baseDir: string;
+    epicsDir: string;
+    storeFile: string;
+    backupsDir: string;
+    epics: EpicStore;
+    // Epics changed since the last save - only these get their epic.json rewritten
+    dirtyEpicIds: Set<string>;
+    // Set when the index must be rewritten even if no Epic is dirty (e.g. after a delete)
+    indexDirty: boolean;
+    // Epics deleted since the last save - their folders are removed once the index no longer lists them
+    removedEpicIds: Set<string>;
+}
+
+// Internal stores by resolved basePath, not exported directly, so workspaces never see each other's Epics
+const workspaces = new Map<string, WorkspaceStorage>();
+// Workspace set with configureStorage, used outside of inWorkspace and withStorageLock
+let configuredWorkspace: WorkspaceStorage | undefined;
+// Workspace the current async call chain works on
+const activeWorkspace = new AsyncLocalStorage<WorkspaceStorage>();
+
+// Lock file held by the current async call chain, so nested loads/saves don't wait on themselves
+const heldLock = new AsyncLocalStorage<string>();
+// Serializes locked sections within this process; the lock file itself guards against other processes
+let lockQueue: Promise<void> = Promise.resolve();
+
+/**
+ * The storage of a workspace, created on first use
+ */
+function getWorkspace(basePath: string): WorkspaceStorage {
+    const key = path.resolve(basePath);
+    let workspace = workspaces.get(key);
+    if (!workspace) {
+        const baseDir = path.join(key, DEFAULT_BASE_DIR);
+        const epicsDir = path.join(baseDir, EPICS_DIR_NAME);
+        workspace = {
+            baseDir,
+            epicsDir,
+            storeFile: path.join(epicsDir, 'epics.json'),
+            backupsDir: path.join(baseDir, BACKUPS_DIR_NAME),
+            epics: {},
+            dirtyEpicIds: new Set(),
+            indexDirty: false,
+            removedEpicIds: new Set()
+        };
+        workspaces.set(key, workspace);
+    }
+    return workspace;
+}
+
+/**
+ * The workspace of the current call chain: the one it holds the lock of or runs inWorkspace for,
+ * otherwise the one set with configureStorage
+ */
+function currentWorkspace(): WorkspaceStorage {
+    const workspace = activeWorkspace.getStore() ?? configuredWorkspace;
+    if (!workspace) {
+        throw new Error('Storage not configured. Call configureStorage first.');
+    }
+    return workspace;
+}
 
 /**
  * Configure the storage location for Epics
@@ -28,30 +124,30 @@ export function configureStorage(basePath: string): string {
         throw new Error('Base path is required for storage configuration');
     }
     
-    BASE_DIR = path.join(basePath, DEFAULT_BASE_DIR);
-    EPICS_DIR = path.join(BASE_DIR, EPICS_DIR_NAME);
-    EPICS_STORE_FILE = path.join(EPICS_DIR, 'epics.json');
-    return EPICS_DIR;
+    configuredWorkspace = getWorkspace(basePath);
+    return configuredWorkspace.epicsDir;
+}
+
+/**
+ * Runs fn against the storage of the given workspace, whatever configureStorage was last called with
+ * @param basePath Base path where IntelliPlan directory is (or will be) created
+ */
+export function inWorkspace<T>(basePath: string, fn: () => T): T {
+    return activeWorkspace.run(getWorkspace(basePath), fn);
 }
 
 /**
  * Get current storage directory path for Epics
  */
 export function getStoragePath(): string {
-    if (!EPICS_DIR) {
-        throw new Error('Storage not configured. Call configureStorage first.');
-    }
-    return EPICS_DIR;
+    return currentWorkspace().epicsDir;
 }
 
 /**
  * Get base intelliplan directory
  */
 export function getBaseDir(): string {
-    if (!BASE_DIR) {
-        throw new Error('Storage not configured. Call configureStorage first.');
-    }
-    return BASE_DIR;
+    return currentWorkspace().baseDir;
 }
 
 /**
@@ -59,10 +155,53 @@ export function getBaseDir(): string {
  * @param epicId The Epic ID
  */
 export function getEpicFolder(epicId: string): string {
-    if (!EPICS_DIR) {
-        throw new Error('Storage not configured. Call configureStorage first.');
+    return path.join(currentWorkspace().epicsDir, epicId);
+}
+
+/**
+ * Get path to the file holding a specific Epic
+ * @param epicId The Epic ID
+ */
+function getEpicFile(epicId: string): string {
+    return path.join(getEpicFolder(epicId), 'epic.json');
+}
+
+/**
+ * Runs a load-modify-save cycle while holding the advisory lock on a workspace's storage,
+ * so other processes sharing the same basePath can't interleave their own cycles with it.
+ * Reentrant: loadEpics/saveEpics inside fn reuse the lock instead of waiting for it.
+ * fn works on this workspace's store.
+ * @param basePath Base path the storage is (or will be) configured with
+ * @throws StorageLockTimeoutError if another process keeps holding the lock
+ */
+export async function withStorageLock<T>(basePath: string, fn: () => Promise<T>): Promise<T> {
+    const lockPath = path.join(basePath, DEFAULT_BASE_DIR, LOCK_FILE_NAME);
+    const currentLock = heldLock.getStore();
+    if (currentLock === lockPath) {
+        return fn();
+    }
+    
+    // Wait for other locked sections in this process, unless we are already inside one (different workspace)
+    const previous = currentLock ? Promise.resolve() : lockQueue;
+    let done!: () => void;
+    const current = new Promise<void>(resolve => { done = resolve; });
+    if (!currentLock) {
+        lockQueue = current;
+    }
+    
+    try {
+        await previous;
+        await fs.mkdir(path.dirname(lockPath), { recursive: true });
+        const lock = new FileLock(lockPath);
+        await lock.acquire();
+        try {
+            return await heldLock.run(lockPath, () => activeWorkspace.run(getWorkspace(basePath), fn));
+        } finally {
+            await lock.release();
+        }
+    } finally {
+        done();
     }
-    return path.join(EPICS_DIR, epicId);
 }
 
 /**
@@ -78,15 +217,127 @@ async function fileExists(filePath: string): Promise<boolean> {
 }
 
 /**
- * Ensures the main epics storage directory exists
+ * Writes a file atomically: the data goes to a temp file that is flushed to disk
+ * and then renamed over the target, so a crash never leaves a half-written file
  */
-async function ensureEpicsStorageDir(): Promise<void> {
-    if (!EPICS_DIR) {
-        throw new Error('Storage not configured. Call configureStorage first.');
+async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}-${Math.random().toString(36).slice(2)}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+        await handle.writeFile(data, 'utf-8');
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+    
+    try {
+        await fs.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Path of the n-th backup of a store file (1 = most recent), or of a backup with a named suffix
+ */
+function getBackupPath(filePath: string, n: number | string): string {
+    const workspace = currentWorkspace();
+    const relativeName = path.relative(workspace.epicsDir, filePath).split(path.sep).join('__');
+    return path.join(workspace.backupsDir, `${relativeName}.${n}`);
+}
+
+/**
+ * Copies the current version of a store file into the backup rotation,
+ * dropping the oldest backup once MAX_BACKUPS is reached
+ */
+async function rotateBackups(filePath: string): Promise<void> {
+    const workspace = currentWorkspace();
+    if (!(await fileExists(filePath))) {
+        return;
     }
     
+    await fs.mkdir(workspace.backupsDir, { recursive: true });
+    for (let n = MAX_BACKUPS - 1; n >= 1; n--) {
+        const backupPath = getBackupPath(filePath, n);
+        if (await fileExists(backupPath)) {
+            await fs.rename(backupPath, getBackupPath(filePath, n + 1));
+        }
+    }
+    await fs.copyFile(filePath, getBackupPath(filePath, 1));
+}
+
+/**
+ * Keeps a copy of a store file as it was before being migrated from the given schema version.
+ * Unlike rotated backups these are never dropped, so the original data stays recoverable.
+ */
+async function backupBeforeMigration(filePath: string, fromVersion: number): Promise<void> {
+    const workspace = currentWorkspace();
+    const backupPath = getBackupPath(filePath, `schema-v${fromVersion}`);
+    if (await fileExists(backupPath)) {
+        return;
+    }
+    await fs.mkdir(workspace.backupsDir, { recursive: true });
+    await fs.copyFile(filePath, backupPath);
+}
+
+/**
+ * Moves an unreadable store file aside so it is kept for inspection but never loaded again
+ * @returns Path of the quarantined file
+ */
+async function quarantineFile(filePath: string): Promise<string> {
+    const quarantinePath = `${filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    await fs.rename(filePath, quarantinePath);
+    return quarantinePath;
+}
+
+/**
+ * Returns the contents of the most recent backup of a store file that still parses and validates
+ */
+async function readLatestValidBackup<T>(filePath: string, parse: (data: string) => T): Promise<T | undefined> {
+    for (let n = 1; n <= MAX_BACKUPS; n++) {
+        const backupPath = getBackupPath(filePath, n);
+        try {
+            const contents = parse(await fs.readFile(backupPath, 'utf-8'));
+            console.error(`Restored ${filePath} from backup ${backupPath}`);
+            return contents;
+        } catch {
+            // Missing or also corrupt - try the next older backup
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parses the contents of a store file, rejecting anything that is not a JSON object
+ */
+function parseJsonObject<T>(data: string): T {
+    const parsed = JSON.parse(data);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Store file does not contain a JSON object');
+    }
+    return parsed as T;
+}
+
+/**
+ * Parses the contents of an epic.json file, migrating it to the current schema and validating it
+ * @throws UnsupportedSchemaVersionError if the file was written by a newer version
+ */
+function parseEpicFile(filePath: string, data: string): { epic: Epic; schemaVersion: number } {
+    const stored = parseJsonObject<StoredEpic>(data);
+    const schemaVersion = getSchemaVersion(stored);
+    if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+        throw new UnsupportedSchemaVersionError(filePath, schemaVersion);
+    }
+    return { epic: parseEpic(migrateEpic(stored)), schemaVersion };
+}
+
+/**
+ * Ensures the main epics storage directory exists
+ */
+async function ensureEpicsStorageDir(): Promise<void> {
     try {
-        await fs.mkdir(EPICS_DIR, { recursive: true });
+        await fs.mkdir(currentWorkspace().epicsDir, { recursive: true });
     } catch (error) {
         throw error; // Re-throw to handle higher up
     }
@@ -96,10 +347,6 @@ async function ensureEpicsStorageDir(): Promise<void> {
  * Ensures the specific epic directory exists
  */
 async function ensureEpicDir(epicId: string): Promise<void> {
-    if (!EPICS_DIR) {
-        throw new Error('Storage not configured. Call configureStorage first.');
-    }
-    
     try {
         const epicDir = getEpicFolder(epicId);
         await fs.mkdir(epicDir, { recursive: true });
@@ -112,26 +359,47 @@ async function ensureEpicDir(epicId: string): Promise<void> {
  * Loads Epics for the current workspace
  */
 export async function loadEpics(): Promise<void> {
-    if (!EPICS_STORE_FILE) {
-        throw new Error('Storage not configured. Call configureStorage first.');
-    }
-    
+    await withStorageLock(path.dirname(currentWorkspace().baseDir), readEpicStore);
+}
+
+/**
+ * Reads the index and Epic files into memory; the storage lock must be held
+ */
+async function readEpicStore(): Promise<void> {
+    const workspace = currentWorkspace();
     try {
         await ensureEpicsStorageDir(); // Ensure main epics directory exists
         
+        workspace.epics = {};
+        workspace.dirtyEpicIds.clear();
+        workspace.indexDirty = false;
+        workspace.removedEpicIds.clear();
+        
+        let data: string | undefined;
         try {
-            const data = await fs.readFile(EPICS_STORE_FILE, 'utf-8');
-            epicStore = JSON.parse(data);
+            data = await fs.readFile(workspace.storeFile, 'utf-8');
         } catch (error: any) {
-            if (error.code === 'ENOENT') {
-                epicStore = {};
-                // Create an initial empty file
-                await saveEpics();
-            } else {
-                console.error("Error parsing epics.json, starting fresh:", error);
-                epicStore = {}; // Start fresh on load error
-                await saveEpics();
+            if (error.code !== 'ENOENT') {
+                throw error; // Unreadable for other reasons - never overwrite it
+            }
+            workspace.indexDirty = true; // Create an initial empty file
+        }
+        
+        if (data !== undefined) {
+            let index: EpicIndex | undefined;
+            try {
+                index = parseJsonObject<EpicIndex>(data);
+            } catch (error) {
+                // Keep the corrupt index aside and rebuild it from the Epic files
+                const quarantinePath = await quarantineFile(workspace.storeFile);
+                console.error(`Error parsing epics.json, moved it to ${quarantinePath}:`, error);
+                workspace.indexDirty = true;
             }
+            workspace.epics = index ? await loadIndexedEpics(index) : await recoverEpicsWithoutIndex();
+        }
+        
+        if (workspace.dirtyEpicIds.size > 0 || workspace.indexDirty) {
+            await writeEpicStore();
         }
     } catch (error) {
         console.error("Failed to load epics:", error);
@@ -140,10 +408,136 @@ export async function loadEpics(): Promise<void> {
 }
 
 /**
- * Saves Epics for the current workspace
+ * Loads every Epic listed in an index, reading each one from its own epic.json
+ */
+async function loadIndexedEpics(index: EpicIndex): Promise<EpicStore> {
+    const workspace = currentWorkspace();
+    const store: EpicStore = {};
+    for (const entry of Object.values(index)) {
+        if ('tasks' in entry && Array.isArray(entry.tasks)) {
+            // Legacy layout: the full Epic is in the index, so write it out per Epic
+            try {
+                const epic = parseEpic(migrateEpic(entry));
+                store[epic.id] = epic;
+                workspace.dirtyEpicIds.add(epic.id);
+            } catch (error) {
+                // The rewritten index is preceded by a backup, which still holds the original entry
+                console.error(`Skipping Epic ${entry.id} from the legacy epics.json:`, error);
+                workspace.indexDirty = true;
+            }
+            continue;
+        }
+        
+        const epic = await loadEpicFile(entry.id);
+        if (epic) {
+            store[epic.id] = epic;
+        } else {
+            workspace.indexDirty = true; // Drop the entry that can no longer be loaded
+        }
+    }
+    return store;
+}
+
+/**
+ * Reads a single Epic, migrating it to the current schema version.
+ * Restores its last good backup if the file is corrupt or fails validation.
+ */
+async function loadEpicFile(epicId: string): Promise<Epic | undefined> {
+    const workspace = currentWorkspace();
+    const epicFile = getEpicFile(epicId);
+    
+    let data: string;
+    try {
+        data = await fs.readFile(epicFile, 'utf-8');
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+            throw error;
+        }
+        console.error(`Epic ${epicId} is listed in epics.json but ${epicFile} is missing, skipping it.`);
+        return undefined;
+    }
+    
+    let parsed: { epic: Epic; schemaVersion: number };
+    try {
+        parsed = parseEpicFile(epicFile, data);
+    } catch (error) {
+        if (error instanceof UnsupportedSchemaVersionError) {
+            throw error; // Valid data we can't read - never quarantine or overwrite it
+        }
+        const quarantinePath = await quarantineFile(epicFile);
+        console.error(`Error parsing ${epicFile}, moved it to ${quarantinePath}:`, error);
+        
+        const restored = await readLatestValidBackup(epicFile, backup => parseEpicFile(epicFile, backup).epic);
+        if (!restored) {
+            console.error(`No valid backup of Epic ${epicId} found, skipping it.`);
+            return undefined;
+        }
+        workspace.dirtyEpicIds.add(epicId);
+        return restored;
+    }
+    
+    if (parsed.schemaVersion < CURRENT_SCHEMA_VERSION) {
+        // Upgrade the file in place on the next write, keeping the original alongside the backups
+        await backupBeforeMigration(epicFile, parsed.schemaVersion);
+        console.error(`Migrated ${epicFile} from schema version ${parsed.schemaVersion} to ${CURRENT_SCHEMA_VERSION}`);
+        workspace.dirtyEpicIds.add(epicId);
+    }
+    return parsed.epic;
+}
+
+/**
+ * Rebuilds the store from the Epic folders when epics.json is unusable,
+ * falling back to the last good backup of the index if no Epic files are left
+ */
+async function recoverEpicsWithoutIndex(): Promise<EpicStore> {
+    const workspace = currentWorkspace();
+    const store: EpicStore = {};
+    for (const entry of await fs.readdir(workspace.epicsDir, { withFileTypes: true })) {
+        if (entry.isDirectory() && await fileExists(getEpicFile(entry.name))) {
+            const epic = await loadEpicFile(entry.name);
+            if (epic) {
+                store[epic.id] = epic;
+            }
+        }
+    }
+    if (Object.keys(store).length > 0) {
+        return store;
+    }
+    
+    const index = await readLatestValidBackup(workspace.storeFile, data => parseJsonObject<EpicIndex>(data));
+    if (!index) {
+        console.error("No Epic files or valid backup of epics.json found, starting with an empty store.");
+        return {};
+    }
+    return loadIndexedEpics(index);
+}
+
+/**
+ * Builds the lightweight epics.json index from the in-memory store
+ */
+function buildEpicIndex(): Record<string, EpicIndexEntry> {
+    const workspace = currentWorkspace();
+    const index: Record<string, EpicIndexEntry> = {};
+    for (const epic of Object.values(workspace.epics)) {
+        index[epic.id] = {
+            id: epic.id,
+            description: epic.description,
+            status: epic.status,
+            updatedAt: epic.updatedAt
+        };
+    }
+    return index;
+}
+
+/**
+ * Saves Epics for the current workspace.
+ * Only Epics changed since the last save are rewritten, followed by the index.
+ * The index is rebuilt from memory, so load the Epics under the same withStorageLock
+ * first; otherwise Epics other processes added since the last load are dropped from it.
  */
 export async function saveEpics(): Promise<void> {
-    if (!EPICS_STORE_FILE) {
+    const workspace = activeWorkspace.getStore() ?? configuredWorkspace;
+    if (!workspace) {
         // If not configured, we cannot save. Log an error or throw?
         // For now, let's log and return, assuming configuration should happen first.
         console.error('Storage not configured. Cannot save epics. Call configureStorage first.');
@@ -151,16 +545,44 @@ export async function saveEpics(): Promise<void> {
         // Alternatively: throw new Error('Storage not configured. Call configureStorage first.');
     }
     
+    await withStorageLock(path.dirname(workspace.baseDir), writeEpicStore);
+}
+
+/**
+ * Writes changed Epics and the index; the storage lock must be held
+ */
+async function writeEpicStore(): Promise<void> {
+    const workspace = currentWorkspace();
     try {
         await ensureEpicsStorageDir();
-        // Save the main epics index file
-        await fs.writeFile(EPICS_STORE_FILE, JSON.stringify(epicStore, null, 2), 'utf-8');
         
-        // Save individual epic files (containing their tasks and subtasks)
-        for (const epicId in epicStore) {
-            await ensureEpicDir(epicId);
-            const epicFile = path.join(getEpicFolder(epicId), 'epic.json');
-            await fs.writeFile(epicFile, JSON.stringify(epicStore[epicId], null, 2), 'utf-8');
+        if (workspace.dirtyEpicIds.size === 0 && !workspace.indexDirty) {
+            return;
+        }
+        
+        // Save changed epic files (containing their tasks and subtasks), keeping the previous versions as backups
+        for (const epicId of [...workspace.dirtyEpicIds]) {
+            const epic = workspace.epics[epicId];
+            if (epic) {
+                await ensureEpicDir(epicId);
+                const epicFile = getEpicFile(epicId);
+                await rotateBackups(epicFile);
+                await writeFileAtomic(epicFile, JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...epic }, null, 2));
+            }
+            workspace.dirtyEpicIds.delete(epicId);
+        }
+        
+        // Save the index last so it only ever lists Epics whose files are written
+        await rotateBackups(workspace.storeFile);
+        await writeFileAtomic(workspace.storeFile, JSON.stringify(buildEpicIndex(), null, 2));
+        workspace.indexDirty = false;
+        
+        // Remove the folders of deleted Epics, unless they were restored before this save
+        for (const epicId of [...workspace.removedEpicIds]) {
+            if (!workspace.epics[epicId]) {
+                await fs.rm(getEpicFolder(epicId), { recursive: true, force: true });
+            }
+            workspace.removedEpicIds.delete(epicId);
         }
     } catch (error) {
         console.error("Failed to save epics:", error);
@@ -168,25 +590,70 @@ export async function saveEpics(): Promise<void> {
     }
 }
 
+/**
+ * Reports the schema version of every stored Epic without migrating anything
+ */
+export async function getSchemaStatus(): Promise<SchemaStatus> {
+    const workspace = currentWorkspace();
+    return withStorageLock(path.dirname(workspace.baseDir), async () => {
+        const status: SchemaStatus = {
+            currentVersion: CURRENT_SCHEMA_VERSION,
+            epicVersions: {},
+            unreadableEpicIds: [],
+            pendingMigrations: []
+        };
+        
+        // Epics still kept in full inside a legacy epics.json predate versioning
+        try {
+            const index = parseJsonObject<EpicIndex>(await fs.readFile(workspace.storeFile, 'utf-8'));
+            for (const entry of Object.values(index)) {
+                if ('tasks' in entry && Array.isArray(entry.tasks)) {
+                    status.epicVersions[entry.id] = getSchemaVersion(entry);
+                }
+            }
+        } catch {
+            // Missing or unreadable - loadEpics rebuilds it from the Epic files
+        }
+        
+        const entries = await fs.readdir(workspace.epicsDir, { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+            const epicFile = getEpicFile(entry.name);
+            if (!entry.isDirectory() || !(await fileExists(epicFile))) {
+                continue;
+            }
+            try {
+                status.epicVersions[entry.name] = getSchemaVersion(parseJsonObject<StoredEpic>(await fs.readFile(epicFile, 'utf-8')));
+            } catch {
+                status.unreadableEpicIds.push(entry.name);
+            }
+        }
+        
+        const versions = Object.values(status.epicVersions);
+        status.pendingMigrations = getPendingMigrations(versions.length > 0 ? Math.min(...versions) : CURRENT_SCHEMA_VERSION);
+        return status;
+    });
+}
+
 /**
  * Get all Epics as an array
  */
 export function getEpics(): Epic[] {
-    return Object.values(epicStore);
+    return Object.values(currentWorkspace().epics);
 }
 
 /**
  * Get a specific Epic by ID
  */
 export function getEpicById(epicId: string): Epic | undefined {
-    return epicStore[epicId];
+    return currentWorkspace().epics[epicId];
 }
 
 /**
  * Get a specific Task by its ID (searches within all Epics)
  */
 export function getTaskById(taskId: string): { epic: Epic; task: Task } | undefined {
-    for (const epic of Object.values(epicStore)) {
+    const workspace = currentWorkspace();
+    for (const epic of Object.values(workspace.epics)) {
         const task = epic.tasks.find(t => t.id === taskId);
         if (task) {
             return { epic, task };
@@ -199,7 +666,8 @@ export function getTaskById(taskId: string): { epic: Epic; task: Task } | undefi
  * Get a specific Subtask by its ID (searches within all Tasks in all Epics)
  */
 export function getSubtaskById(subtaskId: string): { epic: Epic; task: Task; subtask: Subtask } | undefined {
-    for (const epic of Object.values(epicStore)) {
+    const workspace = currentWorkspace();
+    for (const epic of Object.values(workspace.epics)) {
         for (const task of epic.tasks) {
             const subtask = task.subtasks.find(s => s.id === subtaskId);
             if (subtask) {
@@ -215,52 +683,53 @@ export function getSubtaskById(subtaskId: string): { epic: Epic; task: Task; sub
  * @returns {boolean} True if successful
  */
 export function addEpic(epic: Epic): boolean {
-    if (!epic || !epic.id || epicStore[epic.id]) {
+    const workspace = currentWorkspace();
+    if (!epic || !epic.id || workspace.epics[epic.id]) {
         return false; // Prevent adding null/duplicate IDs
     }
-    epicStore[epic.id] = epic;
+    epic.version = 1;
+    workspace.epics[epic.id] = epic;
+    workspace.dirtyEpicIds.add(epic.id);
     return true;
 }
 
 /**
- * Update an existing Epic in the store
+ * Update an existing Epic in the store, bumping its version
  * @returns {boolean} True if Epic was found and updated
  */
 export function updateEpicStore(epicId: string, updatedEpic: Epic): boolean {
-    if (!epicStore[epicId]) {
+    const workspace = currentWorkspace();
+    if (!workspace.epics[epicId]) {
         return false;
     }
-    epicStore[epicId] = updatedEpic;
+    // Read before assigning: callers often pass the stored object itself
+    updatedEpic.version = (workspace.epics[epicId].version ?? 0) + 1;
+    workspace.epics[epicId] = updatedEpic;
+    workspace.dirtyEpicIds.add(epicId);
     return true;
 }
 
 /**
- * Delete an Epic from the store
+ * Delete an Epic from the store; its folder is removed by the next save
  * @returns {boolean} True if Epic was found and deleted
  */
 export function deleteEpicFromStore(epicId: string): boolean {
-    if (!epicStore[epicId]) {
+    const workspace = currentWorkspace();
+    if (!workspace.epics[epicId]) {
         return false;
     }
     
-    delete epicStore[epicId];
-    
-    // Also delete the epic directory asynchronously
-    try {
-        const epicDir = getEpicFolder(epicId);
-        fs.rm(epicDir, { recursive: true, force: true }).catch(err => {
-            console.error(`Failed to delete directory for epic ${epicId}:`, err);
-        });
-    } catch (error) {
-        console.error(`Error initiating deletion of directory for epic ${epicId}:`, error);
-    }
-    
+    delete workspace.epics[epicId];
+    workspace.dirtyEpicIds.delete(epicId);
+    workspace.removedEpicIds.add(epicId); // Its folder goes with the next save
+    workspace.indexDirty = true;
     return true;
 }
 
 // Example: Add a Task to an Epic
 export function addTaskToEpic(epicId: string, task: Task): boolean {
-    const epic = epicStore[epicId];
+    const workspace = currentWorkspace();
+    const epic = workspace.epics[epicId];
     if (!epic || !task || !task.id) {
         return false;
     }
@@ -269,6 +738,8 @@ export function addTaskToEpic(epicId: string, task: Task): boolean {
         return false; // Or handle as update?
     }
     epic.tasks.push(task);
+    epic.version = (epic.version ?? 0) + 1;
+    workspace.dirtyEpicIds.add(epicId);
     return true;
 }
 